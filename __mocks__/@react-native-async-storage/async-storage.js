@@ -0,0 +1,2 @@
+// In-memory AsyncStorage for jest (lib/storage.ts)
+export { default } from "@react-native-async-storage/async-storage/jest/async-storage-mock";
@@ -0,0 +1,30 @@
+/**
+ * Jest mock for react-native-purchases
+ *
+ * Keeps the SDK's enums (they all come from purchases-typescript-internal),
+ * but every `Purchases` method throws so a test can never reach the native
+ * module. Render with renderWithRevenueCat (lib/testing.tsx) to run against a
+ * scripted store instead.
+ */
+
+const methods = {};
+
+const Purchases = new Proxy(methods, {
+  get: (target, name) => {
+    if (typeof name !== "string") return undefined;
+    if (!target[name]) {
+      target[name] = jest.fn(() => {
+        throw new Error(
+          `Purchases.${name}() isn't available in tests, render with renderWithRevenueCat from lib/testing.tsx`
+        );
+      });
+    }
+    return target[name];
+  },
+});
+
+module.exports = {
+  ...jest.requireActual("@revenuecat/purchases-typescript-internal"),
+  __esModule: true,
+  default: Purchases,
+};
@@ -0,0 +1,24 @@
+/**
+ * Premium Route Group Layout
+ *
+ * Every screen inside app/(premium)/ requires an active paid tier.
+ * Customers without access are redirected to the paywall and brought back
+ * here after a successful purchase.
+ *
+ * To require a specific entitlement or tier instead, pass it to the guard:
+ * <PremiumRouteGuard entitlement="pro"> or <PremiumRouteGuard tier="pro">
+ */
+
+import { Stack } from 'expo-router';
+
+import { PremiumRouteGuard } from '@/components/PremiumRouteGuard';
+
+export default function PremiumLayout() {
+  return (
+    <PremiumRouteGuard>
+      <Stack>
+        <Stack.Screen name="premium-features" options={{ title: 'Premium Features' }} />
+      </Stack>
+    </PremiumRouteGuard>
+  );
+}
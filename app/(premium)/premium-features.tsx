@@ -0,0 +1,72 @@
+/**
+ * Premium Features Screen
+ *
+ * Example screen inside the (premium) route group. It is only reachable by
+ * customers with an active paid tier; see app/(premium)/_layout.tsx.
+ */
+
+import { StyleSheet } from 'react-native';
+
+import ParallaxScrollView from '@/components/ParallaxScrollView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTier } from '@/hooks/usePurchases';
+
+export default function PremiumFeaturesScreen() {
+  const { tierName } = useTier();
+
+  return (
+    <ParallaxScrollView
+      headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
+      headerImage={
+        <ThemedView style={styles.headerImageContainer}>
+          <ThemedText style={styles.headerTitle}>✨</ThemedText>
+        </ThemedView>
+      }>
+      <ThemedView style={styles.titleContainer}>
+        <ThemedText type="title">Premium Features</ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.card}>
+        <ThemedText type="defaultSemiBold">Welcome, {tierName} member!</ThemedText>
+        <ThemedText>
+          This screen lives in the <ThemedText type="defaultSemiBold">(premium)</ThemedText> route
+          group. Its layout redirects customers without access to the paywall.
+        </ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.card}>
+        <ThemedText type="defaultSemiBold">Add your own premium screens</ThemedText>
+        <ThemedText>
+          Create new files in <ThemedText type="defaultSemiBold">app/(premium)/</ThemedText> and
+          they are protected automatically.
+        </ThemedText>
+      </ThemedView>
+    </ParallaxScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerImageContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontSize: 96,
+    lineHeight: 120,
+  },
+  titleContainer: {
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: 'rgba(52, 199, 89, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(52, 199, 89, 0.3)',
+    gap: 4,
+  },
+});
@@ -7,7 +7,9 @@
  *
  * FEATURES:
  * - Real-time subscription status display
- * - Premium vs free user content
+ * - Offline indicator when showing cached subscription status
+ * - Premium vs free user content (via PremiumGate)
+ * - Link to a guarded premium-only route
  * - Quick access to paywall
  * - Configuration status indicators
  */
@@ -16,23 +18,29 @@ import { Platform, StyleSheet, TouchableOpacity } from "react-native";
 import { router } from "expo-router";
 import { Image } from "expo-image";
 
+import { DemoModeBadge } from "@/components/DemoModeBadge";
 import { HelloWave } from "@/components/HelloWave";
+import { PremiumGate } from "@/components/PremiumGate";
 import ParallaxScrollView from "@/components/ParallaxScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
-import { usePurchases } from "@/hooks/usePurchases";
+import { usePurchases, useTier } from "@/hooks/usePurchases";
 
 export default function HomeScreen() {
   const {
-    isPremium,
     isLoading,
     isConfigured,
+    isDemoMode,
+    isStale,
+    lastSyncedAt,
     customerInfo,
     currentOffering,
     getActiveEntitlements,
     getErrorMessage,
   } = usePurchases();
 
+  const { tierName } = useTier();
+
   // Get active entitlements for display
   const activeEntitlements = getActiveEntitlements();
   const errorMessage = getErrorMessage();
@@ -54,7 +62,37 @@ export default function HomeScreen() {
 
       {/* Subscription Status Section */}
       <ThemedView style={styles.statusContainer}>
-        <ThemedText type="subtitle">Subscription Status</ThemedText>
+        <ThemedView style={styles.statusHeader}>
+          <ThemedText type="subtitle">Subscription Status</ThemedText>
+          <DemoModeBadge />
+        </ThemedView>
+
+        {isStale && !isLoading && (
+          <ThemedView style={[styles.statusCard, styles.offlineCard]}>
+            <ThemedText type="defaultSemiBold">📡 Offline</ThemedText>
+            <ThemedText style={styles.offlineText}>
+              Showing your last known subscription status
+              {lastSyncedAt
+                ? ` from ${new Date(lastSyncedAt).toLocaleString()}`
+                : ""}
+              . It will update when RevenueCat is reachable again.
+            </ThemedText>
+          </ThemedView>
+        )}
+
+        {isDemoMode && !isLoading && (
+          <ThemedView style={[styles.statusCard, styles.demoCard]}>
+            <ThemedText type="defaultSemiBold">🎮 Demo Mode</ThemedText>
+            <ThemedText style={styles.demoText}>
+              Purchases and restores are simulated with a sample catalog. Add
+              your API keys in{" "}
+              <ThemedText type="defaultSemiBold">
+                constants/RevenueCat.ts
+              </ThemedText>{" "}
+              to connect to RevenueCat.
+            </ThemedText>
+          </ThemedView>
+        )}
 
         {isLoading ? (
           <ThemedView style={styles.statusCard}>
@@ -80,39 +118,64 @@ export default function HomeScreen() {
             <ThemedText type="defaultSemiBold">❌ Error</ThemedText>
             <ThemedText style={styles.errorText}>{errorMessage}</ThemedText>
           </ThemedView>
-        ) : isPremium ? (
-          <ThemedView style={[styles.statusCard, styles.premiumCard]}>
-            <ThemedText type="defaultSemiBold">✨ Premium Active</ThemedText>
-            <ThemedText>You have access to all premium features!</ThemedText>
-            {activeEntitlements.length > 0 && (
-              <ThemedView style={styles.entitlementsContainer}>
-                <ThemedText style={styles.entitlementsTitle}>
-                  Active Entitlements:
-                </ThemedText>
-                {activeEntitlements.map((entitlement, index) => (
-                  <ThemedText key={index} style={styles.entitlementItem}>
-                    • {entitlement}
+        ) : (
+          <PremiumGate
+            fallback={
+              <ThemedView style={[styles.statusCard, styles.freeCard]}>
+                <ThemedText type="defaultSemiBold">🆓 Free User</ThemedText>
+                <ThemedText>Upgrade to unlock premium features</ThemedText>
+
+                {currentOffering && (
+                  <TouchableOpacity
+                    style={styles.upgradeButton}
+                    onPress={() =>
+                      router.push({ pathname: "/paywall", params: { placement: "home" } })
+                    }
+                  >
+                    <ThemedText style={styles.upgradeButtonText}>
+                      🚀 View Premium Options
+                    </ThemedText>
+                  </TouchableOpacity>
+                )}
+
+                {/* Locked route: redirects to the paywall, then back here after purchase */}
+                <TouchableOpacity
+                  style={styles.upgradeButton}
+                  onPress={() => router.push("/premium-features")}
+                >
+                  <ThemedText style={styles.upgradeButtonText}>
+                    🔒 Open Premium Features
                   </ThemedText>
-                ))}
+                </TouchableOpacity>
               </ThemedView>
-            )}
-          </ThemedView>
-        ) : (
-          <ThemedView style={[styles.statusCard, styles.freeCard]}>
-            <ThemedText type="defaultSemiBold">🆓 Free User</ThemedText>
-            <ThemedText>Upgrade to unlock premium features</ThemedText>
+            }
+          >
+            <ThemedView style={[styles.statusCard, styles.premiumCard]}>
+              <ThemedText type="defaultSemiBold">✨ {tierName} Active</ThemedText>
+              <ThemedText>You have access to all premium features!</ThemedText>
+              {activeEntitlements.length > 0 && (
+                <ThemedView style={styles.entitlementsContainer}>
+                  <ThemedText style={styles.entitlementsTitle}>
+                    Active Entitlements:
+                  </ThemedText>
+                  {activeEntitlements.map((entitlement, index) => (
+                    <ThemedText key={index} style={styles.entitlementItem}>
+                      • {entitlement}
+                    </ThemedText>
+                  ))}
+                </ThemedView>
+              )}
 
-            {currentOffering && (
               <TouchableOpacity
-                style={styles.upgradeButton}
-                onPress={() => router.push("/paywall")}
+                style={[styles.upgradeButton, styles.premiumButton]}
+                onPress={() => router.push("/premium-features")}
               >
-                <ThemedText style={styles.upgradeButtonText}>
-                  🚀 View Premium Options
+                <ThemedText style={[styles.upgradeButtonText, styles.premiumButtonText]}>
+                  ✨ Open Premium Features
                 </ThemedText>
               </TouchableOpacity>
-            )}
-          </ThemedView>
+            </ThemedView>
+          </PremiumGate>
         )}
       </ThemedView>
 
@@ -228,6 +291,11 @@ const styles = StyleSheet.create({
   statusContainer: {
     marginBottom: 20,
   },
+  statusHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
   statusCard: {
     backgroundColor: "rgba(128, 128, 128, 0.1)",
     borderRadius: 12,
@@ -244,10 +312,27 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(0, 122, 255, 0.1)",
     borderColor: "rgba(0, 122, 255, 0.3)",
   },
+  offlineCard: {
+    backgroundColor: "rgba(142, 142, 147, 0.1)",
+    borderColor: "rgba(142, 142, 147, 0.3)",
+  },
+  offlineText: {
+    marginTop: 4,
+    fontSize: 14,
+    opacity: 0.8,
+  },
   errorCard: {
     backgroundColor: "rgba(255, 59, 48, 0.1)",
     borderColor: "rgba(255, 59, 48, 0.3)",
   },
+  demoCard: {
+    backgroundColor: "rgba(255, 149, 0, 0.1)",
+    borderColor: "rgba(255, 149, 0, 0.3)",
+  },
+  demoText: {
+    marginTop: 4,
+    fontSize: 14,
+  },
   errorText: {
     marginTop: 4,
     fontSize: 14,
@@ -285,6 +370,12 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#007AFF",
   },
+  premiumButton: {
+    backgroundColor: "rgba(52, 199, 89, 0.2)",
+  },
+  premiumButtonText: {
+    color: "#34C759",
+  },
   webNote: {
     marginTop: 8,
     fontSize: 12,
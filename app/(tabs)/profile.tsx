@@ -7,13 +7,19 @@
  * 
  * FEATURES:
  * - Customer information display
- * - Active subscriptions and entitlements
+ * - Configuration report: each check with its severity (error, warning, info)
+ * - Environment switcher (test store, sandbox, production) in debug builds
+ * - Subscription details: renewal or expiration, trials, billing issues, store, Family Sharing
  * - Purchase restoration functionality
- * - Debug information for development
- * - User identification management (optional)
+ * - Debug information for development, with a filterable timeline of SDK calls
+ * - User identification management (login / logout)
+ * - Paywall experiment assignments
+ * - Subscriber attributes (email, display name, custom keys) with sync status
+ * - Credits balance and history from consumable credit packs
+ * - Plan changes (upgrade, downgrade, crossgrade) for subscribers
  */
 
-import { Platform, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { Platform, StyleSheet, TouchableOpacity, ScrollView, Alert, TextInput } from 'react-native';
 import { router } from 'expo-router';
 import { useState } from 'react';
 
@@ -22,27 +28,75 @@ import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { Collapsible } from '@/components/Collapsible';
+import { DemoModeBadge } from '@/components/DemoModeBadge';
+import { SubscriptionDetailsCard } from '@/components/SubscriptionDetailsCard';
+import { CreditsCard } from '@/components/CreditsCard';
+import { SdkCallTimeline } from '@/components/SdkCallTimeline';
 import { usePurchases } from '@/hooks/usePurchases';
-import { REVENUECAT_CONFIG } from '@/constants/RevenueCat';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { CUSTOM_ATTRIBUTE_KEYS, ConfigSeverity, ENTITLEMENT_TIERS, ENVIRONMENT_PROFILES, EXIT_SURVEY_CONFIG, EXPERIMENTS, EnvironmentProfile, REVENUECAT_CONFIG } from '@/constants/RevenueCat';
+import { getTierName } from '@/lib/tiers';
+import { DEMO_DISCOUNT_ID } from '@/lib/demoCatalog';
+import { DISPLAY_NAME_ATTRIBUTE, EMAIL_ATTRIBUTE, SubscriberAttributeKey } from '@/lib/subscriberAttributes';
+
+// Attributes editable on this screen, in display order
+const EDITABLE_ATTRIBUTES: { key: SubscriberAttributeKey; label: string }[] = [
+  { key: EMAIL_ATTRIBUTE, label: 'Email' },
+  { key: DISPLAY_NAME_ATTRIBUTE, label: 'Display Name' },
+  ...CUSTOM_ATTRIBUTE_KEYS.map((key) => ({ key, label: key })),
+];
+
+// Shown next to failed configuration checks
+const SEVERITY_ICONS: Record<ConfigSeverity, string> = {
+  error: '❌',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
 
 export default function ProfileScreen() {
   const {
     isPremium,
+    currentTier,
     isLoading,
     customerInfo,
     offerings,
     currentOffering,
     restorePurchases,
     isRestoring,
+    offerCodeRedemptionMethod,
+    openOfferCodeRedemption,
+    subscriptionManagementMethod,
+    openSubscriptionManagement,
     refreshCustomerInfo,
-    getActiveEntitlements,
     isConfigured,
+    isDemoMode,
+    configReport,
+    environment,
+    switchEnvironment,
+    appUserID,
+    isAnonymous,
+    logIn,
+    logOut,
+    isIdentifying,
+    experimentAssignments,
+    sdkCallLog,
+    subscriberAttributes,
+    setAttributes,
+    setEmail,
+    setDisplayName,
+    flushAttributes,
   } = usePurchases();
   
   const [showRawData, setShowRawData] = useState(false);
+  const [userIdInput, setUserIdInput] = useState('');
+  // Edited attribute values that haven't been saved yet
+  const [attributeDrafts, setAttributeDrafts] = useState<Partial<Record<SubscriberAttributeKey, string>>>({});
+  const [isSavingAttributes, setIsSavingAttributes] = useState(false);
+  const [isSwitchingEnvironment, setIsSwitchingEnvironment] = useState(false);
+  const textColor = useThemeColor({}, 'text');
   
-  // Get active entitlements
-  const activeEntitlements = getActiveEntitlements();
+  // Whether there's a subscription to manage
+  const hasActiveSubscription = (customerInfo?.activeSubscriptions.length ?? 0) > 0;
   
   // Handle restore purchases
   const handleRestorePurchases = async () => {
@@ -77,6 +131,103 @@ export default function ProfileScreen() {
     }
   };
   
+  // Handle manage subscription: the exit survey screen, or the management page right away
+  const handleManageSubscription = async () => {
+    if (EXIT_SURVEY_CONFIG.ENABLED) {
+      router.push('/manage-subscription');
+      return;
+    }
+    
+    try {
+      await openSubscriptionManagement();
+    } catch {
+      // Error is already handled in the hook with user-friendly messages
+      console.log('Opening subscription management failed (handled in hook)');
+    }
+  };
+  
+  // Handle login with the entered user ID
+  const handleLogIn = async () => {
+    try {
+      await logIn(userIdInput);
+      setUserIdInput('');
+    } catch {
+      // Error is already handled in the hook with user-friendly messages
+      console.log('Login failed (handled in hook)');
+    }
+  };
+  
+  // Handle logout
+  const handleLogOut = async () => {
+    try {
+      await logOut();
+    } catch {
+      // Error is already handled in the hook with user-friendly messages
+      console.log('Logout failed (handled in hook)');
+    }
+  };
+  
+  // Handle environment switch: cached data of the current environment is dropped, so confirm first
+  const handleSwitchEnvironment = (profile: EnvironmentProfile) => {
+    Alert.alert(
+      `Switch to ${profile.name}?`,
+      'Cached purchases data is cleared and RevenueCat is configured again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          style: 'destructive',
+          onPress: async () => {
+            setIsSwitchingEnvironment(true);
+            try {
+              await switchEnvironment(profile.id);
+            } finally {
+              setIsSwitchingEnvironment(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+  
+  // Handle saving edited subscriber attributes
+  const handleSaveAttributes = async () => {
+    const changedKeys = (Object.keys(attributeDrafts) as SubscriberAttributeKey[]).filter(
+      (key) => attributeDrafts[key] !== (subscriberAttributes?.values[key] ?? '')
+    );
+    if (changedKeys.length === 0) return;
+    
+    const customAttributes: Record<string, string> = {};
+    changedKeys.forEach((key) => {
+      const value = attributeDrafts[key] ?? '';
+      if (key === EMAIL_ATTRIBUTE) {
+        setEmail(value);
+      } else if (key === DISPLAY_NAME_ATTRIBUTE) {
+        setDisplayName(value);
+      } else {
+        customAttributes[key] = value;
+      }
+    });
+    if (Object.keys(customAttributes).length > 0) {
+      setAttributes(customAttributes);
+    }
+    setAttributeDrafts({});
+    
+    try {
+      setIsSavingAttributes(true);
+      await flushAttributes();
+      Alert.alert('Saved', 'Customer attributes sent to RevenueCat.', [{ text: 'OK', style: 'default' }]);
+    } catch {
+      Alert.alert(
+        'Saved on Device',
+        'The attributes could not be sent right now. They will be retried automatically.',
+        [{ text: 'OK', style: 'default' }]
+      );
+    } finally {
+      setIsSavingAttributes(false);
+    }
+  };
+  
   return (
     <ParallaxScrollView
       headerBackgroundColor={{ light: '#D0D0D0', dark: '#353636' }}
@@ -94,12 +245,25 @@ export default function ProfileScreen() {
       </ThemedView>
       
       {/* Configuration Status */}
-      <Collapsible title="🔧 Configuration Status" defaultOpen={!isConfigured}>
+      <Collapsible title="🔧 Configuration Status" defaultOpen={!isConfigured() || !configReport.isValid}>
         <ThemedView style={styles.statusContainer}>
           <ThemedText>
-            <ThemedText type="defaultSemiBold">API Keys: </ThemedText>
-            {isConfigured ? '✅ Configured' : '❌ Not configured'}
+            <ThemedText type="defaultSemiBold">Store Mode: </ThemedText>
+            {configReport.storeMode === 'test' ? '🧪 Test store' : '🏪 Production stores'}
+            {` (${environment.name})`}
+            {isDemoMode && ' (🎮 demo mode)'}
           </ThemedText>
+          {configReport.checks.map((check) => (
+            <ThemedView key={check.id} style={styles.configCheck}>
+              <ThemedText>
+                {check.passed ? '✅' : SEVERITY_ICONS[check.severity]}{' '}
+                <ThemedText type="defaultSemiBold">{check.label}</ThemedText>
+              </ThemedText>
+              <ThemedText style={[styles.configCheckMessage, !check.passed && check.severity === 'error' && styles.configCheckError]}>
+                {check.message}
+              </ThemedText>
+            </ThemedView>
+          ))}
           <ThemedText>
             <ThemedText type="defaultSemiBold">Offerings: </ThemedText>
             {currentOffering ? '✅ Available' : isLoading ? '⏳ Loading...' : '❌ No offerings found'}
@@ -113,13 +277,53 @@ export default function ProfileScreen() {
             {Platform.OS} {Platform.OS === 'web' && '(Web Billing supported)'}
           </ThemedText>
         </ThemedView>
-        {!isConfigured && (
+        {!isConfigured() && (
           <ThemedText style={styles.warningText}>
             ⚠️ Please configure your API keys in <ThemedText type="defaultSemiBold">constants/RevenueCat.ts</ThemedText>
           </ThemedText>
         )}
       </Collapsible>
       
+      {/* Environment (debug builds only) */}
+      {REVENUECAT_CONFIG.DEBUG_MODE && (
+        <ThemedView style={styles.card}>
+          <ThemedText type="subtitle">🌐 Environment</ThemedText>
+          <ThemedText style={styles.helpText}>
+            Switch RevenueCat setups without reinstalling. Profiles are configured in ENVIRONMENT_PROFILES.
+          </ThemedText>
+          
+          {ENVIRONMENT_PROFILES.map((profile) => {
+            const isCurrent = profile.id === environment.id;
+            // Overrides of the settings in REVENUECAT_CONFIG
+            const overrides = [
+              Object.values(profile.apiKeys ?? {}).some(Boolean) && 'own API keys',
+              profile.entitlementId && `entitlement "${profile.entitlementId}"`,
+              profile.offeringId && `offering "${profile.offeringId}"`,
+            ].filter(Boolean);
+            
+            return (
+              <TouchableOpacity
+                key={profile.id}
+                style={[
+                  styles.actionButton,
+                  isCurrent && styles.primaryButton,
+                  isSwitchingEnvironment && styles.disabledButton,
+                ]}
+                onPress={() => handleSwitchEnvironment(profile)}
+                disabled={isCurrent || isSwitchingEnvironment}
+              >
+                <ThemedText style={[styles.actionButtonText, isCurrent && styles.primaryButtonText]}>
+                  {isCurrent ? '✅ ' : ''}{profile.name} · {profile.useTestStore ? 'Test store' : 'Production stores'}
+                </ThemedText>
+                {overrides.length > 0 && (
+                  <ThemedText style={styles.environmentOverrides}>{overrides.join(', ')}</ThemedText>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </ThemedView>
+      )}
+      
       {!isConfigured && (
         <ThemedView style={[styles.card, styles.warningCard]}>
           <ThemedText type="defaultSemiBold">⚠️ Configuration Required</ThemedText>
@@ -132,7 +336,10 @@ export default function ProfileScreen() {
       
       {/* Subscription Status */}
       <ThemedView style={styles.card}>
-        <ThemedText type="subtitle">Subscription Status</ThemedText>
+        <ThemedView style={styles.cardHeader}>
+          <ThemedText type="subtitle">Subscription Status</ThemedText>
+          <DemoModeBadge />
+        </ThemedView>
         
         <ThemedView style={styles.statusRow}>
           <ThemedText style={styles.label}>Status:</ThemedText>
@@ -141,6 +348,13 @@ export default function ProfileScreen() {
           </ThemedText>
         </ThemedView>
         
+        <ThemedView style={styles.statusRow}>
+          <ThemedText style={styles.label}>Tier:</ThemedText>
+          <ThemedText style={[styles.value, isPremium && styles.premiumValue]}>
+            {getTierName(currentTier)}
+          </ThemedText>
+        </ThemedView>
+        
         <ThemedView style={styles.statusRow}>
           <ThemedText style={styles.label}>Platform:</ThemedText>
           <ThemedText style={styles.value}>
@@ -149,43 +363,139 @@ export default function ProfileScreen() {
           </ThemedText>
         </ThemedView>
         
-        {customerInfo?.originalAppUserId && (
+        {appUserID && (
           <ThemedView style={styles.statusRow}>
             <ThemedText style={styles.label}>User ID:</ThemedText>
-            <ThemedText style={styles.value}>
-              {customerInfo.originalAppUserId}
+            <ThemedText style={styles.value} numberOfLines={1}>
+              {appUserID}
             </ThemedText>
           </ThemedView>
         )}
+        
+        <ThemedView style={styles.statusRow}>
+          <ThemedText style={styles.label}>Identity:</ThemedText>
+          <ThemedText style={styles.value}>
+            {isAnonymous ? '👻 Anonymous' : '👤 Logged in'}
+          </ThemedText>
+        </ThemedView>
       </ThemedView>
       
-      {/* Active Entitlements */}
-      {activeEntitlements.length > 0 && (
+      {/* Account (User Identification) */}
+      {REVENUECAT_CONFIG.USE_USER_IDENTIFICATION && (
         <ThemedView style={styles.card}>
-          <ThemedText type="subtitle">Active Entitlements</ThemedText>
-          {activeEntitlements.map((entitlement, index) => (
-            <ThemedView key={index} style={styles.entitlementItem}>
-              <ThemedText style={styles.entitlementName}>• {entitlement}</ThemedText>
-              {customerInfo?.entitlements?.active?.[entitlement] && (
-                <ThemedText style={styles.entitlementDetails}>
-                  Expires: {
-                    customerInfo.entitlements.active[entitlement].expirationDate 
-                      ? new Date(customerInfo.entitlements.active[entitlement].expirationDate!).toLocaleDateString()
-                      : 'Never'
-                  }
+          <ThemedText type="subtitle">Account</ThemedText>
+          
+          {isAnonymous ? (
+            <>
+              <ThemedText style={styles.helpText}>
+                Log in with your own user ID to keep subscriptions in sync across devices.
+              </ThemedText>
+              <TextInput
+                style={[styles.textInput, { color: textColor }]}
+                value={userIdInput}
+                onChangeText={setUserIdInput}
+                placeholder="Your user ID"
+                placeholderTextColor="#808080"
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isIdentifying}
+                onSubmitEditing={handleLogIn}
+              />
+              <TouchableOpacity
+                style={[styles.actionButton, styles.primaryButton, isIdentifying && styles.disabledButton]}
+                onPress={handleLogIn}
+                disabled={isIdentifying}
+              >
+                <ThemedText style={[styles.actionButtonText, styles.primaryButtonText]}>
+                  {isIdentifying ? '⏳ Logging in...' : '👤 Log In'}
                 </ThemedText>
-              )}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <ThemedText style={styles.helpText}>
+                Logged in as <ThemedText type="defaultSemiBold">{appUserID}</ThemedText>
+              </ThemedText>
+              <TouchableOpacity
+                style={[styles.actionButton, isIdentifying && styles.disabledButton]}
+                onPress={handleLogOut}
+                disabled={isIdentifying}
+              >
+                <ThemedText style={styles.actionButtonText}>
+                  {isIdentifying ? '⏳ Logging out...' : '🚪 Log Out'}
+                </ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </ThemedView>
+      )}
+      
+      {/* Customer Attributes */}
+      {subscriberAttributes && (
+        <ThemedView style={styles.card}>
+          <ThemedText type="subtitle">Customer Attributes</ThemedText>
+          <ThemedText style={styles.helpText}>
+            Attributes appear on the customer page in the RevenueCat dashboard. Leave a field empty to remove it.
+          </ThemedText>
+          
+          {EDITABLE_ATTRIBUTES.map(({ key, label }) => (
+            <ThemedView key={key}>
+              <ThemedView style={styles.debugRow}>
+                <ThemedText style={styles.label}>{label}</ThemedText>
+                <ThemedText style={styles.label}>
+                  {subscriberAttributes.pendingKeys.includes(key)
+                    ? '⏳ Pending'
+                    : subscriberAttributes.values[key] != null ? '✅ Synced' : ''}
+                </ThemedText>
+              </ThemedView>
+              <TextInput
+                style={[styles.textInput, { color: textColor }]}
+                value={attributeDrafts[key] ?? subscriberAttributes.values[key] ?? ''}
+                onChangeText={(value) => setAttributeDrafts((drafts) => ({ ...drafts, [key]: value }))}
+                placeholder="Not set"
+                placeholderTextColor="#808080"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType={key === EMAIL_ATTRIBUTE ? 'email-address' : 'default'}
+                editable={!isSavingAttributes}
+              />
             </ThemedView>
           ))}
+          
+          <TouchableOpacity
+            style={[
+              styles.actionButton,
+              styles.primaryButton,
+              (isSavingAttributes || Object.keys(attributeDrafts).length === 0) && styles.disabledButton,
+            ]}
+            onPress={handleSaveAttributes}
+            disabled={isSavingAttributes || Object.keys(attributeDrafts).length === 0}
+          >
+            <ThemedText style={[styles.actionButtonText, styles.primaryButtonText]}>
+              {isSavingAttributes ? '⏳ Saving...' : '💾 Save Attributes'}
+            </ThemedText>
+          </TouchableOpacity>
+          
+          {subscriberAttributes.lastSyncedAt && (
+            <ThemedText style={styles.entitlementDetails}>
+              Last synced: {new Date(subscriberAttributes.lastSyncedAt).toLocaleString()}
+            </ThemedText>
+          )}
         </ThemedView>
       )}
       
+      {/* Subscription details: renewal, billing issues, store, sandbox, Family Sharing */}
+      <SubscriptionDetailsCard />
+      
+      {/* Credits from consumable credit packs */}
+      <CreditsCard />
+      
       {/* Actions */}
       <ThemedView style={styles.card}>
         <ThemedText type="subtitle">Actions</ThemedText>
         
-        {/* Restore Purchases - Mobile only */}
-        {Platform.OS !== 'web' && (
+        {/* Restore Purchases - Mobile only (simulated everywhere in demo mode) */}
+        {(Platform.OS !== 'web' || isDemoMode) && (
           <TouchableOpacity
             style={[styles.actionButton, isRestoring && styles.disabledButton]}
             onPress={handleRestorePurchases}
@@ -197,6 +507,42 @@ export default function ProfileScreen() {
           </TouchableOpacity>
         )}
         
+        {/* Redeem Offer Code - App Store sheet on iOS, code entry elsewhere */}
+        {offerCodeRedemptionMethod !== 'unsupported' && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={openOfferCodeRedemption}
+          >
+            <ThemedText style={styles.actionButtonText}>
+              🎟️ Redeem Offer Code
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+        
+        {/* Manage Subscription - exit survey first when EXIT_SURVEY_CONFIG.ENABLED */}
+        {hasActiveSubscription && subscriptionManagementMethod !== 'unavailable' && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleManageSubscription}
+          >
+            <ThemedText style={styles.actionButtonText}>
+              ⚙️ Manage Subscription
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+        
+        {/* Change Plan - replaces the current subscription */}
+        {hasActiveSubscription && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => router.push('/change-plan')}
+          >
+            <ThemedText style={styles.actionButtonText}>
+              🔁 Change Plan
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+        
         {/* Refresh Customer Info */}
         <TouchableOpacity
           style={styles.actionButton}
@@ -211,7 +557,7 @@ export default function ProfileScreen() {
         {currentOffering && !isPremium && (
           <TouchableOpacity
             style={[styles.actionButton, styles.primaryButton]}
-            onPress={() => router.push('/paywall')}
+            onPress={() => router.push({ pathname: '/paywall', params: { placement: 'settings' } })}
           >
             <ThemedText style={[styles.actionButtonText, styles.primaryButtonText]}>
               🚀 Upgrade to Premium
@@ -230,6 +576,18 @@ export default function ProfileScreen() {
             </ThemedText>
           </TouchableOpacity>
         )}
+        
+        {/* Promotional offer paywall (the demo catalog discounts monthly and annual) */}
+        {currentOffering && isDemoMode && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => router.push({ pathname: '/paywall', params: { discount: DEMO_DISCOUNT_ID } })}
+          >
+            <ThemedText style={styles.actionButtonText}>
+              🏷️ View Discounted Paywall
+            </ThemedText>
+          </TouchableOpacity>
+        )}
       </ThemedView>
       
       {/* Debug Information */}
@@ -260,6 +618,13 @@ export default function ProfileScreen() {
           </ThemedText>
         </ThemedView>
         
+        <ThemedView style={styles.debugRow}>
+          <ThemedText style={styles.label}>Demo Mode:</ThemedText>
+          <ThemedText style={styles.value}>
+            {isDemoMode ? '🎮 Yes' : 'No'}
+          </ThemedText>
+        </ThemedView>
+        
         <ThemedView style={styles.debugRow}>
           <ThemedText style={styles.label}>Current Offering:</ThemedText>
           <ThemedText style={styles.value}>
@@ -281,14 +646,39 @@ export default function ProfileScreen() {
           </ThemedText>
         </ThemedView>
         
+        {/* Experiment Assignments */}
+        <ThemedView style={styles.configSection}>
+          <ThemedText type="defaultSemiBold" style={styles.configTitle}>
+            Experiments
+          </ThemedText>
+          {EXPERIMENTS.map((experiment) => {
+            const assignment = experimentAssignments[experiment.id];
+            return (
+              <ThemedText key={experiment.id} style={styles.configText}>
+                {experiment.id}:{' '}
+                <ThemedText type="defaultSemiBold">
+                  {assignment
+                    ? `${assignment.variantId} (bucket ${(assignment.bucket * 100).toFixed(1)}%)`
+                    : experiment.enabled ? 'Not assigned' : 'Disabled'}
+                </ThemedText>
+              </ThemedText>
+            );
+          })}
+          {EXPERIMENTS.length === 0 && (
+            <ThemedText style={styles.configText}>No experiments configured</ThemedText>
+          )}
+        </ThemedView>
+        
         {/* Configuration Details */}
         <ThemedView style={styles.configSection}>
           <ThemedText type="defaultSemiBold" style={styles.configTitle}>
             Configuration
           </ThemedText>
-          <ThemedText style={styles.configText}>
-            Entitlement ID: <ThemedText type="defaultSemiBold">{REVENUECAT_CONFIG.ENTITLEMENT_ID}</ThemedText>
-          </ThemedText>
+          {ENTITLEMENT_TIERS.map((tier, index) => (
+            <ThemedText key={tier.id} style={styles.configText}>
+              Tier {index + 1} ({tier.name}): <ThemedText type="defaultSemiBold">{tier.entitlementIds.join(', ')}</ThemedText>
+            </ThemedText>
+          ))}
           <ThemedText style={styles.configText}>
             Debug Mode: <ThemedText type="defaultSemiBold">{REVENUECAT_CONFIG.DEBUG_MODE ? 'Enabled' : 'Disabled'}</ThemedText>
           </ThemedText>
@@ -296,6 +686,9 @@ export default function ProfileScreen() {
             User ID Auth: <ThemedText type="defaultSemiBold">{REVENUECAT_CONFIG.USE_USER_IDENTIFICATION ? 'Enabled' : 'Disabled'}</ThemedText>
           </ThemedText>
         </ThemedView>
+        
+        {/* SDK Call Timeline (SDK_CALL_LOG_CONFIG) */}
+        {sdkCallLog && <SdkCallTimeline log={sdkCallLog} style={styles.configSection} />}
       </ThemedView>
       
       {/* Raw Data Display */}
@@ -359,6 +752,18 @@ const styles = StyleSheet.create({
     gap: 4,
     marginBottom: 12,
   },
+  configCheck: {
+    marginBottom: 4,
+  },
+  configCheckMessage: {
+    fontSize: 13,
+    opacity: 0.8,
+    marginLeft: 24,
+  },
+  configCheckError: {
+    color: '#ff3b30',
+    opacity: 1,
+  },
   warningText: {
     color: '#ff6b35',
     fontStyle: 'italic',
@@ -380,6 +785,11 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontSize: 14,
   },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   statusRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -403,19 +813,21 @@ const styles = StyleSheet.create({
   premiumValue: {
     color: '#34C759',
   },
-  entitlementItem: {
-    marginBottom: 12,
-  },
-  entitlementName: {
-    fontSize: 16,
-    fontWeight: '600',
-  },
   entitlementDetails: {
     fontSize: 12,
     opacity: 0.7,
     marginTop: 2,
     marginLeft: 12,
   },
+  textInput: {
+    borderWidth: 1,
+    borderColor: 'rgba(128, 128, 128, 0.3)',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+    fontSize: 16,
+  },
   actionButton: {
     backgroundColor: 'rgba(0, 122, 255, 0.1)',
     borderRadius: 8,
@@ -440,6 +852,11 @@ const styles = StyleSheet.create({
   primaryButtonText: {
     color: '#007AFF',
   },
+  environmentOverrides: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 2,
+  },
   debugHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -51,6 +51,8 @@ export default function RootLayout() {
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
         <Stack>
           <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          {/* Premium-only screens - guarded in app/(premium)/_layout.tsx */}
+          <Stack.Screen name="(premium)" options={{ headerShown: false }} />
           {/* Paywall screen - modal presentation */}
           <Stack.Screen 
             name="paywall" 
@@ -59,6 +61,30 @@ export default function RootLayout() {
               presentation: 'modal' 
             }} 
           />
+          {/* Offer code entry - modal presentation, see lib/offerCodes.ts */}
+          <Stack.Screen 
+            name="redeem" 
+            options={{ 
+              headerShown: false,
+              presentation: 'modal' 
+            }} 
+          />
+          {/* Exit survey and subscription management - modal presentation */}
+          <Stack.Screen 
+            name="manage-subscription" 
+            options={{ 
+              headerShown: false,
+              presentation: 'modal' 
+            }} 
+          />
+          {/* Upgrade, downgrade or crossgrade - modal presentation */}
+          <Stack.Screen 
+            name="change-plan" 
+            options={{ 
+              headerShown: false,
+              presentation: 'modal' 
+            }} 
+          />
           <Stack.Screen name="+not-found" />
         </Stack>
         <StatusBar style="auto" />
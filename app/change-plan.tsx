@@ -0,0 +1,316 @@
+/**
+ * Change Plan Screen
+ *
+ * Lets a subscriber upgrade, downgrade or crossgrade to another plan of the
+ * current offering. The new plan replaces the current subscription instead of
+ * starting a second one (see lib/planChanges.ts).
+ *
+ * FEATURES:
+ * - Current plan with its renewal or end date
+ * - Each plan labeled as an upgrade, downgrade or switch, with the date it starts
+ * - Google Play proration mode from PLAN_CHANGE_CONFIG; App Store timing per its rules
+ * - Plans that can't replace the subscription say why
+ * - Localized copy with right-to-left layout for RTL locales
+ */
+
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { router } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { DemoModeBadge } from "@/components/DemoModeBadge";
+import { usePurchases } from "@/hooks/usePurchases";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { useTranslation } from "@/hooks/useTranslation";
+import { formatDate } from "@/lib/i18n";
+import { sortPackagesByPrice } from "@/lib/pricing";
+import { getActiveSubscriptionEntitlement } from "@/lib/planChanges";
+import { findEntitlementProduct } from "@/lib/subscriptionLifecycle";
+
+export default function ChangePlanScreen() {
+  const {
+    customerInfo,
+    offerings,
+    currentOffering,
+    getPlanChange,
+    changePlan,
+    isChangingPlan,
+    formatPackageTitle,
+    formatPackagePrice,
+  } = usePurchases();
+  const { t, languageTag, isRTL } = useTranslation();
+
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
+
+  const tintColor = useThemeColor({}, "tint");
+  const date = (value: Date) => formatDate(value, languageTag);
+
+  const directionStyle = { direction: isRTL ? "rtl" : "ltr" } as const;
+  const textDirectionStyle = {
+    writingDirection: isRTL ? "rtl" : "ltr",
+    textAlign: isRTL ? "right" : "left",
+  } as const;
+
+  const current = getActiveSubscriptionEntitlement(customerInfo);
+  const currentPlanName = current
+    ? findEntitlementProduct(current, offerings)?.title ?? current.productIdentifier
+    : null;
+
+  // Subscription plans only: lifetime purchases and credit packs can't replace a subscription
+  const plans = sortPackagesByPrice(
+    (currentOffering?.availablePackages ?? []).filter((pkg) => pkg.product.subscriptionPeriod)
+  );
+  const selectedPackage = plans.find((pkg) => pkg.product.identifier === selectedProductId);
+  const selectedChange = selectedPackage ? getPlanChange(selectedPackage) : null;
+
+  const handleChangePlan = async () => {
+    if (!selectedPackage || !selectedChange?.available || isChangingPlan) return;
+
+    try {
+      await changePlan(selectedPackage);
+      router.back();
+    } catch {
+      // Error is handled in the hook with user feedback
+    }
+  };
+
+  if (!current) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style="auto" />
+        <ThemedView style={[styles.container, directionStyle]}>
+          <ThemedText type="title" style={textDirectionStyle}>
+            {t("changePlan.title")}
+          </ThemedText>
+          <ThemedText style={[styles.message, textDirectionStyle]}>
+            {t("changePlan.unavailable.noSubscription")}
+          </ThemedText>
+          <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+            <ThemedText style={styles.closeButtonText}>{t("changePlan.close")}</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <StatusBar style="auto" />
+      <ScrollView contentContainerStyle={[styles.container, directionStyle]}>
+        <View style={styles.header}>
+          <ThemedText type="title" style={textDirectionStyle}>
+            {t("changePlan.title")}
+          </ThemedText>
+          <DemoModeBadge />
+        </View>
+
+        {/* Current plan */}
+        <ThemedView style={styles.currentPlanCard}>
+          <ThemedText style={[styles.caption, textDirectionStyle]}>
+            {t("changePlan.currentPlan")}
+          </ThemedText>
+          <ThemedText type="defaultSemiBold" style={textDirectionStyle}>
+            {currentPlanName}
+          </ThemedText>
+          {current.expirationDateMillis != null && (
+            <ThemedText style={[styles.caption, textDirectionStyle]}>
+              {t(current.willRenew ? "changePlan.renews" : "changePlan.ends", {
+                date: date(new Date(current.expirationDateMillis)),
+              })}
+            </ThemedText>
+          )}
+        </ThemedView>
+
+        <ThemedText type="subtitle" style={textDirectionStyle}>
+          {t("changePlan.choose")}
+        </ThemedText>
+
+        <View style={styles.plans}>
+          {plans.map((packageItem) => {
+            const planChange = getPlanChange(packageItem);
+            const isSelected = packageItem.product.identifier === selectedProductId;
+            const isCurrent = !planChange.available && planChange.reason === "samePlan";
+
+            return (
+              <TouchableOpacity
+                key={packageItem.product.identifier}
+                style={[
+                  styles.plan,
+                  isSelected && { borderColor: tintColor },
+                  !planChange.available && styles.disabledPlan,
+                ]}
+                onPress={() => setSelectedProductId(packageItem.product.identifier)}
+                disabled={!planChange.available || isChangingPlan}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected, disabled: !planChange.available }}
+              >
+                <View style={styles.planHeader}>
+                  <ThemedText type="defaultSemiBold" style={styles.planTitle}>
+                    {formatPackageTitle(packageItem)}
+                  </ThemedText>
+                  {(isCurrent || planChange.available) && (
+                    <View style={[styles.badge, { backgroundColor: tintColor }]}>
+                      <ThemedText style={styles.badgeText}>
+                        {planChange.available
+                          ? t(`changePlan.type.${planChange.type}`)
+                          : t("changePlan.currentPlan")}
+                      </ThemedText>
+                    </View>
+                  )}
+                </View>
+                <ThemedText style={[styles.planPrice, { color: tintColor }]}>
+                  {formatPackagePrice(packageItem)}
+                </ThemedText>
+                {planChange.available ? (
+                  <ThemedText style={[styles.caption, textDirectionStyle]}>
+                    {planChange.timing === "immediate"
+                      ? t("changePlan.effective.immediate")
+                      : t("changePlan.effective.nextRenewal", {
+                          date: date(planChange.effectiveDate),
+                        })}
+                  </ThemedText>
+                ) : (
+                  !isCurrent && (
+                    <ThemedText style={[styles.caption, textDirectionStyle]}>
+                      {t(`changePlan.unavailable.${planChange.reason}`)}
+                    </ThemedText>
+                  )
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {selectedPackage && selectedChange?.available && (
+          <ThemedText style={[styles.message, textDirectionStyle]}>
+            {selectedChange.timing === "immediate"
+              ? t("changePlan.summary.immediate", { plan: formatPackageTitle(selectedPackage) })
+              : t("changePlan.summary.nextRenewal", {
+                  plan: formatPackageTitle(selectedPackage),
+                  date: date(selectedChange.effectiveDate),
+                })}
+          </ThemedText>
+        )}
+
+        <TouchableOpacity
+          style={[
+            styles.primaryButton,
+            { backgroundColor: tintColor },
+            (!selectedChange?.available || isChangingPlan) && styles.disabledButton,
+          ]}
+          onPress={handleChangePlan}
+          disabled={!selectedChange?.available || isChangingPlan}
+        >
+          {isChangingPlan ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <ThemedText style={styles.primaryButtonText}>{t("changePlan.confirm")}</ThemedText>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <ThemedText style={styles.closeButtonText}>{t("changePlan.close")}</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flexGrow: 1,
+    padding: 24,
+    gap: 16,
+  },
+  header: {
+    gap: 8,
+    alignItems: "flex-start",
+  },
+  message: {
+    fontSize: 16,
+    lineHeight: 22,
+    opacity: 0.8,
+  },
+  caption: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  currentPlanCard: {
+    backgroundColor: "rgba(0, 122, 255, 0.1)",
+    borderColor: "rgba(0, 122, 255, 0.3)",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 4,
+  },
+  plans: {
+    gap: 10,
+  },
+  plan: {
+    borderWidth: 2,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+    borderRadius: 12,
+    padding: 16,
+    gap: 4,
+  },
+  disabledPlan: {
+    opacity: 0.6,
+  },
+  planHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  planTitle: {
+    flexShrink: 1,
+  },
+  planPrice: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  badge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  badgeText: {
+    color: "white",
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: "bold",
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  closeButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    opacity: 0.6,
+  },
+});
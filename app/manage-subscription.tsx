@@ -0,0 +1,393 @@
+/**
+ * Manage Subscription Screen
+ *
+ * Asks why the subscriber is leaving before sending them to the page where
+ * they cancel or change their subscription (see lib/subscriptionManagement.ts).
+ * Reasons are configured in EXIT_SURVEY_CONFIG (constants/RevenueCat.ts).
+ *
+ * FEATURES:
+ * - Optional exit survey; skipping it goes straight to subscription management
+ * - Reasons with a retention offer show it before the subscriber leaves, on the
+ *   paywall with the "retention" placement
+ * - Refreshes customer info when the subscriber returns from the store
+ * - Demo mode turns off auto-renew in place of the store's page
+ * - Localized copy with right-to-left layout for RTL locales
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  AppState,
+} from "react-native";
+import { router } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { DemoModeBadge } from "@/components/DemoModeBadge";
+import { usePurchases } from "@/hooks/usePurchases";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { useTranslation } from "@/hooks/useTranslation";
+import { EXIT_SURVEY_CONFIG } from "@/constants/RevenueCat";
+import { resolveVariantText } from "@/lib/experiments";
+import { getExitSurveyReason, getRetentionOffer } from "@/lib/subscriptionManagement";
+
+export default function ManageSubscriptionScreen() {
+  const {
+    subscriptionManagementMethod,
+    openSubscriptionManagement,
+    refreshCustomerInfo,
+    isOpeningManagement,
+    analytics,
+  } = usePurchases();
+  const { t, locale, isRTL } = useTranslation();
+
+  const [selectedReasonId, setSelectedReasonId] = useState<string | null>(null);
+  const [showRetentionOffer, setShowRetentionOffer] = useState(false);
+  const [openedStore, setOpenedStore] = useState(false);
+
+  const selectedReason = getExitSurveyReason(selectedReasonId);
+
+  // Pick up changes made on the store's page when the subscriber comes back
+  useEffect(() => {
+    if (!openedStore) return;
+
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        refreshCustomerInfo();
+      }
+    });
+
+    return () => subscription.remove();
+    // refreshCustomerInfo is recreated on every provider render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openedStore]);
+
+  const handleOpenManagement = async (reasonId: string | null) => {
+    if (isOpeningManagement) return;
+
+    try {
+      await openSubscriptionManagement(reasonId);
+      if (subscriptionManagementMethod === "simulated") {
+        router.back();
+      } else {
+        setOpenedStore(true);
+      }
+    } catch {
+      // Error is handled in the hook with user feedback
+    }
+  };
+
+  const handleContinue = () => {
+    if (!selectedReason) return;
+
+    const retentionOffered = getRetentionOffer(selectedReason) !== undefined;
+    analytics.track("exit_survey_answered", {
+      reasonId: selectedReason.id,
+      retentionOffered,
+    });
+
+    if (retentionOffered) {
+      setShowRetentionOffer(true);
+    } else {
+      handleOpenManagement(selectedReason.id);
+    }
+  };
+
+  const handleAcceptRetentionOffer = () => {
+    const retentionOffer = getRetentionOffer(selectedReason);
+    // Replace this screen so closing the paywall returns to where the flow started
+    router.replace({
+      pathname: "/paywall",
+      params: {
+        placement: "retention",
+        ...(retentionOffer?.offeringId && { offering: retentionOffer.offeringId }),
+        ...(retentionOffer?.discount && { discount: retentionOffer.discount }),
+      },
+    });
+  };
+
+  const tintColor = useThemeColor({}, "tint");
+  const showSurvey = EXIT_SURVEY_CONFIG.ENABLED && !showRetentionOffer && !openedStore;
+
+  const directionStyle = { direction: isRTL ? "rtl" : "ltr" } as const;
+  const textDirectionStyle = {
+    writingDirection: isRTL ? "rtl" : "ltr",
+    textAlign: isRTL ? "right" : "left",
+  } as const;
+
+  if (subscriptionManagementMethod === "unavailable") {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style="auto" />
+        <ThemedView style={[styles.container, directionStyle]}>
+          <ThemedText type="title" style={textDirectionStyle}>
+            {t("manage.title")}
+          </ThemedText>
+          <ThemedText style={[styles.message, textDirectionStyle]}>
+            {t("manage.unavailable")}
+          </ThemedText>
+          <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+            <ThemedText style={styles.closeButtonText}>{t("manage.close")}</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <StatusBar style="auto" />
+      <ScrollView contentContainerStyle={[styles.container, directionStyle]}>
+        <View style={styles.header}>
+          <ThemedText type="title" style={textDirectionStyle}>
+            {t("manage.title")}
+          </ThemedText>
+          <DemoModeBadge />
+        </View>
+
+        {showSurvey && (
+          <>
+            <ThemedText type="subtitle" style={textDirectionStyle}>
+              {t("manage.survey.title")}
+            </ThemedText>
+            <ThemedText style={[styles.message, textDirectionStyle]}>
+              {t("manage.survey.message")}
+            </ThemedText>
+
+            <View style={styles.reasons}>
+              {EXIT_SURVEY_CONFIG.REASONS.map((reason) => {
+                const isSelected = reason.id === selectedReasonId;
+                return (
+                  <TouchableOpacity
+                    key={reason.id}
+                    style={[
+                      styles.reason,
+                      isSelected && { borderColor: tintColor },
+                    ]}
+                    onPress={() => setSelectedReasonId(reason.id)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <View
+                      style={[
+                        styles.radio,
+                        isSelected && { borderColor: tintColor },
+                      ]}
+                    >
+                      {isSelected && (
+                        <View style={[styles.radioDot, { backgroundColor: tintColor }]} />
+                      )}
+                    </View>
+                    <ThemedText style={[styles.reasonLabel, textDirectionStyle]}>
+                      {resolveVariantText(reason.label, locale)}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                { backgroundColor: tintColor },
+                (!selectedReason || isOpeningManagement) && styles.disabledButton,
+              ]}
+              onPress={handleContinue}
+              disabled={!selectedReason || isOpeningManagement}
+            >
+              {isOpeningManagement ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>
+                  {t("manage.survey.continue")}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => handleOpenManagement(null)}
+              disabled={isOpeningManagement}
+            >
+              <ThemedText style={styles.secondaryButtonText}>
+                {t("manage.survey.skip")}
+              </ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {showRetentionOffer && !openedStore && (
+          <>
+            <ThemedView style={styles.offerCard}>
+              <ThemedText type="subtitle" style={textDirectionStyle}>
+                {t("manage.retention.title")}
+              </ThemedText>
+              <ThemedText style={[styles.message, textDirectionStyle]}>
+                {t("manage.retention.message")}
+              </ThemedText>
+            </ThemedView>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: tintColor }]}
+              onPress={handleAcceptRetentionOffer}
+            >
+              <ThemedText style={styles.primaryButtonText}>
+                {t("manage.retention.accept")}
+              </ThemedText>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => handleOpenManagement(selectedReasonId)}
+              disabled={isOpeningManagement}
+            >
+              {isOpeningManagement ? (
+                <ActivityIndicator size="small" color={tintColor} />
+              ) : (
+                <ThemedText style={styles.secondaryButtonText}>
+                  {t("manage.retention.decline")}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        {/* Survey turned off in EXIT_SURVEY_CONFIG */}
+        {!EXIT_SURVEY_CONFIG.ENABLED && !openedStore && (
+          <>
+            <ThemedText style={[styles.message, textDirectionStyle]}>
+              {t(`manage.method.${subscriptionManagementMethod}`)}
+            </ThemedText>
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                { backgroundColor: tintColor },
+                isOpeningManagement && styles.disabledButton,
+              ]}
+              onPress={() => handleOpenManagement(null)}
+              disabled={isOpeningManagement}
+            >
+              {isOpeningManagement ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>
+                  {t("manage.open")}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        {openedStore && (
+          <ThemedView style={styles.infoCard}>
+            <ThemedText style={textDirectionStyle}>{t("manage.openedStore")}</ThemedText>
+          </ThemedView>
+        )}
+
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <ThemedText style={styles.closeButtonText}>{t("manage.close")}</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flexGrow: 1,
+    padding: 24,
+    gap: 16,
+  },
+  header: {
+    gap: 8,
+    alignItems: "flex-start",
+  },
+  message: {
+    fontSize: 16,
+    lineHeight: 22,
+    opacity: 0.8,
+  },
+  reasons: {
+    gap: 10,
+  },
+  reason: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    borderWidth: 2,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+  },
+  radio: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: "rgba(128, 128, 128, 0.5)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  radioDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  reasonLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  offerCard: {
+    backgroundColor: "rgba(255, 149, 0, 0.1)",
+    borderColor: "rgba(255, 149, 0, 0.4)",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  secondaryButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  infoCard: {
+    backgroundColor: "rgba(0, 122, 255, 0.1)",
+    borderColor: "rgba(0, 122, 255, 0.3)",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+  },
+  closeButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    opacity: 0.6,
+  },
+});
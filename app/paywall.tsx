@@ -12,9 +12,18 @@
  * - Platform-specific purchase handling
  * - Loading states and error handling
  * - Graceful fallbacks for missing offerings
+ * - Returns to the originating premium route after purchase (?returnTo=/path)
+ * - Shows a specific offering (?offering=id) or a placement's offering (?placement=settings)
+ * - Localized copy with right-to-left layout for RTL locales
+ * - Copy, badges and colors from the offering's metadata (see lib/paywallConfig.ts)
+ * - A/B tested plan order, default plan, copy and layout (see lib/experiments.ts)
+ * - Tracks views, plan selection and dismissals (see lib/analytics.ts)
+ * - Promotional offer mode (?discount=id): discounted price next to the struck-through regular price
+ * - Offer code redemption entry point (see lib/offerCodes.ts)
+ * - Credit packs (consumables) with the current balance, bought without leaving (see lib/credits.ts)
  */
 
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   View,
   StyleSheet,
@@ -24,113 +33,251 @@ import {
   Alert,
   ActivityIndicator,
 } from "react-native";
-import { router } from "expo-router";
+import { router, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
 import { Image } from "expo-image";
+import { PurchasesPackage } from "react-native-purchases";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { DemoModeBadge } from "@/components/DemoModeBadge";
+import { isInAppPath } from "@/components/PremiumRouteGuard";
 import ParallaxScrollView from "@/components/ParallaxScrollView";
 import { usePaywall } from "@/hooks/usePurchases";
 import { useThemeColor } from "@/hooks/useThemeColor";
-import { PACKAGE_TYPES } from "@/constants/RevenueCat";
+import { useTranslation } from "@/hooks/useTranslation";
+import { PACKAGE_TYPES, REVENUECAT_CONFIG } from "@/constants/RevenueCat";
+import { getPackagePeriodInMonths } from "@/lib/pricing";
+import { getPackageEventProperties } from "@/lib/analytics";
 
 export default function PaywallScreen() {
+  // returnTo is set by PremiumRouteGuard when a locked route redirected here;
+  // offering and placement pick which offering to show (see lib/offerings.ts);
+  // discount is a promotional offer identifier to sell eligible plans at
+  const { returnTo, offering, placement, discount } = useLocalSearchParams<{
+    returnTo?: string;
+    offering?: string;
+    placement?: string;
+    discount?: string;
+  }>();
+
   const {
-    packages,
+    offering: shownOffering,
+    offeringSource,
     sortedPackages,
     hasPackages,
+    bestValuePackage,
     purchasePackage,
     isPurchasing,
     isLoading,
     hasError,
+    errorTitle,
     errorMessage,
     isConfigured,
+    isDemoMode,
     formatPackagePrice,
     formatPackageTitle,
+    formatDiscountTerms,
     getTrialInfo,
     getPurchaseButtonText,
-  } = usePaywall();
+    getSavingsPercent,
+    formatPricePerMonth,
+    paywallConfig,
+    paywallConfigErrors,
+    paywallLayout,
+    isLoadingDiscounts,
+    getPackageDiscount,
+    offerCodeRedemptionMethod,
+    openOfferCodeRedemption,
+    creditPackages,
+    creditBalance,
+    getPackageCredits,
+    analytics,
+  } = usePaywall({ offeringId: offering, placement, discount });
+
+  const { t, isRTL } = useTranslation();
+
+  // Track one view per offering shown, and a dismissal when the screen closes
+  // without a purchase (buttons, gestures and navigation alike)
+  const shownOfferingId = shownOffering?.identifier ?? null;
+  const hasPurchased = useRef(false);
+
+  useEffect(() => {
+    if (!shownOfferingId) return;
+
+    analytics.track("paywall_viewed", {
+      offeringId: shownOfferingId,
+      offeringSource,
+      placement: placement ?? null,
+      packageCount: sortedPackages.length,
+      discountIdentifier: discount ?? null,
+    });
+
+    return () => {
+      if (!hasPurchased.current) {
+        analytics.track("paywall_dismissed", {
+          offeringId: shownOfferingId,
+          placement: placement ?? null,
+        });
+      }
+    };
+    // Only a different offering counts as a new view
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [analytics, shownOfferingId]);
 
-  const [selectedPackageIndex, setSelectedPackageIndex] = useState(1); // Default to middle option
+  // Until the user picks a plan, select the highlighted package from the
+  // experiment variant or metadata, otherwise the middle option
+  const [pickedPackageIndex, setSelectedPackageIndex] = useState<number | null>(
+    null
+  );
+  const highlightedPackageIndex = sortedPackages.findIndex(
+    (pkg) => pkg.identifier === paywallConfig.highlightedPackage
+  );
+  const selectedPackageIndex =
+    pickedPackageIndex ??
+    (highlightedPackageIndex >= 0 ? highlightedPackageIndex : 1);
 
   // Handle purchase with loading state
   const handlePurchase = async () => {
-    if (!hasPackages || isPurchasing) return;
+    // Wait for promotional offers so an eligible customer isn't charged the regular price
+    if (!hasPackages || isPurchasing || isLoadingDiscounts) return;
 
     const selectedPackage = sortedPackages[selectedPackageIndex];
     if (!selectedPackage) return;
 
     try {
       await purchasePackage(selectedPackage);
+      hasPurchased.current = true;
       // Success is handled in the hook with user feedback
-      router.replace("/");
+      if (isInAppPath(returnTo)) {
+        router.replace(returnTo);
+      } else {
+        if (returnTo && __DEV__) {
+          console.warn(`⚠️ Ignoring returnTo "${returnTo}": not a path inside the app`);
+        }
+        router.replace("/");
+      }
     } catch (error) {
       // Error is handled in the hook with user feedback
       console.log("Purchase failed in paywall (handled in hook)");
     }
   };
 
-  // Get package type badge
-  const getPackageTypeBadge = (packageType: string) => {
-    switch (packageType) {
+  // Credit packs can be bought again and again, so the paywall stays open
+  const [buyingCreditPack, setBuyingCreditPack] = useState<string | null>(null);
+
+  const handleBuyCredits = async (packageItem: PurchasesPackage) => {
+    if (isPurchasing) return;
+
+    setBuyingCreditPack(packageItem.product.identifier);
+    try {
+      await purchasePackage(packageItem);
+      hasPurchased.current = true;
+    } catch {
+      // Error is handled in the hook with user feedback
+      console.log("Credit pack purchase failed in paywall (handled in hook)");
+    } finally {
+      setBuyingCreditPack(null);
+    }
+  };
+
+  const handleSelectPackage = (index: number) => {
+    setSelectedPackageIndex(index);
+    analytics.track(
+      "package_selected",
+      getPackageEventProperties(sortedPackages[index], placement ?? null)
+    );
+  };
+
+  // Get package badge
+  // The cheapest plan per month is the best value; other plans are labeled by their
+  // standard package identifier ($rc_monthly, ...), which lives on `identifier`
+  const getPackageBadge = (packageItem: PurchasesPackage) => {
+    // Badges from metadata win; an empty string hides the badge
+    const configuredBadge = paywallConfig.badges?.[packageItem.identifier];
+    if (configuredBadge !== undefined) {
+      return configuredBadge || null;
+    }
+
+    if (packageItem.identifier === bestValuePackage?.identifier) {
+      return t("paywall.badge.bestValue");
+    }
+
+    switch (packageItem.identifier) {
       case PACKAGE_TYPES.WEEKLY:
-        return "⚡ Try It";
+        return t("paywall.badge.weekly");
       case PACKAGE_TYPES.MONTHLY:
-        return "📱 Popular";
-      case PACKAGE_TYPES.ANNUAL:
-        return "🎯 Best Value";
+        return t("paywall.badge.monthly");
       case PACKAGE_TYPES.LIFETIME:
-        return "💎 Premium";
+        return t("paywall.badge.lifetime");
       default:
         return null;
     }
   };
 
-  // Calculate savings for annual plans
-  const calculateSavings = (packageItem: any, index: number) => {
-    if (
-      packageItem.packageType === PACKAGE_TYPES.ANNUAL &&
-      packages.length > 1
-    ) {
-      const monthlyPackage = packages.find(
-        (p) => p.packageType === PACKAGE_TYPES.MONTHLY
-      );
-      if (monthlyPackage) {
-        const annualPrice =
-          packageItem.storeProduct?.price || packageItem.product?.price || 0;
-        const monthlyPrice =
-          monthlyPackage.storeProduct?.price ||
-          monthlyPackage.product?.price ||
-          0;
-        if (annualPrice > 0 && monthlyPrice > 0) {
-          const monthlyCost = monthlyPrice * 12;
-          const savings = Math.round(
-            ((monthlyCost - annualPrice) / monthlyCost) * 100
-          );
-          if (savings > 0) {
-            return `Save ${savings}%`;
-          }
-        }
-      }
-    }
-    return null;
+  // Selected plan's button; discounted plans claim the offer
+  const getButtonText = (packageItem: PurchasesPackage) =>
+    getPackageDiscount(packageItem)
+      ? t("button.claimOffer")
+      : getPurchaseButtonText(packageItem);
+
+  // Savings compared to the reference plan (monthly when available)
+  const getSavingsLabel = (packageItem: PurchasesPackage) => {
+    const savings = getSavingsPercent(packageItem);
+    return savings ? t("paywall.savings", { percent: savings }) : null;
+  };
+
+  // Monthly equivalent for plans that aren't billed monthly
+  const getPerMonthLabel = (packageItem: PurchasesPackage) => {
+    const pricePerMonth = formatPricePerMonth(packageItem);
+    return pricePerMonth && getPackagePeriodInMonths(packageItem) !== 1
+      ? t("paywall.perMonth", { price: pricePerMonth })
+      : null;
   };
 
   // Get theme colors
   const backgroundColor = useThemeColor({}, "background");
-  const tintColor = useThemeColor({}, "tint");
+  const themeTintColor = useThemeColor({}, "tint");
   const textColor = useThemeColor({}, "text");
+  const tintColor = paywallConfig.colors?.accent ?? themeTintColor;
+  const headerBackground = paywallConfig.colors?.headerBackground;
+
+  // Built-in features, replaced by the metadata list when there is one
+  const features = paywallConfig.features ?? [
+    { icon: "🚀", text: t("paywall.features.advanced") },
+    { icon: "⭐", text: t("paywall.features.support") },
+    { icon: "🌍", text: t("paywall.features.platforms") },
+    { icon: "🔄", text: t("paywall.features.sync") },
+  ];
+
+  // Mirror the layout for right-to-left languages without forcing the whole app into RTL
+  const directionStyle = { direction: isRTL ? "rtl" : "ltr" } as const;
+  const textDirectionStyle = {
+    writingDirection: isRTL ? "rtl" : "ltr",
+    textAlign: isRTL ? "right" : "left",
+  } as const;
 
   return (
     <>
       <StatusBar style="auto" />
       <ParallaxScrollView
-        headerBackgroundColor={{ light: "#A1CEDC", dark: "#1D3D47" }}
+        headerBackgroundColor={{
+          light: headerBackground ?? "#A1CEDC",
+          dark: headerBackground ?? "#1D3D47",
+        }}
         headerImage={
           <View style={styles.headerImageContainer}>
-            <ThemedText style={styles.headerTitle}>✨ Premium</ThemedText>
+            {paywallConfig.hero?.imageUrl && (
+              <Image
+                source={{ uri: paywallConfig.hero.imageUrl }}
+                style={StyleSheet.absoluteFill}
+                contentFit="cover"
+              />
+            )}
+            <ThemedText style={styles.headerTitle}>
+              {paywallConfig.hero?.title ?? t("paywall.headerTitle")}
+            </ThemedText>
             <TouchableOpacity
               style={[
                 styles.closeButton,
@@ -147,270 +294,401 @@ export default function PaywallScreen() {
           </View>
         }
       >
-        <ThemedView style={styles.titleContainer}>
-          <ThemedText type="title">Upgrade to Premium</ThemedText>
-        </ThemedView>
-        {/* Loading State */}
-        {isLoading && (
-          <ThemedView style={styles.stepContainer}>
-            <ActivityIndicator size="large" color={tintColor} />
-            <ThemedText style={styles.loadingText}>
-              Loading premium options...
+        <View style={[styles.content, directionStyle]}>
+          <ThemedView style={styles.titleContainer}>
+            <ThemedText type="title" style={textDirectionStyle}>
+              {paywallConfig.title ?? t("paywall.title")}
             </ThemedText>
-          </ThemedView>
-        )}
-
-        {/* Error State */}
-        {hasError && !isLoading && (
-          <ThemedView style={[styles.statusCard, styles.errorCard]}>
-            <ThemedText type="defaultSemiBold" style={styles.errorTitle}>
-              ❌{" "}
-              {!isConfigured
-                ? "Configuration Required"
-                : "Something went wrong"}
-            </ThemedText>
-            <ThemedText style={styles.errorText}>
-              {!isConfigured
-                ? "Please configure your RevenueCat API keys in constants/RevenueCat.ts"
-                : errorMessage ||
-                  "There was an issue processing your request. Please try again later."}
-            </ThemedText>
-            <TouchableOpacity
-              style={[styles.retryButton, { backgroundColor: tintColor }]}
-              onPress={() => router.back()}
-            >
-              <ThemedText style={[styles.retryButtonText, { color: "white" }]}>
-                Go Back
+            {paywallConfig.subtitle && (
+              <ThemedText style={[styles.subtitle, textDirectionStyle]}>
+                {paywallConfig.subtitle}
               </ThemedText>
-            </TouchableOpacity>
+            )}
+            <DemoModeBadge style={styles.demoBadge} />
           </ThemedView>
-        )}
 
-        {/* No Packages Available */}
-        {!hasPackages && !isLoading && !hasError && (
-          <ThemedView style={[styles.statusCard, styles.warningCard]}>
-            <ThemedText type="defaultSemiBold" style={styles.warningTitle}>
-              ⚠️ No premium options available
-            </ThemedText>
-            <ThemedText style={styles.warningText}>
-              Please configure your products and offerings in the RevenueCat
-              dashboard.
-            </ThemedText>
-            <TouchableOpacity
-              style={[styles.retryButton, { backgroundColor: tintColor }]}
-              onPress={() => router.back()}
-            >
-              <ThemedText style={[styles.retryButtonText, { color: "white" }]}>
-                Go Back
+          {/* Paywall metadata problems (debug builds only) */}
+          {REVENUECAT_CONFIG.DEBUG_MODE && paywallConfigErrors.length > 0 && (
+            <ThemedView style={[styles.statusCard, styles.warningCard]}>
+              <ThemedText type="defaultSemiBold" style={styles.warningTitle}>
+                🛠️ Paywall metadata issues
               </ThemedText>
-            </TouchableOpacity>
-          </ThemedView>
-        )}
-
-        {/* Premium Features */}
-        {hasPackages && !isLoading && (
-          <>
+              {paywallConfigErrors.map((configError) => (
+                <ThemedText key={configError} style={styles.warningText}>
+                  • {configError}
+                </ThemedText>
+              ))}
+            </ThemedView>
+          )}
+          {/* Loading State */}
+          {isLoading && (
             <ThemedView style={styles.stepContainer}>
-              <ThemedText type="subtitle">Premium Features</ThemedText>
-
-              <View style={styles.featuresList}>
-                <View style={styles.feature}>
-                  <ThemedText style={styles.featureIcon}>🚀</ThemedText>
-                  <ThemedText>Advanced functionality and tools</ThemedText>
-                </View>
-
-                <View style={styles.feature}>
-                  <ThemedText style={styles.featureIcon}>⭐</ThemedText>
-                  <ThemedText>Priority support and updates</ThemedText>
-                </View>
-
-                <View style={styles.feature}>
-                  <ThemedText style={styles.featureIcon}>🌍</ThemedText>
-                  <ThemedText>Works across all platforms</ThemedText>
-                </View>
-
-                <View style={styles.feature}>
-                  <ThemedText style={styles.featureIcon}>🔄</ThemedText>
-                  <ThemedText>Sync across all your devices</ThemedText>
-                </View>
-              </View>
+              <ActivityIndicator size="large" color={tintColor} />
+              <ThemedText style={styles.loadingText}>
+                {t("paywall.loading")}
+              </ThemedText>
             </ThemedView>
+          )}
 
-            {/* Package Selection */}
-            <ThemedView style={styles.stepContainer}>
-              <ThemedText type="subtitle">Choose Your Plan</ThemedText>
+          {/* Error State */}
+          {hasError && !isLoading && (
+            <ThemedView style={[styles.statusCard, styles.errorCard]}>
+              <ThemedText type="defaultSemiBold" style={styles.errorTitle}>
+                ❌{" "}
+                {!isConfigured
+                  ? t("paywall.error.configTitle")
+                  : errorTitle || t("paywall.error.title")}
+              </ThemedText>
+              <ThemedText style={[styles.errorText, textDirectionStyle]}>
+                {!isConfigured
+                  ? t("paywall.error.configMessage")
+                  : errorMessage || t("paywall.error.fallbackMessage")}
+              </ThemedText>
+              <TouchableOpacity
+                style={[styles.retryButton, { backgroundColor: tintColor }]}
+                onPress={() => router.back()}
+              >
+                <ThemedText style={[styles.retryButtonText, { color: "white" }]}>
+                  {t("paywall.goBack")}
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          )}
 
-              {sortedPackages.map((packageItem, index) => {
-                const isSelected = index === selectedPackageIndex;
-                const badge = getPackageTypeBadge(
-                  packageItem.packageType || ""
-                );
-                const savings = calculateSavings(packageItem, index);
-                const trialInfo = getTrialInfo(packageItem);
+          {/* No Packages Available */}
+          {!hasPackages && creditPackages.length === 0 && !isLoading && !hasError && (
+            <ThemedView style={[styles.statusCard, styles.warningCard]}>
+              <ThemedText type="defaultSemiBold" style={styles.warningTitle}>
+                {t("paywall.noPackages.title")}
+              </ThemedText>
+              <ThemedText style={[styles.warningText, textDirectionStyle]}>
+                {t("paywall.noPackages.message")}
+              </ThemedText>
+              <TouchableOpacity
+                style={[styles.retryButton, { backgroundColor: tintColor }]}
+                onPress={() => router.back()}
+              >
+                <ThemedText style={[styles.retryButtonText, { color: "white" }]}>
+                  {t("paywall.goBack")}
+                </ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          )}
 
-                return (
-                  <TouchableOpacity
-                    key={packageItem.identifier || `package-${index}`}
-                    style={[
-                      styles.packageOption,
-                      isSelected && [
-                        styles.selectedPackage,
-                        { borderColor: tintColor },
-                      ],
-                    ]}
-                    onPress={() => setSelectedPackageIndex(index)}
-                    disabled={isPurchasing}
-                  >
-                    {/* Badge */}
-                    {(badge || savings || trialInfo) && (
-                      <View style={styles.badgeContainer}>
-                        {trialInfo && (
-                          <View style={[styles.badge, styles.trialBadge]}>
-                            <ThemedText style={styles.badgeText}>
-                              🆓 {trialInfo}
-                            </ThemedText>
-                          </View>
-                        )}
-                        {badge && (
-                          <View
-                            style={[
-                              styles.badge,
-                              { backgroundColor: tintColor },
-                            ]}
-                          >
-                            <ThemedText style={styles.badgeText}>
-                              {badge}
-                            </ThemedText>
-                          </View>
-                        )}
-                        {savings && (
-                          <View style={[styles.badge, styles.savingsBadge]}>
-                            <ThemedText style={styles.badgeText}>
-                              {savings}
-                            </ThemedText>
-                          </View>
-                        )}
-                      </View>
-                    )}
+          {/* Premium Features */}
+          {hasPackages && !isLoading && (
+            <>
+              {paywallLayout === "full" && (
+                <ThemedView style={styles.stepContainer}>
+                  <ThemedText type="subtitle" style={textDirectionStyle}>
+                    {t("paywall.features.title")}
+                  </ThemedText>
 
-                    <View style={styles.packageContent}>
-                      <View style={styles.packageHeader}>
-                        <ThemedText type="defaultSemiBold">
-                          {formatPackageTitle(packageItem)}
+                  <View style={styles.featuresList}>
+                    {features.map((feature, index) => (
+                      <View key={`${index}-${feature.text}`} style={styles.feature}>
+                        <ThemedText style={styles.featureIcon}>
+                          {feature.icon}
                         </ThemedText>
-                        <ThemedText
-                          style={[styles.packagePrice, { color: tintColor }]}
-                        >
-                          {formatPackagePrice(packageItem)}
+                        <ThemedText style={textDirectionStyle}>
+                          {feature.text}
                         </ThemedText>
                       </View>
+                    ))}
+                  </View>
+                </ThemedView>
+              )}
 
-                      <ThemedText style={styles.packageDescription}>
-                        {packageItem.packageType === PACKAGE_TYPES.WEEKLY &&
-                          "Perfect for trying premium features"}
-                        {packageItem.packageType === PACKAGE_TYPES.MONTHLY &&
-                          "Great for regular users"}
-                        {packageItem.packageType === PACKAGE_TYPES.ANNUAL &&
-                          "Best value for committed users"}
-                        {packageItem.packageType === PACKAGE_TYPES.LIFETIME &&
-                          "One-time purchase, lifetime access"}
-                        {!Object.values(PACKAGE_TYPES).includes(
-                          packageItem.packageType as any
-                        ) && "Premium subscription access"}
-                      </ThemedText>
-                    </View>
+              {/* Package Selection */}
+              <ThemedView style={styles.stepContainer}>
+                <ThemedText type="subtitle" style={textDirectionStyle}>
+                  {t("paywall.choosePlan")}
+                </ThemedText>
 
-                    {/* Selection Indicator */}
-                    <View
+                {sortedPackages.map((packageItem, index) => {
+                  const isSelected = index === selectedPackageIndex;
+                  // A promotional offer replaces the intro offer, and the
+                  // savings and monthly price describe the regular price
+                  const packageDiscount = getPackageDiscount(packageItem);
+                  const badge = packageDiscount
+                    ? t("paywall.badge.specialOffer")
+                    : getPackageBadge(packageItem);
+                  const savings = packageDiscount ? null : getSavingsLabel(packageItem);
+                  const perMonth = packageDiscount ? null : getPerMonthLabel(packageItem);
+                  const trialInfo = packageDiscount ? null : getTrialInfo(packageItem);
+
+                  return (
+                    <TouchableOpacity
+                      key={packageItem.identifier || `package-${index}`}
                       style={[
-                        styles.selectionIndicator,
+                        styles.packageOption,
                         isSelected && [
-                          styles.selectedIndicator,
-                          {
-                            borderColor: tintColor,
-                            backgroundColor: tintColor,
-                          },
+                          styles.selectedPackage,
+                          { borderColor: tintColor },
                         ],
                       ]}
+                      onPress={() => handleSelectPackage(index)}
+                      disabled={isPurchasing}
                     >
-                      {isSelected && (
-                        <ThemedText style={styles.checkmark}>✓</ThemedText>
+                      {/* Badge */}
+                      {(badge || savings || trialInfo) && (
+                        <View style={styles.badgeContainer}>
+                          {trialInfo && (
+                            <View style={[styles.badge, styles.trialBadge]}>
+                              <ThemedText style={styles.badgeText}>
+                                🆓 {trialInfo}
+                              </ThemedText>
+                            </View>
+                          )}
+                          {badge && (
+                            <View
+                              style={[
+                                styles.badge,
+                                { backgroundColor: tintColor },
+                              ]}
+                            >
+                              <ThemedText style={styles.badgeText}>
+                                {badge}
+                              </ThemedText>
+                            </View>
+                          )}
+                          {savings && (
+                            <View style={[styles.badge, styles.savingsBadge]}>
+                              <ThemedText style={styles.badgeText}>
+                                {savings}
+                              </ThemedText>
+                            </View>
+                          )}
+                        </View>
                       )}
-                    </View>
-                  </TouchableOpacity>
-                );
-              })}
-            </ThemedView>
 
-            {/* Platform Info */}
-            {Platform.OS === "web" && (
-              <ThemedView style={styles.stepContainer}>
-                <ThemedText type="defaultSemiBold">💳 Web Billing</ThemedText>
-                <ThemedText style={styles.webInfoText}>
-                  Secure payments powered by RevenueCat.
-                </ThemedText>
+                      <View style={styles.packageContent}>
+                        <View style={styles.packageHeader}>
+                          <ThemedText type="defaultSemiBold">
+                            {formatPackageTitle(packageItem)}
+                          </ThemedText>
+                          {packageDiscount ? (
+                            <>
+                              <View style={styles.discountedPriceRow}>
+                                <ThemedText
+                                  style={[styles.packagePrice, { color: tintColor }]}
+                                >
+                                  {packageDiscount.priceString}
+                                </ThemedText>
+                                <ThemedText style={styles.regularPrice}>
+                                  {packageItem.product.priceString}
+                                </ThemedText>
+                              </View>
+                              <ThemedText style={styles.perMonthText}>
+                                {formatDiscountTerms(packageItem, packageDiscount)}
+                              </ThemedText>
+                            </>
+                          ) : (
+                            <ThemedText
+                              style={[styles.packagePrice, { color: tintColor }]}
+                            >
+                              {formatPackagePrice(packageItem)}
+                            </ThemedText>
+                          )}
+                          {perMonth && (
+                            <ThemedText style={styles.perMonthText}>
+                              {perMonth}
+                            </ThemedText>
+                          )}
+                        </View>
+
+                        {paywallLayout === "full" && (
+                          <ThemedText
+                            style={[styles.packageDescription, textDirectionStyle]}
+                          >
+                            {packageItem.identifier === PACKAGE_TYPES.WEEKLY &&
+                              t("paywall.description.weekly")}
+                            {packageItem.identifier === PACKAGE_TYPES.MONTHLY &&
+                              t("paywall.description.monthly")}
+                            {packageItem.identifier === PACKAGE_TYPES.ANNUAL &&
+                              t("paywall.description.annual")}
+                            {packageItem.identifier === PACKAGE_TYPES.LIFETIME &&
+                              t("paywall.description.lifetime")}
+                            {!Object.values(PACKAGE_TYPES).includes(
+                              packageItem.identifier as any
+                            ) && t("paywall.description.default")}
+                          </ThemedText>
+                        )}
+                      </View>
+
+                      {/* Selection Indicator */}
+                      <View
+                        style={[
+                          styles.selectionIndicator,
+                          isSelected && [
+                            styles.selectedIndicator,
+                            {
+                              borderColor: tintColor,
+                              backgroundColor: tintColor,
+                            },
+                          ],
+                        ]}
+                      >
+                        {isSelected && (
+                          <ThemedText style={styles.checkmark}>✓</ThemedText>
+                        )}
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
               </ThemedView>
-            )}
 
-            {/* Purchase Button */}
-            <TouchableOpacity
-              style={[
-                styles.purchaseButton,
-                { backgroundColor: "#007AFF" }, // Use a consistent blue that works in both themes
-                isPurchasing && styles.purchasingButton,
-              ]}
-              onPress={handlePurchase}
-              disabled={isPurchasing || !hasPackages}
-            >
-              {isPurchasing ? (
-                <View style={styles.purchasingContent}>
-                  <ActivityIndicator size="small" color="white" />
+              {/* Demo Mode Info */}
+              {isDemoMode && (
+                <ThemedView style={[styles.statusCard, styles.demoCard]}>
+                  <ThemedText type="defaultSemiBold">
+                    {t("paywall.demo.title")}
+                  </ThemedText>
+                  <ThemedText style={[styles.webInfoText, textDirectionStyle]}>
+                    {t("paywall.demo.message")}
+                  </ThemedText>
+                </ThemedView>
+              )}
+
+              {/* Platform Info */}
+              {Platform.OS === "web" && !isDemoMode && (
+                <ThemedView style={styles.stepContainer}>
+                  <ThemedText type="defaultSemiBold">
+                    {t("paywall.webBilling.title")}
+                  </ThemedText>
+                  <ThemedText style={[styles.webInfoText, textDirectionStyle]}>
+                    {t("paywall.webBilling.message")}
+                  </ThemedText>
+                </ThemedView>
+              )}
+
+              {/* Purchase Button */}
+              <TouchableOpacity
+                style={[
+                  styles.purchaseButton,
+                  // Use a consistent blue that works in both themes unless metadata sets an accent
+                  { backgroundColor: paywallConfig.colors?.accent ?? "#007AFF" },
+                  (isPurchasing || isLoadingDiscounts) && styles.purchasingButton,
+                ]}
+                onPress={handlePurchase}
+                disabled={isPurchasing || isLoadingDiscounts || !hasPackages}
+              >
+                {isPurchasing ? (
+                  <View style={styles.purchasingContent}>
+                    <ActivityIndicator size="small" color="white" />
+                    <ThemedText
+                      style={[styles.purchaseButtonText, { color: "white" }]}
+                    >
+                      {t("paywall.processing")}
+                    </ThemedText>
+                  </View>
+                ) : (
                   <ThemedText
                     style={[styles.purchaseButtonText, { color: "white" }]}
                   >
-                    Processing...
+                    {getButtonText(sortedPackages[selectedPackageIndex])}
                   </ThemedText>
-                </View>
-              ) : (
-                <ThemedText
-                  style={[styles.purchaseButtonText, { color: "white" }]}
-                >
-                  {getPurchaseButtonText(sortedPackages[selectedPackageIndex])}
+                )}
+              </TouchableOpacity>
+
+              {/* Terms */}
+              <ThemedView style={styles.stepContainer}>
+                <ThemedText style={styles.termsText}>
+                  {t("paywall.terms")}
+                  {Platform.OS === "ios" && ` ${t("paywall.terms.ios")}`}
+                  {Platform.OS === "android" && ` ${t("paywall.terms.android")}`}
+                  {Platform.OS === "web" && ` ${t("paywall.terms.web")}`}
                 </ThemedText>
-              )}
-            </TouchableOpacity>
+              </ThemedView>
+            </>
+          )}
 
-            {/* Terms */}
+          {/* Credit Packs */}
+          {creditPackages.length > 0 && !isLoading && (
             <ThemedView style={styles.stepContainer}>
-              <ThemedText style={styles.termsText}>
-                Subscriptions automatically renew unless cancelled. You can
-                manage your subscription in your account settings.
-                {Platform.OS === "ios" &&
-                  " Subscriptions are managed through your Apple ID."}
-                {Platform.OS === "android" &&
-                  " Subscriptions are managed through Google Play."}
-                {Platform.OS === "web" &&
-                  " Subscriptions are managed through our web billing system."}
+              <ThemedText type="subtitle" style={textDirectionStyle}>
+                {t("paywall.credits.title")}
               </ThemedText>
+              {creditBalance != null && (
+                <ThemedText style={[styles.creditBalance, textDirectionStyle]}>
+                  {t("paywall.credits.balance", {
+                    credits: t("credits.count", { count: creditBalance }),
+                  })}
+                </ThemedText>
+              )}
+
+              {creditPackages.map((packageItem) => {
+                const isBuying = buyingCreditPack === packageItem.product.identifier;
+                return (
+                  <View key={packageItem.product.identifier} style={styles.creditPack}>
+                    <View style={styles.creditPackContent}>
+                      <ThemedText type="defaultSemiBold">
+                        🪙 {t("credits.count", { count: getPackageCredits(packageItem) ?? 0 })}
+                      </ThemedText>
+                      <ThemedText style={styles.perMonthText}>
+                        {formatPackageTitle(packageItem)}
+                      </ThemedText>
+                    </View>
+                    <TouchableOpacity
+                      style={[
+                        styles.creditPackButton,
+                        { backgroundColor: tintColor },
+                        isPurchasing && !isBuying && styles.purchasingButton,
+                      ]}
+                      onPress={() => handleBuyCredits(packageItem)}
+                      disabled={isPurchasing}
+                    >
+                      {isBuying ? (
+                        <ActivityIndicator size="small" color="white" />
+                      ) : (
+                        <ThemedText style={styles.creditPackButtonText}>
+                          {packageItem.product.priceString}
+                        </ThemedText>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
             </ThemedView>
+          )}
 
-            {/* Close Button */}
-            <TouchableOpacity
-              style={styles.laterButton}
-              onPress={() => router.back()}
-            >
-              <ThemedText style={styles.laterButtonText}>
-                Maybe Later
-              </ThemedText>
-            </TouchableOpacity>
-          </>
-        )}
+          {/* Offer Codes and Close Button, also for offerings that only sell credit packs */}
+          {(hasPackages || creditPackages.length > 0) && !isLoading && (
+            <>
+              {/* Offer Codes */}
+              {offerCodeRedemptionMethod !== "unsupported" && (
+                <TouchableOpacity
+                  style={styles.laterButton}
+                  onPress={openOfferCodeRedemption}
+                  disabled={isPurchasing}
+                >
+                  <ThemedText style={[styles.redeemCodeText, { color: tintColor }]}>
+                    {t("paywall.redeemCode")}
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+
+              {/* Close Button */}
+              <TouchableOpacity
+                style={styles.laterButton}
+                onPress={() => router.back()}
+              >
+                <ThemedText style={styles.laterButtonText}>
+                  {t("paywall.later")}
+                </ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
       </ParallaxScrollView>
     </>
   );
 }
 
 const styles = StyleSheet.create({
+  content: {
+    gap: 16,
+  },
   headerImageContainer: {
     flex: 1,
     alignItems: "center",
@@ -444,6 +722,10 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: "bold",
   },
+  subtitle: {
+    fontSize: 16,
+    opacity: 0.8,
+  },
   titleContainer: {
     alignItems: "center",
     gap: 8,
@@ -473,6 +755,14 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(255, 193, 7, 0.1)",
     borderColor: "rgba(255, 193, 7, 0.3)",
   },
+  demoCard: {
+    backgroundColor: "rgba(255, 149, 0, 0.1)",
+    borderColor: "rgba(255, 149, 0, 0.3)",
+    marginBottom: 16,
+  },
+  demoBadge: {
+    alignSelf: "center",
+  },
   errorTitle: {
     marginBottom: 8,
   },
@@ -559,6 +849,20 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     marginTop: 4,
   },
+  discountedPriceRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+  },
+  regularPrice: {
+    fontSize: 16,
+    opacity: 0.6,
+    textDecorationLine: "line-through",
+  },
+  perMonthText: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
   packageDescription: {
     fontSize: 14,
     opacity: 0.7,
@@ -621,6 +925,38 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingVertical: 12,
   },
+  creditBalance: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  creditPack: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.2)",
+    padding: 12,
+  },
+  creditPackContent: {
+    flex: 1,
+  },
+  creditPackButton: {
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    minWidth: 72,
+    alignItems: "center",
+  },
+  creditPackButtonText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  redeemCodeText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
   laterButtonText: {
     fontSize: 16,
     opacity: 0.6,
@@ -0,0 +1,250 @@
+/**
+ * Offer Code Redemption Screen
+ *
+ * Code entry for platforms without a native redemption sheet. Opened by
+ * openOfferCodeRedemption() from usePurchases, which shows the App Store's
+ * own sheet on iOS instead (see lib/offerCodes.ts).
+ *
+ * FEATURES:
+ * - Android: hands the code to Google Play, then refreshes customer info
+ *   when the app returns to the foreground
+ * - Demo mode: redeems codes from the demo catalog right away
+ * - Explains where to redeem on platforms that don't take typed codes
+ * - Localized copy with right-to-left layout for RTL locales
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  AppState,
+} from "react-native";
+import { router } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { DemoModeBadge } from "@/components/DemoModeBadge";
+import { usePurchases } from "@/hooks/usePurchases";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { useTranslation } from "@/hooks/useTranslation";
+import { DEMO_OFFER_CODE } from "@/lib/demoCatalog";
+
+export default function RedeemScreen() {
+  const {
+    offerCodeRedemptionMethod,
+    openOfferCodeRedemption,
+    redeemOfferCode,
+    refreshCustomerInfo,
+    isRedeeming,
+    isDemoMode,
+  } = usePurchases();
+  const { t, isRTL } = useTranslation();
+
+  const [code, setCode] = useState("");
+  const [openedStore, setOpenedStore] = useState(false);
+
+  // Pick up the redeemed subscription when the customer comes back from Google Play
+  useEffect(() => {
+    if (!openedStore) return;
+
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        refreshCustomerInfo();
+      }
+    });
+
+    return () => subscription.remove();
+    // refreshCustomerInfo is recreated on every provider render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openedStore]);
+
+  const handleRedeem = async () => {
+    if (isRedeeming) return;
+
+    try {
+      const result = await redeemOfferCode(code);
+      if (result === "redeemed") {
+        router.back();
+      } else if (result === "openedStore") {
+        setOpenedStore(true);
+      }
+    } catch {
+      // Error is handled in the hook with user feedback
+    }
+  };
+
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+  const acceptsTypedCodes =
+    offerCodeRedemptionMethod === "inApp" ||
+    offerCodeRedemptionMethod === "playStore";
+
+  const directionStyle = { direction: isRTL ? "rtl" : "ltr" } as const;
+  const textDirectionStyle = {
+    writingDirection: isRTL ? "rtl" : "ltr",
+    textAlign: isRTL ? "right" : "left",
+  } as const;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <StatusBar style="auto" />
+      <ThemedView style={[styles.container, directionStyle]}>
+        <View style={styles.header}>
+          <ThemedText type="title" style={textDirectionStyle}>
+            {t("redeem.title")}
+          </ThemedText>
+          <DemoModeBadge />
+        </View>
+
+        {acceptsTypedCodes && (
+          <>
+            <ThemedText style={[styles.message, textDirectionStyle]}>
+              {t("redeem.message")}
+              {offerCodeRedemptionMethod === "playStore" &&
+                ` ${t("redeem.playStore")}`}
+            </ThemedText>
+
+            <TextInput
+              style={[styles.codeInput, { color: textColor }]}
+              value={code}
+              onChangeText={setCode}
+              placeholder={t("redeem.placeholder")}
+              placeholderTextColor="#808080"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              autoFocus
+              editable={!isRedeeming}
+              onSubmitEditing={handleRedeem}
+            />
+
+            {isDemoMode && (
+              <ThemedText style={[styles.hint, textDirectionStyle]}>
+                {t("redeem.demoHint", { code: DEMO_OFFER_CODE })}
+              </ThemedText>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                { backgroundColor: tintColor },
+                (isRedeeming || !code.trim()) && styles.disabledButton,
+              ]}
+              onPress={handleRedeem}
+              disabled={isRedeeming || !code.trim()}
+            >
+              {isRedeeming ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>
+                  {t("redeem.submit")}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+
+            {openedStore && (
+              <ThemedView style={styles.infoCard}>
+                <ThemedText style={textDirectionStyle}>
+                  {t("redeem.openedStore")}
+                </ThemedText>
+              </ThemedView>
+            )}
+          </>
+        )}
+
+        {/* Reached directly on iOS; the sheet is the only way to redeem there */}
+        {offerCodeRedemptionMethod === "sheet" && (
+          <>
+            <ThemedText style={[styles.message, textDirectionStyle]}>
+              {t("redeem.sheet")}
+            </ThemedText>
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: tintColor }]}
+              onPress={openOfferCodeRedemption}
+            >
+              <ThemedText style={styles.primaryButtonText}>
+                {t("redeem.openSheet")}
+              </ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {offerCodeRedemptionMethod === "unsupported" && (
+          <ThemedText style={[styles.message, textDirectionStyle]}>
+            {t("redeem.unsupported")}
+          </ThemedText>
+        )}
+
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <ThemedText style={styles.closeButtonText}>{t("redeem.close")}</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    padding: 24,
+    gap: 16,
+  },
+  header: {
+    gap: 8,
+    alignItems: "flex-start",
+  },
+  message: {
+    fontSize: 16,
+    lineHeight: 22,
+    opacity: 0.8,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    fontSize: 20,
+    letterSpacing: 2,
+    textAlign: "center",
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  infoCard: {
+    backgroundColor: "rgba(0, 122, 255, 0.1)",
+    borderColor: "rgba(0, 122, 255, 0.3)",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+  },
+  closeButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,162 @@
+/**
+ * Credits Card
+ *
+ * Shows the credits balance bought with consumable credit packs, the latest
+ * ledger entries and a button that spends a few credits, so the whole flow can
+ * be tried from the profile screen. Localized.
+ *
+ * Renders nothing when no credit packs are configured (CREDIT_PACKS in
+ * constants/RevenueCat.ts).
+ */
+
+import { Alert, StyleSheet, TouchableOpacity, View, type StyleProp, type ViewStyle } from 'react-native';
+import { router } from 'expo-router';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { DemoModeBadge } from '@/components/DemoModeBadge';
+import { useCredits } from '@/hooks/usePurchases';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatDate } from '@/lib/i18n';
+
+// Latest ledger entries shown on the card
+const VISIBLE_ENTRIES = 5;
+
+// Credits spent by the sample button
+const SAMPLE_SPEND = 10;
+
+export function CreditsCard({ style }: { style?: StyleProp<ViewStyle> }) {
+  const { balance, history, isLoaded, creditPacks, spend } = useCredits();
+  const { t, languageTag, isRTL } = useTranslation();
+  const tintColor = useThemeColor({}, 'tint');
+
+  if (Object.keys(creditPacks).length === 0) {
+    return null;
+  }
+
+  const handleSpend = () => {
+    if (!spend(SAMPLE_SPEND, 'profile_sample')) {
+      Alert.alert(t('credits.insufficient.title'), t('credits.insufficient.message'), [
+        { text: t('common.ok'), style: 'default' },
+      ]);
+    }
+  };
+
+  return (
+    <ThemedView style={[styles.card, { direction: isRTL ? 'rtl' : 'ltr' }, style]}>
+      <View style={styles.cardHeader}>
+        <ThemedText type="subtitle">{t('credits.title')}</ThemedText>
+        <DemoModeBadge />
+      </View>
+
+      <ThemedText style={styles.balance}>
+        🪙 {t('credits.count', { count: balance })}
+      </ThemedText>
+
+      {isLoaded && history.length === 0 && (
+        <ThemedText style={styles.empty}>{t('credits.empty')}</ThemedText>
+      )}
+      {history.slice(0, VISIBLE_ENTRIES).map((entry) => (
+        <View key={entry.id} style={styles.row}>
+          <ThemedText style={styles.label}>
+            {t(entry.type === 'purchase' ? 'credits.entry.purchase' : 'credits.entry.spend')}
+            {' · '}
+            {formatDate(new Date(entry.createdAt), languageTag)}
+          </ThemedText>
+          <ThemedText style={[styles.amount, entry.amount > 0 && styles.positiveAmount]}>
+            {entry.amount > 0 ? '+' : '−'}
+            {t('credits.count', { count: Math.abs(entry.amount) })}
+          </ThemedText>
+        </View>
+      ))}
+
+      <View style={styles.buttons}>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: tintColor }]}
+          onPress={() => router.push('/paywall')}
+        >
+          <ThemedText style={styles.buttonText}>{t('credits.buy')}</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.secondaryButton, !isLoaded && styles.disabledButton]}
+          onPress={handleSpend}
+          disabled={!isLoaded}
+        >
+          <ThemedText style={styles.secondaryButtonText}>
+            {t('credits.spend', { count: SAMPLE_SPEND })}
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(128, 128, 128, 0.2)',
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  balance: {
+    fontSize: 24,
+    lineHeight: 32,
+    fontWeight: 'bold',
+  },
+  empty: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    flexShrink: 1,
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  amount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  positiveAmount: {
+    color: '#34C759',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: 'rgba(128, 128, 128, 0.4)',
+  },
+  secondaryButtonText: {
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,41 @@
+/**
+ * Demo Mode Badge
+ *
+ * Small pill shown next to subscription status while the app runs against the
+ * simulated demo store. Renders nothing once real API keys are configured.
+ */
+
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { useRevenueCat } from '@/components/RevenueCatProvider';
+
+export function DemoModeBadge({ style }: { style?: StyleProp<ViewStyle> }) {
+  const { isDemoMode } = useRevenueCat();
+
+  if (!isDemoMode) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.badge, style]}>
+      <ThemedText style={styles.badgeText}>🎮 DEMO</ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#FF9500',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 11,
+    lineHeight: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,64 @@
+/**
+ * Premium Gate Component
+ *
+ * Renders its children only when the customer has access, so screens don't
+ * have to branch on isPremium by hand.
+ *
+ * USAGE:
+ * <PremiumGate fallback={<UpgradePrompt />}>
+ *   <PremiumFeature />
+ * </PremiumGate>
+ *
+ * <PremiumGate entitlement="pro" fallback={<ProUpsell />}>
+ *   <ProFeature />
+ * </PremiumGate>
+ *
+ * While RevenueCat is loading, `loadingFallback` is shown instead (a spinner by default).
+ */
+
+import { ReactNode } from 'react';
+import { ActivityIndicator, StyleSheet } from 'react-native';
+
+import { ThemedView } from '@/components/ThemedView';
+import { AccessRequirement, useEntitlementAccess } from '@/hooks/usePurchases';
+import { useThemeColor } from '@/hooks/useThemeColor';
+
+export type PremiumGateProps = AccessRequirement & {
+  children: ReactNode;
+  /** Rendered when the customer doesn't have access */
+  fallback?: ReactNode;
+  /** Rendered while subscription status is loading */
+  loadingFallback?: ReactNode;
+};
+
+export function PremiumGate({
+  entitlement,
+  tier,
+  children,
+  fallback = null,
+  loadingFallback,
+}: PremiumGateProps) {
+  const { hasAccess, isLoading } = useEntitlementAccess({ entitlement, tier });
+  const tintColor = useThemeColor({}, 'tint');
+
+  if (isLoading) {
+    return (
+      <>
+        {loadingFallback ?? (
+          <ThemedView style={styles.loading}>
+            <ActivityIndicator color={tintColor} />
+          </ThemedView>
+        )}
+      </>
+    );
+  }
+
+  return <>{hasAccess ? children : fallback}</>;
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,65 @@
+/**
+ * Premium Route Guard
+ *
+ * Layout-level guard for expo-router route groups. Customers without access
+ * are redirected to the paywall, which sends them back to the route they
+ * tried to open after a successful purchase. The paywall shows the offering
+ * mapped to the "locked_feature" placement in PAYWALL_PLACEMENTS.
+ *
+ * USAGE (app/(premium)/_layout.tsx):
+ * export default function PremiumLayout() {
+ *   return (
+ *     <PremiumRouteGuard>
+ *       <Stack />
+ *     </PremiumRouteGuard>
+ *   );
+ * }
+ */
+
+import { ReactNode } from 'react';
+import { ActivityIndicator, StyleSheet } from 'react-native';
+import { Href, Redirect, usePathname } from 'expo-router';
+
+import { ThemedView } from '@/components/ThemedView';
+import { AccessRequirement, useEntitlementAccess } from '@/hooks/usePurchases';
+import { useThemeColor } from '@/hooks/useThemeColor';
+
+/**
+ * Whether a returnTo value is a path inside the app
+ * Rejects external URLs and protocol-relative paths ("//host", "/\host"), so
+ * the paywall's returnTo param can't send customers to another site.
+ */
+export const isInAppPath = (value: string | undefined): value is Extract<Href, string> =>
+  !!value && value.startsWith('/') && !/^\/[/\\]/.test(value) && !value.includes('://');
+
+export type PremiumRouteGuardProps = AccessRequirement & {
+  children: ReactNode;
+};
+
+export function PremiumRouteGuard({ entitlement, tier, children }: PremiumRouteGuardProps) {
+  const { hasAccess, isLoading } = useEntitlementAccess({ entitlement, tier });
+  const pathname = usePathname();
+  const tintColor = useThemeColor({}, 'tint');
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.loading}>
+        <ActivityIndicator size="large" color={tintColor} />
+      </ThemedView>
+    );
+  }
+
+  if (!hasAccess) {
+    return <Redirect href={{ pathname: '/paywall', params: { returnTo: pathname, placement: 'locked_feature' } }} />;
+  }
+
+  return <>{children}</>;
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
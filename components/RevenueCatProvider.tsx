@@ -11,15 +11,46 @@
  * FEATURES:
  * - Automatic RevenueCat SDK initialization
  * - Cross-platform API key selection
- * - Error handling and validation
- * - Optional user identification
+ * - Typed error handling (PurchaseError categories) and validation
+ * - Configuration report with a severity for each finding (see validateRevenueCatConfig)
+ * - User identification (logIn / logOut) with identity state
  * - Development mode configuration
+ * - Pluggable purchases backend (real SDK or in-memory fake store)
+ * - Demo mode with a simulated product catalog when API keys are missing
+ * - Listener cleanup on unmount and re-configure, with app-level customer info subscriptions
+ * - Offline-first startup from a persisted cache, revalidated in the background
+ * - Intro offer / free trial eligibility for every offering
+ * - Paywall experiment assignments for the current user (see lib/experiments.ts)
+ * - Purchase-funnel analytics with pluggable sinks (see lib/analytics.ts)
+ * - Batched subscriber attributes with retries (see lib/subscriberAttributes.ts)
+ * - Discounted purchases with store promotional offers
+ * - Offer code redemption (App Store sheet, Google Play or in-app, see lib/offerCodes.ts)
+ * - Credits ledger fed by consumable credit pack purchases (see lib/credits.ts)
+ * - Plan changes that replace the current subscription (see lib/planChanges.ts)
+ * - Environment profiles switchable at runtime in debug builds (see lib/environment.ts)
+ * - SDK call log with timing and outcomes for the debug timeline (see lib/sdkCallLog.ts)
  */
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { Platform } from 'react-native';
-import Purchases, { CustomerInfo, PurchasesOffering, PurchasesOfferings, PurchasesPackage } from 'react-native-purchases';
-import { REVENUECAT_CONFIG, getPlatformApiKey, validateRevenueCatConfig } from '@/constants/RevenueCat';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { AppState, Linking, Platform } from 'react-native';
+import { CustomerInfo, CustomerInfoUpdateListener, INTRO_ELIGIBILITY_STATUS, MakePurchaseResult, PURCHASES_ERROR_CODE, PurchasesOffering, PurchasesOfferings, PurchasesPackage, PurchasesPromotionalOffer } from 'react-native-purchases';
+import { CREDIT_PACKS, ConfigReport, CustomAttributeKey, DEFAULT_ENVIRONMENT_ID, EnvironmentProfile, FREE_TIER, REVENUECAT_CONFIG, SDK_CALL_LOG_CONFIG, TierId, getEnvironmentEntitlementId, getEnvironmentProfile, getPlatformApiKey, validateRevenueCatConfig } from '@/constants/RevenueCat';
+import { PurchasesAdapter, nativePurchasesAdapter } from '@/lib/purchasesAdapter';
+import { DEMO_CREDIT_PACKS, createDemoPurchasesAdapter } from '@/lib/demoCatalog';
+import { resolveTier } from '@/lib/tiers';
+import { createSubscriptionRegistry } from '@/lib/subscriptionRegistry';
+import { PurchaseError, toPurchaseError } from '@/lib/purchaseErrors';
+import { clearPurchasesCache, isCacheStale, loadPurchasesCache, savePurchasesCache } from '@/lib/purchasesCache';
+import { ExperimentAssignments, assignExperiments, getExperimentTags, loadExperimentAssignments } from '@/lib/experiments';
+import { Analytics, analytics as defaultAnalytics } from '@/lib/analytics';
+import { DISPLAY_NAME_ATTRIBUTE, EMAIL_ATTRIBUTE, SubscriberAttributesState, createAttributeSyncer, loadSubscriberAttributes } from '@/lib/subscriberAttributes';
+import { OfferCodeRedemptionMethod, OfferCodeRedemptionResult, getOfferCodeRedemptionMethod, getPlayStoreRedeemUrl } from '@/lib/offerCodes';
+import { SubscriptionManagementMethod, getManagementURL, getSubscriptionManagementMethod } from '@/lib/subscriptionManagement';
+import { CreditLedgerState, CreditPacks, createCreditLedger, loadCreditLedger } from '@/lib/credits';
+import { PlanChange, UnavailablePlanChange, getPlanChange as resolvePlanChange } from '@/lib/planChanges';
+import { applyEnvironmentOffering, loadEnvironmentProfile, saveEnvironmentId } from '@/lib/environment';
+import { SdkCallLog, logSdkCalls, sdkCallLog as defaultSdkCallLog } from '@/lib/sdkCallLog';
+import { useMountedState } from '@/hooks/useMountedState';
 
 /**
  * RevenueCat Context Type Definition
@@ -29,23 +60,106 @@ interface RevenueCatContextType {
   // State
   isInitialized: boolean;
   isLoading: boolean;
-  error: string | null;
+  error: PurchaseError | null; // see lib/purchaseErrors.ts for categories
   customerInfo: CustomerInfo | null;
   offerings: PurchasesOfferings | null;
   currentOffering: PurchasesOffering | null;
-  isPremium: boolean;
+  isPremium: boolean; // true for any paid tier
+  currentTier: TierId;
+  isDemoMode: boolean;
+  
+  // Findings about the settings in constants/RevenueCat.ts for the current
+  // environment. Demo mode is used when an "error" check fails (configReport.isValid is false).
+  configReport: ConfigReport;
+  
+  // Environment profile in use (see ENVIRONMENT_PROFILES)
+  // switchEnvironment clears cached purchases data and re-configures the SDK.
+  environment: EnvironmentProfile;
+  switchEnvironment: (environmentId: string) => Promise<void>;
+  
+  // Sync status
+  // lastSyncedAt is when data was last received from RevenueCat (epoch ms).
+  // isStale is true while showing cached data that hasn't been revalidated yet,
+  // or when revalidation failed (e.g. the device is offline).
+  lastSyncedAt: number | null;
+  isStale: boolean;
+  
+  // Intro offer eligibility for every offering, keyed by product identifier.
+  // Products missing from the map haven't been checked (yet).
+  introEligibility: Record<string, INTRO_ELIGIBILITY_STATUS>;
+  
+  // Identity
+  appUserID: string | null;
+  isAnonymous: boolean;
+  
+  // Experiment variants of the current user, keyed by experiment identifier
+  experimentAssignments: ExperimentAssignments;
+  
+  // Purchase-funnel event bus
+  analytics: Analytics;
+  
+  // Calls made to the purchases backend, newest last (null when not recorded)
+  sdkCallLog: SdkCallLog | null;
   
   // Actions
   purchasePackage: (packageToPurchase: PurchasesPackage) => Promise<void>;
   restorePurchases: () => Promise<void>;
   refreshCustomerInfo: () => Promise<void>;
   
-  // Optional: User identification methods
-  // Uncomment these if you enable USE_USER_IDENTIFICATION in constants/RevenueCat.ts
-  // logIn: (userId: string) => Promise<void>;
-  // logOut: () => Promise<void>;
+  // Promotional offers
+  // getPromotionalOffer signs one of the product's discounts for the customer, or resolves
+  // to null when the product has no such discount or the customer isn't eligible.
+  getPromotionalOffer: (packageItem: PurchasesPackage, discountIdentifier: string) => Promise<PurchasesPromotionalOffer | null>;
+  purchaseDiscountedPackage: (packageToPurchase: PurchasesPackage, promotionalOffer: PurchasesPromotionalOffer) => Promise<void>;
+  
+  // Offer codes
+  // "sheet" uses presentCodeRedemptionSheet; the other methods take a typed code in redeemOfferCode
+  offerCodeRedemptionMethod: OfferCodeRedemptionMethod;
+  presentCodeRedemptionSheet: () => Promise<void>;
+  redeemOfferCode: (code: string) => Promise<OfferCodeRedemptionResult>;
+  
+  // Subscription management
+  // Opens the page where the customer cancels or changes their subscription
+  // ("simulated" stores turn off auto-renew instead)
+  subscriptionManagementMethod: SubscriptionManagementMethod;
+  openSubscriptionManagement: () => Promise<void>;
+  
+  // Plan changes
+  // getPlanChange describes switching the active subscription to a package (type, store,
+  // when it takes effect); changePlan buys the package in place of the current plan.
+  getPlanChange: (targetPackage: PurchasesPackage) => PlanChange | UnavailablePlanChange;
+  changePlan: (targetPackage: PurchasesPackage) => Promise<PlanChange>;
+  
+  // User identification
+  // Ties purchases to your own user IDs so they follow users across devices
+  logIn: (userId: string) => Promise<void>;
+  logOut: () => Promise<void>;
+  
+  // Subscriber attributes
+  // Changes are batched and sent in the background, retrying until RevenueCat accepts them.
+  // A null or empty value removes the attribute. Call flushAttributes to send right away.
+  subscriberAttributes: SubscriberAttributesState | null;
+  setAttributes: (attributes: Partial<Record<CustomAttributeKey, string | null>>) => void;
+  setEmail: (email: string | null) => void;
+  setDisplayName: (displayName: string | null) => void;
+  flushAttributes: () => Promise<void>;
+  
+  // Credits
+  // Credit pack purchases are credited once per store transaction. spendCredits
+  // returns false when the balance is too low.
+  credits: CreditLedgerState | null;
+  creditPacks: CreditPacks;
+  spendCredits: (amount: number, reason?: string | null) => boolean;
+  
+  // Subscriptions
+  // Called whenever customer info changes (SDK updates, purchases, restores, refreshes).
+  // Returns a function that removes the listener.
+  addCustomerInfoListener: (listener: CustomerInfoUpdateListener) => () => void;
 }
 
+// The demo catalog sells its own credit packs
+const DEMO_MODE_CREDIT_PACKS: CreditPacks = { ...CREDIT_PACKS, ...DEMO_CREDIT_PACKS };
+
 /**
  * Create the RevenueCat context
  * This will be used to access RevenueCat functionality from any component
@@ -57,6 +171,28 @@ const RevenueCatContext = createContext<RevenueCatContextType | undefined>(undef
  */
 interface RevenueCatProviderProps {
   children: React.ReactNode;
+  /**
+   * Purchases backend to use. Defaults to the real RevenueCat SDK.
+   * Pass createFakePurchasesAdapter() from lib/fakePurchasesAdapter.ts
+   * to run without a store (tests, previews, CI).
+   */
+  adapter?: PurchasesAdapter;
+  /**
+   * Persist customer info and offerings so the next launch can start from them.
+   * Defaults to true for the real SDK and false for custom adapters.
+   */
+  persistCache?: boolean;
+  /**
+   * Event bus for purchase-funnel analytics. Defaults to the app-wide instance
+   * configured in ANALYTICS_CONFIG. Pass createAnalytics([createMemorySink()])
+   * to inspect events in tests.
+   */
+  analytics?: Analytics;
+  /**
+   * Where calls to the purchases backend are recorded. Defaults to the app-wide
+   * log while SDK_CALL_LOG_CONFIG.ENABLED is on; pass null to record nothing.
+   */
+  sdkCallLog?: SdkCallLog | null;
 }
 
 /**
@@ -64,60 +200,372 @@ interface RevenueCatProviderProps {
  * 
  * Initializes the RevenueCat SDK and provides context to child components
  */
-export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
+export function RevenueCatProvider({
+  children,
+  adapter = nativePurchasesAdapter,
+  persistCache = adapter === nativePurchasesAdapter,
+  analytics = defaultAnalytics,
+  sdkCallLog = SDK_CALL_LOG_CONFIG.ENABLED ? defaultSdkCallLog : null,
+}: RevenueCatProviderProps) {
   // State management
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [customerInfo, setCustomerInfo] = useState<CustomerInfo | null>(null);
-  const [offerings, setOfferings] = useState<PurchasesOfferings | null>(null);
+  // useMountedState ignores updates from SDK calls that resolve after unmount
+  const [isInitialized, setIsInitialized] = useMountedState(false);
+  const [isLoading, setIsLoading] = useMountedState(true);
+  const [error, setError] = useMountedState<PurchaseError | null>(null);
+  const [customerInfo, setCustomerInfoState] = useMountedState<CustomerInfo | null>(null);
+  const [offerings, setOfferings] = useMountedState<PurchasesOfferings | null>(null);
+  const [isDemoMode, setIsDemoMode] = useMountedState(false);
+  const [appUserID, setAppUserID] = useMountedState<string | null>(null);
+  const [isAnonymous, setIsAnonymous] = useMountedState(true);
+  const [lastSyncedAt, setLastSyncedAt] = useMountedState<number | null>(null);
+  const [isStale, setIsStale] = useMountedState(false);
+  const [introEligibility, setIntroEligibility] = useMountedState<Record<string, INTRO_ELIGIBILITY_STATUS>>({});
+  const [experimentAssignments, setExperimentAssignments] = useMountedState<ExperimentAssignments>({});
+  const [subscriberAttributes, setSubscriberAttributes] = useMountedState<SubscriberAttributesState | null>(null);
+  const [credits, setCredits] = useMountedState<CreditLedgerState | null>(null);
+  
+  const [environment, setEnvironment] = useMountedState(() => getEnvironmentProfile(DEFAULT_ENVIRONMENT_ID));
+  const [configReport, setConfigReport] = useMountedState<ConfigReport>(() => validateRevenueCatConfig());
+  
+  // Adapter currently in use. Switches to the demo store when RevenueCat isn't configured.
+  // Calls through it are recorded in sdkCallLog.
+  const activeAdapter = useRef<PurchasesAdapter>(adapter);
+  
+  // Environment of the current configuration, for async work started before a switch
+  const activeEnvironment = useRef(environment);
+  
+  // Batches subscriber attribute changes for whichever adapter is active
+  const [attributeSyncer] = useState(() =>
+    createAttributeSyncer(() => activeAdapter.current, setSubscriberAttributes)
+  );
+  
+  // Credits ledger of the current user
+  const [creditLedger] = useState(() => createCreditLedger(setCredits));
+  
+  // SDK listeners owned by this provider, removed on unmount and before re-configuring
+  const [sdkSubscriptions] = useState(createSubscriptionRegistry);
+  
+  // App-level customer info listeners registered through addCustomerInfoListener
+  const customerInfoListeners = useRef(new Set<CustomerInfoUpdateListener>());
+  
+  // Bumped on every configure and on unmount so stale async work can tell it's outdated
+  const configureGeneration = useRef(0);
+  
+  // Whether the data on screen came from the persisted cache
+  const hasCachedData = useRef(false);
   
   // Derived state
   const currentOffering = offerings?.current || null;
-  const isPremium = customerInfo?.entitlements?.active?.[REVENUECAT_CONFIG.ENTITLEMENT_ID] != null;
+  const currentTier = resolveTier(customerInfo, getEnvironmentEntitlementId(environment));
+  const isPremium = currentTier !== FREE_TIER;
+  // isDemoMode re-renders the provider whenever activeAdapter switches
+  // The adapter passed in, since the logged wrapper isn't the native SDK adapter itself
+  const offerCodeRedemptionMethod = getOfferCodeRedemptionMethod(isDemoMode ? activeAdapter.current : adapter);
+  const subscriptionManagementMethod = getSubscriptionManagementMethod(activeAdapter.current, customerInfo);
+  const creditPacks = isDemoMode ? DEMO_MODE_CREDIT_PACKS : CREDIT_PACKS;
+  
+  // Changes whenever the customer buys something, which can use up intro offers
+  const purchasedProductsKey = customerInfo?.allPurchasedProductIdentifiers?.join(',') ?? '';
+  
+  // Active entitlements last reported to analytics (null until customer info is known)
+  const activeEntitlementsKey = customerInfo ? Object.keys(customerInfo.entitlements.active).sort().join(',') : null;
+  const reportedEntitlementsKey = useRef<string | null>(null);
   
   /**
    * Initialize RevenueCat SDK
-   * This happens when the provider is first mounted
+   * This happens when the provider is first mounted and whenever the adapter changes.
+   * Listeners registered with the previous configuration are removed on cleanup.
    */
   useEffect(() => {
     initializeRevenueCat();
-  }, []);
+    
+    return () => {
+      configureGeneration.current += 1;
+      sdkSubscriptions.clear();
+    };
+  }, [adapter]);
+  
+  /**
+   * Persist fresh data for the next launch
+   * Demo data and stale (cached) data are never written back.
+   */
+  useEffect(() => {
+    if (!persistCache || isDemoMode || isStale || lastSyncedAt == null) return;
+    
+    savePurchasesCache({ appUserID, customerInfo, offerings, lastSyncedAt });
+  }, [persistCache, isDemoMode, isStale, lastSyncedAt, appUserID, customerInfo, offerings]);
+  
+  /**
+   * Assign the current user to experiment variants
+   * The computed assignment applies right away; stored assignments replace it once loaded.
+   */
+  useEffect(() => {
+    if (!appUserID) return;
+    
+    let cancelled = false;
+    setExperimentAssignments(assignExperiments(appUserID));
+    loadExperimentAssignments(appUserID).then((assignments) => {
+      if (!cancelled) setExperimentAssignments(assignments);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [appUserID, setExperimentAssignments]);
+  
+  /**
+   * Load the attributes set for the current user and send any that are still pending
+   */
+  useEffect(() => {
+    if (!isInitialized || !appUserID) return;
+    
+    let cancelled = false;
+    loadSubscriberAttributes(appUserID).then((state) => {
+      if (!cancelled) attributeSyncer.setUser(state);
+    });
+    
+    return () => {
+      cancelled = true;
+      attributeSyncer.dispose();
+    };
+  }, [isInitialized, appUserID, attributeSyncer]);
+  
+  /**
+   * Load the credits ledger of the current user
+   */
+  useEffect(() => {
+    if (!appUserID) return;
+    
+    let cancelled = false;
+    loadCreditLedger(appUserID).then((state) => {
+      if (!cancelled) creditLedger.setUser(state);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [appUserID, creditLedger]);
+  
+  /**
+   * Credit credit pack purchases, including ones restored or made outside the app
+   * The user comes from the adapter: after logIn or logOut, the new customer info
+   * is set before appUserID is.
+   */
+  useEffect(() => {
+    if (!isInitialized || !customerInfo) return;
+    
+    let cancelled = false;
+    activeAdapter.current
+      .getAppUserID()
+      .then((currentAppUserID) => {
+        if (!cancelled) {
+          creditLedger.creditTransactions(currentAppUserID, customerInfo.nonSubscriptionTransactions, creditPacks);
+        }
+      })
+      .catch((err) => console.warn('⚠️ Failed to credit credit pack purchases:', err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isInitialized, customerInfo, creditPacks, creditLedger]);
+  
+  /**
+   * Keep the context attached to analytics events current
+   */
+  useEffect(() => {
+    analytics.setContext({
+      appUserID,
+      experiments: getExperimentTags(experimentAssignments),
+      isDemoMode,
+    });
+  }, [analytics, appUserID, experimentAssignments, isDemoMode]);
+  
+  /**
+   * Report entitlement changes, including ones from purchases made outside the app
+   * The first customer info received is the baseline, not a change.
+   */
+  useEffect(() => {
+    if (activeEntitlementsKey == null) return;
+    
+    const previousKey = reportedEntitlementsKey.current;
+    reportedEntitlementsKey.current = activeEntitlementsKey;
+    if (previousKey == null || previousKey === activeEntitlementsKey) return;
+    
+    analytics.track('entitlements_changed', {
+      activeEntitlements: activeEntitlementsKey ? activeEntitlementsKey.split(',') : [],
+      tier: currentTier,
+    });
+    // currentTier is derived from the same customer info as activeEntitlementsKey
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [analytics, activeEntitlementsKey]);
+  
+  /**
+   * Send buffered analytics before the app is suspended
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') {
+        analytics.flush();
+      }
+    });
+    
+    return () => subscription.remove();
+  }, [analytics]);
+  
+  /**
+   * Check intro offer eligibility whenever the offerings or the customer's purchases change
+   * All offerings are checked, since placements can show offerings other than the current one
+   */
+  useEffect(() => {
+    // Cached offerings may be on screen before the SDK is configured
+    if (!isInitialized || isStale || !offerings) return;
+    
+    let cancelled = false;
+    const productIdentifiers = [
+      ...new Set(
+        Object.values(offerings.all).flatMap((offering) =>
+          offering.availablePackages.map((pkg) => pkg.product.identifier)
+        )
+      ),
+    ];
+    
+    activeAdapter.current
+      .checkTrialOrIntroductoryPriceEligibility(productIdentifiers)
+      .then((eligibilityByProduct) => {
+        if (cancelled) return;
+        setIntroEligibility(
+          Object.fromEntries(
+            productIdentifiers.map((productIdentifier) => [
+              productIdentifier,
+              eligibilityByProduct[productIdentifier]?.status ??
+                INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_UNKNOWN,
+            ])
+          )
+        );
+      })
+      .catch((err) => {
+        console.warn('⚠️ Failed to check intro offer eligibility:', err);
+        if (!cancelled) setIntroEligibility({});
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+    // activeAdapter is a ref; purchasedProductsKey stands in for customerInfo
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isInitialized, isStale, offerings, purchasedProductsKey]);
+  
+  /**
+   * Revalidate when the app returns to the foreground with outdated data
+   */
+  useEffect(() => {
+    if (!isInitialized) return;
+    
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && isCacheStale(lastSyncedAt)) {
+        revalidate();
+      }
+    });
+    
+    return () => subscription.remove();
+    // revalidate only reads refs and stable setters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isInitialized, lastSyncedAt]);
+  
+  /**
+   * Store customer info and notify app-level listeners
+   * Customer info passed here always comes from RevenueCat, so it marks the data as synced.
+   */
+  const setCustomerInfo = (info: CustomerInfo | null) => {
+    setCustomerInfoState(info);
+    if (!info) return;
+    
+    setLastSyncedAt(Date.now());
+    setIsStale(false);
+    
+    customerInfoListeners.current.forEach((listener) => {
+      try {
+        listener(info);
+      } catch (err) {
+        console.error('❌ Customer info listener failed:', err);
+      }
+    });
+  };
+  
+  /**
+   * Subscribe to customer info changes from app code
+   */
+  const addCustomerInfoListener = (listener: CustomerInfoUpdateListener) => {
+    customerInfoListeners.current.add(listener);
+    return () => {
+      customerInfoListeners.current.delete(listener);
+    };
+  };
+  
+  /**
+   * Record the adapter's calls in sdkCallLog, when there is one
+   */
+  const withCallLog = (purchasesAdapter: PurchasesAdapter, source: string) =>
+    sdkCallLog ? logSdkCalls(purchasesAdapter, sdkCallLog, source) : purchasesAdapter;
   
   /**
    * RevenueCat initialization function
+   * Configures the given environment, or the one the app starts in.
    */
-  const initializeRevenueCat = async () => {
+  const initializeRevenueCat = async (environmentId?: string) => {
+    // Drop listeners from any previous configuration before configuring again
+    const generation = ++configureGeneration.current;
+    sdkSubscriptions.clear();
+    hasCachedData.current = false;
+    
     try {
       setIsLoading(true);
       setError(null);
+      activeAdapter.current = withCallLog(adapter, adapter === nativePurchasesAdapter ? 'sdk' : 'custom');
+      setIsDemoMode(false);
+      
+      // API keys only matter for the real SDK; custom adapters are used as-is
+      const usesNativeSdk = adapter === nativePurchasesAdapter;
       
-      // Check if configuration is complete
-      const isConfigComplete = validateRevenueCatConfig();
+      // Custom adapters start in the default environment instead of a remembered one
+      const nextEnvironment = environmentId
+        ? getEnvironmentProfile(environmentId)
+        : usesNativeSdk
+          ? await loadEnvironmentProfile()
+          : getEnvironmentProfile(DEFAULT_ENVIRONMENT_ID);
+      if (generation !== configureGeneration.current) return;
+      
+      activeEnvironment.current = nextEnvironment;
+      setEnvironment(nextEnvironment);
+      const report = validateRevenueCatConfig(Platform.OS, nextEnvironment);
+      setConfigReport(report);
+      
+      // Check if configuration is complete; the Profile tab shows the full report
+      const isConfigComplete = !usesNativeSdk || report.isValid;
+      if (usesNativeSdk) {
+        report.checks
+          .filter((check) => !check.passed && check.severity !== 'info')
+          .forEach((check) => console.warn(`⚠️ ${check.label}: ${check.message}`));
+      }
       
       if (!isConfigComplete) {
         // Enter demo mode if API keys aren't configured
         console.log('🎮 Running in DEMO MODE - Configure API keys in constants/RevenueCat.ts for full functionality');
         console.log('📚 Learn more at: https://docs.revenuecat.com/docs/getting-started');
         
-        // Initialize with demo data instead of throwing errors
-        setIsInitialized(true);
-        setCustomerInfo(null); // Demo mode - no customer info needed
-        
-        // Set demo offerings
-        setOfferings({
-          current: null,
-          all: {}
-        } as PurchasesOfferings);
-        
-        setIsLoading(false);
+        await enterDemoMode(generation);
         return;
       }
       
-      const apiKey = getPlatformApiKey();
+      // Show the last known state right away, then revalidate below
+      if (persistCache) {
+        await hydrateFromCache(generation);
+      }
+      
+      const apiKey = getPlatformApiKey(nextEnvironment);
       
       // Configure RevenueCat with platform-specific settings
-      await Purchases.configure({
+      await activeAdapter.current.configure({
         apiKey,
         // Optional: Enable debug mode for development
         ...(REVENUECAT_CONFIG.DEBUG_MODE && { logLevel: 'debug' }),
@@ -127,90 +575,312 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
         }),
       });
       
-      console.log('✅ RevenueCat initialized successfully for platform:', Platform.OS);
+      console.log(`✅ RevenueCat initialized successfully for platform: ${Platform.OS} (${nextEnvironment.name})`);
       setIsInitialized(true);
+      analytics.track('sdk_configured', { isDemoMode: false });
       
       // Load initial data
-      await loadInitialData();
+      await loadInitialData(generation);
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ Failed to initialize RevenueCat:', err);
+      if (generation !== configureGeneration.current) return;
+      
+      if (adapter !== nativePurchasesAdapter) {
+        setIsInitialized(true);
+        setError(toPurchaseError(err));
+        return;
+      }
       
       // Fall back to demo mode on error
       console.log('🎮 Falling back to DEMO MODE due to initialization error');
-      setIsInitialized(true);
-      setCustomerInfo(null); // Demo mode - no customer info needed
-      
-      setOfferings({
-        current: null,
-        all: {}
-      } as PurchasesOfferings);
-      
-      setError('Running in demo mode - configure RevenueCat for full functionality');
+      try {
+        await enterDemoMode(generation);
+      } catch (demoErr) {
+        console.error('❌ Failed to start demo mode:', demoErr);
+        setIsInitialized(true);
+        setError(new PurchaseError('configuration', 'Running in demo mode - configure RevenueCat for full functionality', { cause: demoErr }));
+      }
     } finally {
-      setIsLoading(false);
+      // A newer configuration owns the loading state
+      if (generation === configureGeneration.current) {
+        setIsLoading(false);
+      }
     }
   };
   
+  /**
+   * Restore the last persisted customer info and offerings
+   * The data is marked stale until RevenueCat confirms it.
+   */
+  const hydrateFromCache = async (generation: number) => {
+    const snapshot = await loadPurchasesCache();
+    if (!snapshot || generation !== configureGeneration.current) return;
+    
+    console.log('💾 Restored cached customer info from', new Date(snapshot.lastSyncedAt).toISOString());
+    hasCachedData.current = true;
+    setCustomerInfoState(snapshot.customerInfo);
+    setOfferings(snapshot.offerings);
+    setAppUserID(snapshot.appUserID);
+    setLastSyncedAt(snapshot.lastSyncedAt);
+    setIsStale(true);
+    setIsLoading(false);
+  };
+  
+  /**
+   * Switch to the simulated demo store
+   * Loads the bundled demo catalog so the full purchase flow can be tried without API keys
+   */
+  const enterDemoMode = async (generation: number) => {
+    const demoAdapter = withCallLog(createDemoPurchasesAdapter(), 'demo');
+    await demoAdapter.configure({ apiKey: 'demo' });
+    if (generation !== configureGeneration.current) return;
+    
+    activeAdapter.current = demoAdapter;
+    setIsDemoMode(true);
+    setIsInitialized(true);
+    analytics.track('sdk_configured', { isDemoMode: true });
+    
+    await loadInitialData(generation);
+  };
+  
   /**
    * Load customer info and offerings
    */
-  const loadInitialData = async () => {
+  const loadInitialData = async (generation: number) => {
+    // Unmounted or re-configured while the SDK was being configured
+    if (generation !== configureGeneration.current) return;
+    
+    // Set up customer info update listener before loading so no update is missed
+    const listenerAdapter = activeAdapter.current;
+    const customerInfoUpdateListener = (info: CustomerInfo) => {
+      console.log('📱 Customer info updated');
+      setCustomerInfo(info);
+    };
+    
+    listenerAdapter.addCustomerInfoUpdateListener(customerInfoUpdateListener);
+    sdkSubscriptions.add(() => {
+      listenerAdapter.removeCustomerInfoUpdateListener(customerInfoUpdateListener);
+    });
+    
     try {
       // Load customer info and offerings in parallel for better performance
       const [customerInfoResult, offeringsResult] = await Promise.all([
-        Purchases.getCustomerInfo(),
-        Purchases.getOfferings(),
+        activeAdapter.current.getCustomerInfo(),
+        activeAdapter.current.getOfferings(),
       ]);
+      if (generation !== configureGeneration.current) return;
       
       setCustomerInfo(customerInfoResult);
-      setOfferings(offeringsResult);
+      setOfferings(applyEnvironmentOffering(offeringsResult, activeEnvironment.current));
+      await syncIdentity();
       
       // Warn if no current offering is found
       if (!offeringsResult.current) {
         console.warn('⚠️ No current offering found. Please configure offerings in RevenueCat dashboard.');
         console.warn('Learn more: https://docs.revenuecat.com/docs/entitlements');
       }
+    } catch (err) {
+      if (generation !== configureGeneration.current) return;
       
-      // Set up customer info update listener
-      const customerInfoUpdateListener = (info: CustomerInfo) => {
-        console.log('📱 Customer info updated');
-        setCustomerInfo(info);
-      };
-      
-      Purchases.addCustomerInfoUpdateListener(customerInfoUpdateListener);
-      
-      // Return cleanup function
-      return () => {
-        Purchases.removeCustomerInfoUpdateListener(customerInfoUpdateListener);
-      };
+      // Keep showing cached data when offline instead of failing
+      if (hasCachedData.current) {
+        console.warn('📡 Could not reach RevenueCat, showing cached data:', err);
+        setIsStale(true);
+        return;
+      }
       
-    } catch (err: any) {
       console.error('❌ Failed to load RevenueCat data:', err);
-      setError(err.message || 'Failed to load RevenueCat data');
+      setError(toPurchaseError(err));
     }
   };
   
   /**
-   * Purchase a package
+   * Fetch customer info and offerings in the background
+   * Failures keep the current data and mark it stale instead of surfacing an error.
    */
-  const purchasePackage = async (packageToPurchase: PurchasesPackage) => {
+  const revalidate = async () => {
+    const generation = configureGeneration.current;
+    
+    try {
+      const [customerInfoResult, offeringsResult] = await Promise.all([
+        activeAdapter.current.getCustomerInfo(),
+        activeAdapter.current.getOfferings(),
+      ]);
+      if (generation !== configureGeneration.current) return;
+      
+      setCustomerInfo(customerInfoResult);
+      setOfferings(applyEnvironmentOffering(offeringsResult, activeEnvironment.current));
+    } catch (err) {
+      console.warn('📡 Background refresh failed, keeping current data:', err);
+      if (generation === configureGeneration.current) {
+        setIsStale(true);
+      }
+    }
+  };
+  
+  /**
+   * Run a store purchase and store the resulting customer info
+   */
+  const completePurchase = async (
+    packageToPurchase: PurchasesPackage,
+    purchase: (adapter: PurchasesAdapter) => Promise<MakePurchaseResult>
+  ) => {
     try {
       setError(null);
       console.log('🛒 Attempting purchase:', packageToPurchase.identifier);
       
-      const { customerInfo: updatedCustomerInfo } = await Purchases.purchasePackage(packageToPurchase);
+      const { customerInfo: updatedCustomerInfo } = await purchase(activeAdapter.current);
       setCustomerInfo(updatedCustomerInfo);
       
       console.log('✅ Purchase successful');
-    } catch (err: any) {
-      console.error('❌ Purchase failed:', err);
+    } catch (err) {
+      const purchaseError = toPurchaseError(err);
       
-      // Don't treat user cancellation as an error
-      if (!err.userCancelled) {
-        setError(err.message || 'Purchase failed');
-        throw err;
+      // Don't treat user cancellation as an error, but still reject so callers
+      // don't mistake it for a successful purchase
+      if (purchaseError.category === 'cancelled') {
+        console.log('🚫 Purchase cancelled by user');
+      } else {
+        console.error('❌ Purchase failed:', err);
+        setError(purchaseError);
       }
+      throw purchaseError;
+    }
+  };
+  
+  /**
+   * Purchase a package
+   */
+  const purchasePackage = (packageToPurchase: PurchasesPackage) =>
+    completePurchase(packageToPurchase, (activeStore) => activeStore.purchasePackage(packageToPurchase));
+  
+  /**
+   * Purchase a package at the price of a signed promotional offer
+   */
+  const purchaseDiscountedPackage = (packageToPurchase: PurchasesPackage, promotionalOffer: PurchasesPromotionalOffer) => {
+    console.log('🏷️ Applying promotional offer:', promotionalOffer.identifier);
+    return completePurchase(packageToPurchase, (activeStore) =>
+      activeStore.purchaseDiscountedPackage(packageToPurchase, promotionalOffer)
+    );
+  };
+  
+  /**
+   * Describe switching the active subscription to a package
+   */
+  const getPlanChange = (targetPackage: PurchasesPackage) =>
+    resolvePlanChange(customerInfo, offerings, targetPackage);
+  
+  /**
+   * Switch the active subscription to another plan
+   * On Google Play the purchase replaces the old subscription with the configured
+   * proration mode instead of starting a second one; the App Store replaces plans of
+   * one subscription group on its own. Deferred changes start at the next renewal.
+   */
+  const changePlan = async (targetPackage: PurchasesPackage): Promise<PlanChange> => {
+    const planChange = getPlanChange(targetPackage);
+    if (!planChange.available) {
+      throw new PurchaseError('notAllowed', `Can't change plan to ${targetPackage.product.identifier}: ${planChange.reason}`, {
+        code: PURCHASES_ERROR_CODE.PURCHASE_INVALID_ERROR,
+      });
+    }
+    
+    console.log(`🔁 Changing plan (${planChange.type}): ${planChange.fromProductIdentifier} → ${targetPackage.product.identifier}`);
+    await completePurchase(targetPackage, (activeStore) =>
+      activeStore.purchasePackage(targetPackage, planChange.googleProductChangeInfo)
+    );
+    return planChange;
+  };
+  
+  /**
+   * Sign a promotional offer for the current customer
+   * Failures are logged and treated as ineligible, so the regular price is shown instead.
+   */
+  const getPromotionalOffer = async (packageItem: PurchasesPackage, discountIdentifier: string) => {
+    const discount = packageItem.product.discounts?.find((d) => d.identifier === discountIdentifier);
+    if (!discount) return null;
+    
+    try {
+      return (await activeAdapter.current.getPromotionalOffer(packageItem.product, discount)) ?? null;
+    } catch (err) {
+      console.warn(`⚠️ Failed to sign promotional offer "${discountIdentifier}" for ${packageItem.product.identifier}:`, err);
+      return null;
+    }
+  };
+  
+  /**
+   * Show the App Store's offer code redemption sheet
+   * Redeemed codes arrive through the customer info listener.
+   */
+  const presentCodeRedemptionSheet = async () => {
+    try {
+      console.log('🎟️ Presenting offer code redemption sheet');
+      await activeAdapter.current.presentCodeRedemptionSheet();
+    } catch (err) {
+      console.error('❌ Failed to present the redemption sheet:', err);
+      throw toPurchaseError(err);
+    }
+  };
+  
+  /**
+   * Redeem a typed offer code
+   * In-memory stores redeem it right away; on Android, Google Play finishes the redemption
+   * and the purchase reaches the app like any purchase made outside it.
+   * Failures don't set the provider error, since a mistyped code doesn't affect the rest of the app.
+   */
+  const redeemOfferCode = async (code: string): Promise<OfferCodeRedemptionResult> => {
+    const activeStore = activeAdapter.current;
+    
+    try {
+      console.log('🎟️ Redeeming offer code');
+      if (activeStore.redeemOfferCode) {
+        setCustomerInfo(await activeStore.redeemOfferCode(code));
+        console.log('✅ Offer code redeemed');
+        return 'redeemed';
+      }
+      
+      if (getOfferCodeRedemptionMethod(activeStore) === 'playStore') {
+        await Linking.openURL(getPlayStoreRedeemUrl(code));
+        return 'openedStore';
+      }
+      
+      throw new PurchaseError('configuration', `Offer codes can't be typed in on ${Platform.OS}`, {
+        code: PURCHASES_ERROR_CODE.UNSUPPORTED_ERROR,
+      });
+    } catch (err) {
+      console.error('❌ Failed to redeem offer code:', err);
+      throw toPurchaseError(err);
+    }
+  };
+  
+  /**
+   * Open subscription management
+   * Changes made on the store's page arrive through the customer info listener
+   * (or the refresh when the app returns to the foreground).
+   */
+  const openSubscriptionManagement = async () => {
+    const activeStore = activeAdapter.current;
+    
+    try {
+      if (activeStore.cancelSubscriptions) {
+        console.log('⚙️ Cancelling subscriptions in the demo store');
+        setCustomerInfo(await activeStore.cancelSubscriptions());
+        console.log('✅ Subscriptions will not renew');
+        return;
+      }
+      
+      const url = getManagementURL(customerInfo);
+      if (!url) {
+        throw new PurchaseError('configuration', `Subscriptions can't be managed on ${Platform.OS}`, {
+          code: PURCHASES_ERROR_CODE.UNSUPPORTED_ERROR,
+        });
+      }
+      
+      console.log('⚙️ Opening subscription management:', url);
+      await Linking.openURL(url);
+    } catch (err) {
+      console.error('❌ Failed to open subscription management:', err);
+      throw toPurchaseError(err);
     }
   };
   
@@ -223,7 +893,7 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
       setError(null);
       console.log('🔄 Restoring purchases...');
       
-      if (Platform.OS === 'web') {
+      if (Platform.OS === 'web' && !isDemoMode) {
         // On web, purchases are typically restored automatically
         // Just refresh customer info instead
         await refreshCustomerInfo();
@@ -231,14 +901,15 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
         return;
       }
       
-      const customerInfoResult = await Purchases.restorePurchases();
+      const customerInfoResult = await activeAdapter.current.restorePurchases();
       setCustomerInfo(customerInfoResult);
       
       console.log('✅ Purchases restored successfully');
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ Failed to restore purchases:', err);
-      setError(err.message || 'Failed to restore purchases');
-      throw err;
+      const purchaseError = toPurchaseError(err);
+      setError(purchaseError);
+      throw purchaseError;
     }
   };
   
@@ -248,55 +919,131 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
   const refreshCustomerInfo = async () => {
     try {
       setError(null);
-      const customerInfoResult = await Purchases.getCustomerInfo();
+      const customerInfoResult = await activeAdapter.current.getCustomerInfo();
       setCustomerInfo(customerInfoResult);
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ Failed to refresh customer info:', err);
-      setError(err.message || 'Failed to refresh customer info');
+      setError(toPurchaseError(err));
+    }
+  };
+  
+  /**
+   * Read the current app user ID from the SDK
+   * Called after configuration and after every identity change
+   */
+  const syncIdentity = async () => {
+    try {
+      const [currentAppUserID, anonymous] = await Promise.all([
+        activeAdapter.current.getAppUserID(),
+        activeAdapter.current.isAnonymous(),
+      ]);
+      setAppUserID(currentAppUserID);
+      setIsAnonymous(anonymous);
+    } catch (err) {
+      console.error('❌ Failed to read app user ID:', err);
+    }
+  };
+  
+  /**
+   * Send pending attributes while they still go to the current user
+   * A failed sync doesn't block the identity change; those changes are dropped.
+   */
+  const flushAttributesBeforeIdentityChange = async () => {
+    try {
+      await attributeSyncer.flush();
+    } catch {
+      console.warn('⚠️ Pending subscriber attributes were not sent before switching users');
+    }
+  };
+  
+  /**
+   * Set custom subscriber attributes
+   */
+  const setAttributes = (attributes: Partial<Record<CustomAttributeKey, string | null>>) => {
+    attributeSyncer.set(attributes);
+  };
+  
+  const setEmail = (email: string | null) => {
+    attributeSyncer.set({ [EMAIL_ATTRIBUTE]: email });
+  };
+  
+  const setDisplayName = (displayName: string | null) => {
+    attributeSyncer.set({ [DISPLAY_NAME_ATTRIBUTE]: displayName });
+  };
+  
+  /**
+   * Log in with your own user ID
+   * Purchases made while anonymous are transferred to the user when RevenueCat allows it
+   */
+  const logIn = async (userId: string) => {
+    try {
+      setError(null);
+      console.log('👤 Logging in user:', userId);
+      await flushAttributesBeforeIdentityChange();
+      
+      const { customerInfo: updatedCustomerInfo } = await activeAdapter.current.logIn(userId);
+      setCustomerInfo(updatedCustomerInfo);
+      await syncIdentity();
+      
+      console.log('✅ User logged in successfully');
+    } catch (err) {
+      console.error('❌ Login failed:', err);
+      const purchaseError = toPurchaseError(err);
+      setError(purchaseError);
+      throw purchaseError;
+    }
+  };
+  
+  /**
+   * Log out the current user
+   * RevenueCat generates a new anonymous ID afterwards
+   */
+  const logOut = async () => {
+    try {
+      setError(null);
+      console.log('👤 Logging out user...');
+      await flushAttributesBeforeIdentityChange();
+      
+      const updatedCustomerInfo = await activeAdapter.current.logOut();
+      
+      // Don't keep the previous user's data on the device
+      if (persistCache) {
+        await clearPurchasesCache();
+      }
+      setCustomerInfo(updatedCustomerInfo);
+      await syncIdentity();
+      
+      console.log('✅ User logged out successfully');
+    } catch (err) {
+      console.error('❌ Logout failed:', err);
+      const purchaseError = toPurchaseError(err);
+      setError(purchaseError);
+      throw purchaseError;
     }
   };
   
   /**
-   * OPTIONAL: User Login
-   * Uncomment this section if you enable USE_USER_IDENTIFICATION in constants/RevenueCat.ts
-   * 
-   * const logIn = async (userId: string) => {
-   *   try {
-   *     setError(null);
-   *     console.log('👤 Logging in user:', userId);
-   *     
-   *     const { customerInfo: updatedCustomerInfo } = await Purchases.logIn(userId);
-   *     setCustomerInfo(updatedCustomerInfo);
-   *     
-   *     console.log('✅ User logged in successfully');
-   *   } catch (err: any) {
-   *     console.error('❌ Login failed:', err);
-   *     setError(err.message || 'Login failed');
-   *     throw err;
-   *   }
-   * };
-   */
-  
-  /**
-   * OPTIONAL: User Logout
-   * Uncomment this section if you enable USE_USER_IDENTIFICATION in constants/RevenueCat.ts
-   * 
-   * const logOut = async () => {
-   *   try {
-   *     setError(null);
-   *     console.log('👤 Logging out user...');
-   *     
-   *     const { customerInfo: updatedCustomerInfo } = await Purchases.logOut();
-   *     setCustomerInfo(updatedCustomerInfo);
-   *     
-   *     console.log('✅ User logged out successfully');
-   *   } catch (err: any) {
-   *     console.error('❌ Logout failed:', err);
-   *     setError(err.message || 'Logout failed');
-   *     throw err;
-   *   }
-   * };
+   * Switch to another environment profile without reinstalling the app
+   * Drops everything loaded from the previous environment, including the
+   * persisted cache, then configures the SDK again.
    */
+  const switchEnvironment = async (environmentId: string) => {
+    console.log('🌐 Switching environment to:', environmentId);
+    await flushAttributesBeforeIdentityChange();
+    await saveEnvironmentId(environmentId);
+    
+    if (persistCache) {
+      await clearPurchasesCache();
+    }
+    setIsInitialized(false);
+    setCustomerInfoState(null);
+    setOfferings(null);
+    setIntroEligibility({});
+    setLastSyncedAt(null);
+    setIsStale(false);
+    
+    await initializeRevenueCat(environmentId);
+  };
   
   // Context value
   const value: RevenueCatContextType = {
@@ -308,15 +1055,64 @@ export function RevenueCatProvider({ children }: RevenueCatProviderProps) {
     offerings,
     currentOffering,
     isPremium,
+    currentTier,
+    isDemoMode,
+    configReport,
+    environment,
+    switchEnvironment,
+    
+    // Sync status
+    lastSyncedAt,
+    isStale,
+    introEligibility,
+    
+    // Identity
+    appUserID,
+    isAnonymous,
+    experimentAssignments,
+    analytics,
+    sdkCallLog,
     
     // Actions
     purchasePackage,
     restorePurchases,
     refreshCustomerInfo,
     
-    // Optional: Uncomment if you enable user identification
-    // logIn,
-    // logOut,
+    // Promotional offers
+    getPromotionalOffer,
+    purchaseDiscountedPackage,
+    
+    // Offer codes
+    offerCodeRedemptionMethod,
+    presentCodeRedemptionSheet,
+    redeemOfferCode,
+    
+    // Subscription management
+    subscriptionManagementMethod,
+    openSubscriptionManagement,
+    
+    // Plan changes
+    getPlanChange,
+    changePlan,
+    
+    // User identification
+    logIn,
+    logOut,
+    
+    // Subscriber attributes
+    subscriberAttributes,
+    setAttributes,
+    setEmail,
+    setDisplayName,
+    flushAttributes: attributeSyncer.flush,
+    
+    // Credits
+    credits,
+    creditPacks,
+    spendCredits: creditLedger.spend,
+    
+    // Subscriptions
+    addCustomerInfoListener,
   };
   
   return (
@@ -0,0 +1,227 @@
+/**
+ * SDK Call Timeline
+ *
+ * Shows the calls recorded in an SDK call log (lib/sdkCallLog.ts), newest
+ * first, with their duration, outcome and error code. Filters narrow the list
+ * to errors, one group of calls or the customer info updates pushed by the
+ * backend; tapping a call shows its arguments and result.
+ *
+ * The entries live in the log, not in this component, so they're still there
+ * after navigating away and back.
+ */
+
+import { useState, useSyncExternalStore } from 'react';
+import { Platform, ScrollView, StyleSheet, TouchableOpacity, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { SdkCallLog, SdkCallLogEntry, SdkCallStatus } from '@/lib/sdkCallLog';
+
+type TimelineFilter = 'all' | 'errors' | 'data' | 'purchases' | 'identity' | 'events';
+
+const FILTERS: { id: TimelineFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'errors', label: '❌ Errors' },
+  { id: 'data', label: 'Data' },
+  { id: 'purchases', label: 'Purchases' },
+  { id: 'identity', label: 'Identity' },
+  { id: 'events', label: 'Updates' },
+];
+
+// Adapter methods in each filter group
+const METHOD_GROUPS: Record<'data' | 'purchases' | 'identity', string[]> = {
+  data: ['configure', 'getCustomerInfo', 'getOfferings', 'checkTrialOrIntroductoryPriceEligibility'],
+  purchases: [
+    'purchasePackage',
+    'purchaseDiscountedPackage',
+    'restorePurchases',
+    'getPromotionalOffer',
+    'presentCodeRedemptionSheet',
+    'redeemOfferCode',
+    'cancelSubscriptions',
+  ],
+  identity: ['logIn', 'logOut', 'getAppUserID', 'isAnonymous', 'setAttributes', 'setEmail', 'setDisplayName'],
+};
+
+const STATUS_ICONS: Record<SdkCallStatus, string> = {
+  pending: '⏳',
+  success: '✅',
+  error: '❌',
+};
+
+const MONOSPACE_FONT = Platform.select({
+  ios: 'Menlo',
+  android: 'monospace',
+  web: 'Monaco, Consolas, "Lucida Console", monospace',
+});
+
+// Newest entries rendered; the log itself keeps SDK_CALL_LOG_CONFIG.CAPACITY
+const VISIBLE_ENTRIES = 50;
+
+const matchesFilter = (entry: SdkCallLogEntry, filter: TimelineFilter) => {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'errors':
+      return entry.status === 'error';
+    case 'events':
+      return entry.kind === 'event';
+    default:
+      return entry.kind === 'call' && METHOD_GROUPS[filter].includes(entry.method);
+  }
+};
+
+// Local time with milliseconds, e.g. 14:03:27.118
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.toTimeString().slice(0, 8)}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+export function SdkCallTimeline({ log, style }: { log: SdkCallLog; style?: StyleProp<ViewStyle> }) {
+  const entries = useSyncExternalStore(log.subscribe, log.getEntries);
+  const [filter, setFilter] = useState<TimelineFilter>('all');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const visibleEntries = entries
+    .filter((entry) => matchesFilter(entry, filter))
+    .slice(-VISIBLE_ENTRIES)
+    .reverse();
+
+  return (
+    <ThemedView style={style}>
+      <View style={styles.header}>
+        <ThemedText type="defaultSemiBold">SDK Calls ({entries.length})</ThemedText>
+        <TouchableOpacity style={styles.chip} onPress={log.clear} disabled={entries.length === 0}>
+          <ThemedText style={styles.chipText}>Clear</ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filters}>
+        {FILTERS.map(({ id, label }) => (
+          <TouchableOpacity
+            key={id}
+            style={[styles.chip, filter === id && styles.selectedChip]}
+            onPress={() => setFilter(id)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: filter === id }}
+          >
+            <ThemedText style={[styles.chipText, filter === id && styles.selectedChipText]}>{label}</ThemedText>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {visibleEntries.length === 0 && (
+        <ThemedText style={styles.empty}>
+          {entries.length === 0 ? 'No SDK calls recorded yet' : 'No calls match this filter'}
+        </ThemedText>
+      )}
+
+      {visibleEntries.map((entry) => {
+        const isExpanded = entry.id === expandedId;
+        return (
+          <TouchableOpacity
+            key={entry.id}
+            style={[styles.entry, entry.status === 'error' && styles.errorEntry]}
+            onPress={() => setExpandedId(isExpanded ? null : entry.id)}
+          >
+            <View style={styles.entryHeader}>
+              <ThemedText style={styles.method} numberOfLines={1}>
+                {entry.kind === 'event' ? '📱' : STATUS_ICONS[entry.status]} {entry.method}
+              </ThemedText>
+              <ThemedText style={styles.meta}>
+                {entry.durationMs != null ? `${entry.durationMs} ms · ` : ''}
+                {formatTime(entry.startedAt)}
+              </ThemedText>
+            </View>
+            {entry.status === 'error' && (
+              <ThemedText style={styles.errorText} numberOfLines={isExpanded ? undefined : 1}>
+                {entry.errorCode != null ? `Code ${entry.errorCode}: ` : ''}
+                {entry.errorMessage}
+              </ThemedText>
+            )}
+            {isExpanded && (
+              <View style={styles.details}>
+                <ThemedText style={styles.detailText}>Source: {entry.source}</ThemedText>
+                {entry.kind === 'call' && (
+                  <ThemedText style={styles.detailText}>Arguments: {entry.args || 'none'}</ThemedText>
+                )}
+                {entry.result != null && (
+                  <ThemedText style={styles.detailText}>Result: {entry.result}</ThemedText>
+                )}
+              </View>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  filters: {
+    gap: 6,
+    paddingBottom: 8,
+  },
+  chip: {
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  selectedChip: {
+    backgroundColor: 'rgba(0, 122, 255, 0.2)',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  selectedChipText: {
+    color: '#007AFF',
+  },
+  empty: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  entry: {
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(128, 128, 128, 0.2)',
+    paddingVertical: 6,
+  },
+  errorEntry: {
+    backgroundColor: 'rgba(255, 59, 48, 0.08)',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  method: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontFamily: MONOSPACE_FONT,
+  },
+  meta: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF3B30',
+  },
+  details: {
+    marginTop: 4,
+    gap: 2,
+  },
+  detailText: {
+    fontSize: 11,
+    fontFamily: MONOSPACE_FONT,
+    opacity: 0.8,
+  },
+});
@@ -0,0 +1,235 @@
+/**
+ * Subscription Details Card
+ *
+ * Shows the customer's entitlements the way a subscriber reads them: plan,
+ * store, when it renews or ends, trial and intro periods, billing issues,
+ * cancellations, sandbox purchases and Family Sharing. Built from
+ * EntitlementInfo with lib/subscriptionLifecycle.ts and localized.
+ *
+ * Lists every active entitlement, or the most recently expired one when
+ * nothing is active. Renders nothing for customers who never bought anything.
+ */
+
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+import { PurchasesEntitlementInfo } from 'react-native-purchases';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { DemoModeBadge } from '@/components/DemoModeBadge';
+import { useRevenueCat } from '@/components/RevenueCatProvider';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatDate } from '@/lib/i18n';
+import {
+  SubscriptionState,
+  findEntitlementProduct,
+  getDisplayedEntitlements,
+  getSubscriptionLifecycle,
+} from '@/lib/subscriptionLifecycle';
+
+const STATE_COLORS: Record<SubscriptionState, string> = {
+  billingIssue: '#FF3B30',
+  cancelled: '#FF9500',
+  trial: '#34C759',
+  intro: '#34C759',
+  active: '#34C759',
+  lifetime: '#34C759',
+  expired: '#8E8E93',
+};
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.row}>
+      <ThemedText style={styles.label}>{label}</ThemedText>
+      <ThemedText style={styles.value}>{value}</ThemedText>
+    </View>
+  );
+}
+
+function EntitlementDetails({ entitlement }: { entitlement: PurchasesEntitlementInfo }) {
+  const { offerings } = useRevenueCat();
+  const { t, languageTag } = useTranslation();
+
+  const lifecycle = getSubscriptionLifecycle(entitlement);
+  const product = findEntitlementProduct(entitlement, offerings);
+  const date = (value: Date) => formatDate(value, languageTag);
+
+  const planName = product?.title ?? lifecycle.productIdentifier;
+  const periodEndsAt = lifecycle.periodEndsAt;
+
+  return (
+    <View style={styles.entitlement}>
+      <View style={styles.entitlementHeader}>
+        <ThemedText type="defaultSemiBold" style={styles.planName} numberOfLines={1}>
+          {planName}
+        </ThemedText>
+        <View style={[styles.stateBadge, { backgroundColor: STATE_COLORS[lifecycle.state] }]}>
+          <ThemedText style={styles.stateBadgeText}>
+            {t(`subscription.state.${lifecycle.state}`)}
+          </ThemedText>
+        </View>
+      </View>
+
+      {lifecycle.state === 'billingIssue' && (
+        <ThemedText style={[styles.notice, styles.billingIssueNotice]}>
+          {t('subscription.notice.billingIssue')}
+        </ThemedText>
+      )}
+      {lifecycle.state === 'cancelled' && periodEndsAt && (
+        <ThemedText style={[styles.notice, styles.cancelledNotice]}>
+          {t('subscription.notice.cancelled', { date: date(periodEndsAt) })}
+        </ThemedText>
+      )}
+
+      <DetailRow label={t('subscription.row.entitlement')} value={lifecycle.entitlementId} />
+      {product && (
+        <DetailRow
+          label={t('subscription.row.product')}
+          value={lifecycle.productPlanIdentifier
+            ? `${lifecycle.productIdentifier} (${lifecycle.productPlanIdentifier})`
+            : lifecycle.productIdentifier}
+        />
+      )}
+      <DetailRow label={t('subscription.row.store')} value={t(`subscription.store.${lifecycle.store}`)} />
+
+      {periodEndsAt ? (
+        <DetailRow
+          label={t(
+            !lifecycle.isActive
+              ? 'subscription.row.expired'
+              : lifecycle.willRenew
+                ? 'subscription.row.renews'
+                : 'subscription.row.expires'
+          )}
+          value={date(periodEndsAt)}
+        />
+      ) : (
+        <DetailRow label={t('subscription.row.expires')} value={t('subscription.never')} />
+      )}
+
+      {periodEndsAt && lifecycle.isActive && (
+        <DetailRow
+          label={t('subscription.row.autoRenew')}
+          value={t(lifecycle.willRenew ? 'subscription.autoRenew.on' : 'subscription.autoRenew.off')}
+        />
+      )}
+      {periodEndsAt && (
+        <DetailRow
+          label={t('subscription.row.period')}
+          value={t(`subscription.period.${lifecycle.periodType}`)}
+        />
+      )}
+      {lifecycle.billingIssueDetectedAt && (
+        <DetailRow
+          label={t('subscription.row.billingIssue')}
+          value={date(lifecycle.billingIssueDetectedAt)}
+        />
+      )}
+      {lifecycle.unsubscribeDetectedAt && (
+        <DetailRow
+          label={t('subscription.row.unsubscribed')}
+          value={date(lifecycle.unsubscribeDetectedAt)}
+        />
+      )}
+      <DetailRow label={t('subscription.row.since')} value={date(lifecycle.originalPurchaseAt)} />
+      <DetailRow
+        label={t('subscription.row.ownership')}
+        value={t(`subscription.ownership.${lifecycle.ownershipType}`)}
+      />
+      <DetailRow
+        label={t('subscription.row.environment')}
+        value={t(lifecycle.isSandbox ? 'subscription.environment.sandbox' : 'subscription.environment.production')}
+      />
+    </View>
+  );
+}
+
+export function SubscriptionDetailsCard({ style }: { style?: StyleProp<ViewStyle> }) {
+  const { customerInfo } = useRevenueCat();
+  const { t, isRTL } = useTranslation();
+
+  const entitlements = getDisplayedEntitlements(customerInfo);
+  if (entitlements.length === 0) {
+    return null;
+  }
+
+  return (
+    <ThemedView style={[styles.card, { direction: isRTL ? 'rtl' : 'ltr' }, style]}>
+      <View style={styles.cardHeader}>
+        <ThemedText type="subtitle">{t('subscription.title')}</ThemedText>
+        <DemoModeBadge />
+      </View>
+      {entitlements.map((entitlement) => (
+        <EntitlementDetails key={entitlement.identifier} entitlement={entitlement} />
+      ))}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(128, 128, 128, 0.2)',
+    gap: 16,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  entitlement: {
+    gap: 6,
+  },
+  entitlementHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 4,
+  },
+  planName: {
+    flexShrink: 1,
+    fontSize: 16,
+  },
+  stateBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  stateBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: 'bold',
+  },
+  notice: {
+    fontSize: 14,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 4,
+  },
+  billingIssueNotice: {
+    backgroundColor: 'rgba(255, 59, 48, 0.1)',
+  },
+  cancelledNotice: {
+    backgroundColor: 'rgba(255, 149, 0, 0.1)',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  value: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
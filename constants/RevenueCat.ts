@@ -19,6 +19,8 @@
  * public keys designed for client-side use.
  */
 
+import { PRORATION_MODE } from "react-native-purchases";
+
 export const REVENUECAT_CONFIG = {
   /**
    * 🧪 TEST STORE API KEY (RECOMMENDED FOR GETTING STARTED)
@@ -48,6 +50,8 @@ export const REVENUECAT_CONFIG = {
    * Configure your entitlement identifier
    * This should match the entitlement identifier you create in the RevenueCat dashboard
    * Configure entitlements in RevenueCat Dashboard > Entitlements
+   *
+   * Selling several tiers (e.g. Basic and Pro)? See ENTITLEMENT_TIERS below.
    */
   ENTITLEMENT_ID: process.env.REVENUECAT_ENTITLEMENT_ID || "premium", // Common examples: 'premium', 'pro', 'all_access'
 
@@ -65,91 +69,289 @@ export const REVENUECAT_CONFIG = {
 
   /**
    * Optional: User identification
-   * Set to true if you want to identify users with your own user IDs
+   * Set to true if you want to identify users with your own user IDs.
+   * This shows the login/logout section on the Profile screen; logIn and logOut
+   * are always available from useRevenueCat() and usePurchases().
    * Learn more: https://docs.revenuecat.com/docs/user-ids
    */
   USE_USER_IDENTIFICATION: false,
 };
 
+/**
+ * Environment profiles
+ * Named RevenueCat setups that QA can switch between at runtime from the
+ * Profile tab, without reinstalling the app. Each profile picks the store mode
+ * and can override the API keys, the entitlement and the offering shown as
+ * current. Switching clears cached purchases data and re-configures the SDK.
+ *
+ * Only debug builds (DEBUG_MODE) show the switcher and remember the choice;
+ * release builds always start in DEFAULT_ENVIRONMENT_ID.
+ */
+export type ApiKeyPlatform = "test" | "ios" | "android" | "web";
+
+export interface EnvironmentProfile {
+  id: string;
+  /** Display name shown in the switcher */
+  name: string;
+  /** RevenueCat test store, or the real stores (sandbox accounts in TestFlight and testing tracks) */
+  useTestStore: boolean;
+  /** Keys used instead of the ones in REVENUECAT_CONFIG, e.g. for a staging project */
+  apiKeys?: Partial<Record<ApiKeyPlatform, string>>;
+  /** Entitlement used instead of REVENUECAT_CONFIG.ENTITLEMENT_ID, tiers included */
+  entitlementId?: string;
+  /** Offering shown instead of the current offering set in the dashboard */
+  offeringId?: string;
+}
+
+export const ENVIRONMENT_PROFILES: EnvironmentProfile[] = [
+  {
+    id: "test",
+    name: "Test Store",
+    useTestStore: true,
+  },
+  {
+    id: "sandbox",
+    name: "Sandbox",
+    useTestStore: false,
+    // Optional keys of a separate RevenueCat project for sandbox testing, set with
+    // Replit Secrets; platforms without one use the production keys above
+    apiKeys: {
+      ios: process.env.REVENUECAT_SANDBOX_IOS_API_KEY,
+      android: process.env.REVENUECAT_SANDBOX_ANDROID_API_KEY,
+      web: process.env.REVENUECAT_SANDBOX_WEB_API_KEY,
+    },
+  },
+  {
+    id: "production",
+    name: "Production",
+    useTestStore: false,
+  },
+];
+
+export const DEFAULT_ENVIRONMENT_ID = REVENUECAT_CONFIG.USE_TEST_STORE ? "test" : "production";
+
+/**
+ * Get an environment profile by identifier
+ * Unknown identifiers (e.g. a removed profile) fall back to the default environment.
+ */
+export const getEnvironmentProfile = (id: string | null): EnvironmentProfile =>
+  ENVIRONMENT_PROFILES.find((profile) => profile.id === id) ??
+  ENVIRONMENT_PROFILES.find((profile) => profile.id === DEFAULT_ENVIRONMENT_ID) ?? {
+    id: DEFAULT_ENVIRONMENT_ID,
+    name: DEFAULT_ENVIRONMENT_ID,
+    useTestStore: REVENUECAT_CONFIG.USE_TEST_STORE,
+  };
+
+/**
+ * Get the entitlement an environment grants premium access with
+ */
+export const getEnvironmentEntitlementId = (
+  environment: EnvironmentProfile = getEnvironmentProfile(DEFAULT_ENVIRONMENT_ID)
+): string => environment.entitlementId || REVENUECAT_CONFIG.ENTITLEMENT_ID;
+
+/**
+ * Entitlement tiers
+ * Ordered from lowest to highest. Each tier lists the RevenueCat entitlement
+ * identifiers that unlock it; a customer's tier is the highest one with an
+ * active entitlement. Customers without any active tier are on "free".
+ *
+ * Apps with a single paid level can keep the default, which maps
+ * ENTITLEMENT_ID to a "premium" tier. For Basic and Pro plans, for example:
+ *
+ * export const ENTITLEMENT_TIERS = [
+ *   { id: "basic", name: "Basic", entitlementIds: ["basic"] },
+ *   { id: "pro", name: "Pro", entitlementIds: ["pro"] },
+ * ] as const satisfies readonly EntitlementTierConfig[];
+ */
+export interface EntitlementTierConfig {
+  /** Tier identifier used in code, e.g. useTier().atLeast("pro") */
+  id: string;
+  /** Display name shown in the UI */
+  name: string;
+  /** Entitlement identifiers (as configured in the RevenueCat dashboard) that grant this tier */
+  entitlementIds: readonly string[];
+}
+
+export const ENTITLEMENT_TIERS = [
+  {
+    id: "premium",
+    name: "Premium",
+    entitlementIds: [REVENUECAT_CONFIG.ENTITLEMENT_ID],
+  },
+] as const satisfies readonly EntitlementTierConfig[];
+
+export const FREE_TIER = "free";
+
+export type TierId = (typeof ENTITLEMENT_TIERS)[number]["id"] | typeof FREE_TIER;
+
 /**
  * Platform-specific configuration helper
  * Automatically selects the correct API key based on the current platform
  */
 import { Platform } from "react-native";
 
-export const getPlatformApiKey = (): string => {
-  // Use test store API key if enabled (works on all platforms!)
-  if (REVENUECAT_CONFIG.USE_TEST_STORE) {
-    return REVENUECAT_CONFIG.TEST_API_KEY;
-  }
-
-  // Use platform-specific production API keys
-  switch (Platform.OS) {
-    case "ios":
-      return REVENUECAT_CONFIG.IOS_API_KEY;
-    case "android":
-      return REVENUECAT_CONFIG.ANDROID_API_KEY;
-    case "web":
-      return REVENUECAT_CONFIG.WEB_API_KEY;
-    default:
-      console.warn(
-        `Unsupported platform: ${Platform.OS}. Falling back to iOS API key.`
-      );
-      return REVENUECAT_CONFIG.IOS_API_KEY;
-  }
-};
+// API key setting of each store mode / platform, with the prefix RevenueCat gives its keys
+const API_KEYS = {
+  test: { name: "TEST_API_KEY", prefix: "test_" },
+  ios: { name: "IOS_API_KEY", prefix: "appl_" },
+  android: { name: "ANDROID_API_KEY", prefix: "goog_" },
+  web: { name: "WEB_API_KEY", prefix: "rcb_" },
+} as const satisfies Record<ApiKeyPlatform, { name: keyof typeof REVENUECAT_CONFIG; prefix: string }>;
 
 /**
- * Validation helper to check if API keys are configured
- * This helps identify configuration issues during development
- */
-export const validateRevenueCatConfig = (): boolean => {
-  const apiKey = getPlatformApiKey();
-
-  if (!apiKey || apiKey.includes("your_") || apiKey.includes("_here")) {
-    if (REVENUECAT_CONFIG.USE_TEST_STORE) {
-      console.error("🧪 RevenueCat TEST API key not configured!");
-      console.error("Please update constants/RevenueCat.ts with your test API key");
-      console.error("Get your test API key (starts with 'test_') from:");
-      console.error("https://app.revenuecat.com/projects/[your-project]/api-keys");
-    } else {
-      console.error(
-        "⚠️ RevenueCat production API key not configured for platform:",
-        Platform.OS
-      );
-      console.error(
-        "Please update constants/RevenueCat.ts with your production API keys"
-      );
-      console.error(
-        "Get your API keys from: https://app.revenuecat.com/projects/[your-project]/api-keys"
-      );
-    }
-    return false;
-  }
+ * Find the API key an environment uses on a platform
+ * Test store keys work on every platform; production keys on other platforms
+ * fall back to the iOS key.
+ */
+const resolveApiKey = (environment: EnvironmentProfile, platform: string) => {
+  const keyPlatform: ApiKeyPlatform = environment.useTestStore
+    ? "test"
+    : platform === "android" || platform === "web"
+      ? platform
+      : "ios";
+  const override = environment.apiKeys?.[keyPlatform];
 
-  // Check if API key format is correct
-  if (REVENUECAT_CONFIG.USE_TEST_STORE && !apiKey.startsWith("test_")) {
-    console.warn("⚠️ Test store is enabled but API key doesn't start with 'test_'");
-    console.warn("Make sure you're using a test API key for development");
-  }
+  return {
+    ...API_KEYS[keyPlatform],
+    // Where the key is set, for messages
+    name: override
+      ? `apiKeys.${keyPlatform} of the "${environment.id}" environment`
+      : API_KEYS[keyPlatform].name,
+    value: override || REVENUECAT_CONFIG[API_KEYS[keyPlatform].name],
+  };
+};
 
-  if (
-    !REVENUECAT_CONFIG.ENTITLEMENT_ID ||
-    REVENUECAT_CONFIG.ENTITLEMENT_ID === "premium"
-  ) {
+export const getPlatformApiKey = (
+  environment: EnvironmentProfile = getEnvironmentProfile(DEFAULT_ENVIRONMENT_ID)
+): string => {
+  if (!environment.useTestStore && !["ios", "android", "web"].includes(Platform.OS)) {
     console.warn(
-      "⚠️ Using default entitlement ID. Consider updating to match your RevenueCat configuration."
+      `Unsupported platform: ${Platform.OS}. Falling back to iOS API key.`
     );
   }
+  return resolveApiKey(environment, Platform.OS).value;
+};
+
+/**
+ * Configuration diagnostics
+ * validateRevenueCatConfig() checks the settings above and reports each finding:
+ * - "error": RevenueCat can't be configured (the app runs in demo mode)
+ * - "warning": RevenueCat starts, but something is likely misconfigured
+ * - "info": a default worth reviewing before launch
+ */
+export type ConfigSeverity = "error" | "warning" | "info";
+
+export type ConfigCheckId =
+  | "apiKeyPresent"
+  | "apiKeyPrefix"
+  | "defaultEntitlement"
+  | "placeholderProductIds"
+  | "unsupportedPlatform";
+
+export interface ConfigCheck {
+  id: ConfigCheckId;
+  /** Severity of the finding when the check fails */
+  severity: ConfigSeverity;
+  passed: boolean;
+  /** What was checked, e.g. "API key" */
+  label: string;
+  /** The outcome, with how to fix it when the check fails */
+  message: string;
+}
+
+export interface ConfigReport {
+  /** False when any "error" check failed */
+  isValid: boolean;
+  storeMode: "test" | "production";
+  platform: string;
+  checks: ConfigCheck[];
+}
+
+// Platforms react-native-purchases runs on
+const SUPPORTED_PLATFORMS = ["ios", "android", "web"];
+
+export const isPlaceholder = (value: string) => value.includes("your_") || value.includes("_here");
+
+/**
+ * Check the RevenueCat configuration of an environment on a platform
+ * Nothing is logged; show the report (the Profile tab does) or log its failed checks.
+ */
+export const validateRevenueCatConfig = (
+  platform: string = Platform.OS,
+  environment: EnvironmentProfile = getEnvironmentProfile(DEFAULT_ENVIRONMENT_ID)
+): ConfigReport => {
+  const storeMode = environment.useTestStore ? "test" : "production";
+  const expectedKey = resolveApiKey(environment, platform);
+  const apiKey = expectedKey.value;
+  const entitlementId = getEnvironmentEntitlementId(environment);
+  const hasApiKey = !!apiKey && !isPlaceholder(apiKey);
+  const placeholderProducts = Object.entries(PRODUCT_IDS)
+    .filter(([, productId]) => isPlaceholder(productId))
+    .map(([name]) => name);
 
-  // Log current mode for clarity
-  if (REVENUECAT_CONFIG.USE_TEST_STORE) {
-    console.log("🧪 Running in TEST STORE mode - perfect for development!");
-  } else {
-    console.log("🏪 Running in PRODUCTION STORE mode");
+  const checks: ConfigCheck[] = [
+    {
+      id: "unsupportedPlatform",
+      severity: "error",
+      passed: SUPPORTED_PLATFORMS.includes(platform),
+      label: "Platform",
+      message: SUPPORTED_PLATFORMS.includes(platform)
+        ? `${platform} is supported`
+        : `${platform} isn't supported by react-native-purchases (iOS, Android and web are)`,
+    },
+    {
+      id: "apiKeyPresent",
+      severity: "error",
+      passed: hasApiKey,
+      label: "API key",
+      message: hasApiKey
+        ? `${expectedKey.name} is set`
+        : `${expectedKey.name} isn't set. Add your key (starts with "${expectedKey.prefix}") to constants/RevenueCat.ts`,
+    },
+  ];
+
+  if (hasApiKey) {
+    const prefixMatches = apiKey.startsWith(expectedKey.prefix);
+    checks.push({
+      id: "apiKeyPrefix",
+      severity: "warning",
+      passed: prefixMatches,
+      label: "API key type",
+      message: prefixMatches
+        ? `${expectedKey.name} matches the ${storeMode} store`
+        : `${expectedKey.name} doesn't start with "${expectedKey.prefix}", the prefix of ${storeMode} store keys`,
+    });
   }
 
-  return true;
+  const usesDefaultEntitlement = !entitlementId || entitlementId === "premium";
+  checks.push(
+    {
+      id: "defaultEntitlement",
+      severity: "info",
+      passed: !usesDefaultEntitlement,
+      label: "Entitlement",
+      message: usesDefaultEntitlement
+        ? `Using the default entitlement "premium". Make sure it matches your RevenueCat dashboard`
+        : `Using entitlement "${entitlementId}"`,
+    },
+    {
+      id: "placeholderProductIds",
+      severity: "warning",
+      passed: placeholderProducts.length === 0,
+      label: "Product IDs",
+      message:
+        placeholderProducts.length === 0
+          ? "Product IDs are set"
+          : `PRODUCT_IDS still has placeholders: ${placeholderProducts.join(", ")}`,
+    }
+  );
+
+  return {
+    isValid: checks.every((check) => check.passed || check.severity !== "error"),
+    storeMode,
+    platform,
+    checks,
+  };
 };
 
 /**
@@ -180,3 +382,221 @@ export const PACKAGE_TYPES = {
 } as const;
 
 export type PackageType = (typeof PACKAGE_TYPES)[keyof typeof PACKAGE_TYPES];
+
+/**
+ * Paywall placements
+ * Maps where the paywall is opened from to the offering identifier it shows.
+ * Use null to show the current offering (set in the RevenueCat dashboard).
+ * Offerings that don't exist fall back to the current offering.
+ *
+ * Open the paywall for a placement with:
+ * router.push({ pathname: "/paywall", params: { placement: "settings" } });
+ */
+export const PAYWALL_PLACEMENTS: Record<string, string | null> = {
+  // TODO: Replace with your offering identifiers
+  onboarding: null, // e.g., 'onboarding_trial'
+  home: null,
+  settings: null,
+  locked_feature: null, // shown by PremiumRouteGuard, e.g., 'feature_unlock'
+  retention: null, // offered in the exit survey, e.g., 'retention_discount'
+};
+
+/**
+ * Paywall experiments
+ * Client-side A/B tests of paywall variants. Users are assigned to a variant
+ * from a hash of their RevenueCat app user ID and the variant weights, so the
+ * same user always sees the same variant. See lib/experiments.ts.
+ *
+ * Weights are relative (50/50, 1/1 and 10/10 are all even splits). Assignments
+ * are stored on the device and kept when weights change; renaming a variant or
+ * switching users reassigns.
+ */
+export interface PaywallVariantConfig {
+  /** "price" lists plans by monthly cost (default), "priceDescending" reverses that order */
+  packageOrder?: "price" | "priceDescending";
+  /** Package identifier selected when the paywall opens */
+  defaultPackage?: string;
+  /** Copy as a string or keyed by language, e.g. { en: "Go Pro", es: "Hazte Pro" } */
+  title?: string | Record<string, string>;
+  subtitle?: string | Record<string, string>;
+  /** "full" shows features and plan descriptions (default), "compact" shows plans only */
+  layout?: "full" | "compact";
+}
+
+export interface ExperimentVariantConfig {
+  id: string;
+  weight: number;
+  /** Paywall changes for this variant. Leave empty for the control group. */
+  paywall?: PaywallVariantConfig;
+}
+
+export interface ExperimentConfig {
+  id: string;
+  /** Only enabled experiments assign variants */
+  enabled: boolean;
+  variants: readonly ExperimentVariantConfig[];
+}
+
+export const EXPERIMENTS: readonly ExperimentConfig[] = [
+  {
+    // TODO: Enable to test selecting the monthly plan by default
+    id: "paywall_default_plan",
+    enabled: false,
+    variants: [
+      { id: "control", weight: 50 },
+      {
+        id: "monthly_compact",
+        weight: 50,
+        paywall: { defaultPackage: PACKAGE_TYPES.MONTHLY, layout: "compact" },
+      },
+    ],
+  },
+];
+
+/**
+ * Analytics
+ * Purchase-funnel events (paywall views, package selection, purchases and
+ * restores) are sent to these sinks. See lib/analytics.ts.
+ *
+ * You can also set the endpoint using Replit Secrets: ANALYTICS_ENDPOINT
+ */
+export const ANALYTICS_CONFIG = {
+  // Events are POSTed here in batches as { events: [...] }. Leave empty to disable.
+  ENDPOINT: process.env.ANALYTICS_ENDPOINT || "",
+  // Events per request
+  BATCH_SIZE: 20,
+  // How long events wait for a full batch before being sent anyway
+  FLUSH_INTERVAL_MS: 10_000,
+  // Oldest events are dropped when more than this many are waiting (e.g. offline)
+  MAX_QUEUE_SIZE: 500,
+  // Log every event to the console
+  LOG_EVENTS: __DEV__,
+};
+
+/**
+ * SDK call log
+ * Ring buffer of the calls made to RevenueCat (arguments, timing, outcome,
+ * error code) and of customer info updates, shown as a timeline in the
+ * Profile tab's debug section. See lib/sdkCallLog.ts.
+ */
+export const SDK_CALL_LOG_CONFIG = {
+  // Record calls. Turn on in release builds only for support sessions.
+  ENABLED: __DEV__,
+  // Oldest entries are dropped beyond this many
+  CAPACITY: 200,
+};
+
+/**
+ * Credit packs
+ * Consumable products that add virtual credits to the on-device ledger
+ * (lib/credits.ts), keyed by store product identifier. Create them as
+ * consumables in App Store Connect and Google Play, don't attach them to an
+ * entitlement, and add them to any offering: the paywall lists them in their
+ * own section, apart from the subscription plans.
+ */
+export const CREDIT_PACKS: Record<string, number> = {
+  // TODO: Replace with your consumable product identifiers, e.g.:
+  // credits_100: 100,
+  // credits_500: 500,
+};
+
+/**
+ * Plan changes
+ * How subscribers switch between plans with usePurchases().changePlan() and the
+ * Change Plan screen (see lib/planChanges.ts).
+ *
+ * SUBSCRIPTION_GROUPS mirrors your App Store Connect subscription groups: each
+ * group lists its levels from the highest (level 1) to the lowest, and each level
+ * the products on it. Moving to a higher level is an upgrade, to a lower level a
+ * downgrade, within a level a crossgrade; switching between groups isn't a plan
+ * change. Use the product identifiers from your offerings ("subscription:base-plan"
+ * on Google Play). Leave it empty when all plans share one level: every switch
+ * is then a crossgrade.
+ *
+ * GOOGLE_PRORATION_MODES picks how Google Play replaces the old subscription.
+ * The App Store decides on its own: upgrades start right away, downgrades at the
+ * next renewal, crossgrades right away only when the billing period is the same.
+ */
+export type PlanChangeType = "upgrade" | "downgrade" | "crossgrade";
+
+export const PLAN_CHANGE_CONFIG: {
+  SUBSCRIPTION_GROUPS: readonly (readonly (readonly string[])[])[];
+  GOOGLE_PRORATION_MODES: Record<PlanChangeType, PRORATION_MODE>;
+} = {
+  // TODO: Add your subscription groups, e.g.:
+  // [["pro_monthly", "pro_annual"], ["basic_monthly", "basic_annual"]],
+  SUBSCRIPTION_GROUPS: [],
+  GOOGLE_PRORATION_MODES: {
+    // IMMEDIATE_AND_CHARGE_PRORATED_PRICE is only allowed for upgrades
+    upgrade: PRORATION_MODE.IMMEDIATE_WITH_TIME_PRORATION,
+    // Keep the current plan until the period the subscriber paid for ends
+    downgrade: PRORATION_MODE.DEFERRED,
+    crossgrade: PRORATION_MODE.IMMEDIATE_WITH_TIME_PRORATION,
+  },
+};
+
+/**
+ * Exit survey
+ * Asked before a subscriber is sent to their subscription management page
+ * (Profile → Manage Subscription). Reasons with a retention offer show it
+ * before the management page; subscribers who decline it continue to the
+ * management page. Offers whose identifiers are still placeholders are
+ * skipped. See lib/subscriptionManagement.ts.
+ */
+export interface ExitSurveyReason {
+  /** Reported in analytics, keep it stable */
+  id: string;
+  /** Shown to the subscriber, as a string or keyed by language */
+  label: string | Record<string, string>;
+  /** Offer made to subscribers who pick this reason */
+  retentionOffer?: {
+    /** Offering to show. Defaults to the one for the "retention" placement. */
+    offeringId?: string;
+    /** Promotional offer to apply, see usePaywall's discount option */
+    discount?: string;
+  };
+}
+
+export const EXIT_SURVEY_CONFIG: { ENABLED: boolean; REASONS: readonly ExitSurveyReason[] } = {
+  // Set to false to open the management page right away
+  ENABLED: true,
+  REASONS: [
+    {
+      id: "too_expensive",
+      label: { en: "It's too expensive", es: "Es demasiado caro", ar: "السعر مرتفع جدًا" },
+      // TODO: Replace with your promotional offer identifier
+      retentionOffer: { discount: "your_promotional_offer_id" }, // e.g., 'comeback_50'
+    },
+    {
+      id: "not_using",
+      label: { en: "I don't use it enough", es: "No lo uso lo suficiente", ar: "لا أستخدمه بما يكفي" },
+    },
+    {
+      id: "missing_features",
+      label: { en: "It's missing features I need", es: "Le faltan funciones que necesito", ar: "تنقصه ميزات أحتاجها" },
+    },
+    {
+      id: "technical_issues",
+      label: { en: "I ran into problems", es: "Tuve problemas técnicos", ar: "واجهت مشكلات تقنية" },
+    },
+    {
+      id: "other",
+      label: { en: "Something else", es: "Otro motivo", ar: "سبب آخر" },
+    },
+  ],
+};
+
+/**
+ * Custom subscriber attributes
+ * Keys your app sets with usePurchases().setAttributes(). They show up on the
+ * customer page in the RevenueCat dashboard and can be used to segment customers.
+ * Keys can't start with "$" (reserved by RevenueCat) and are limited to 40 characters.
+ * Learn more: https://www.revenuecat.com/docs/customers/customer-attributes
+ */
+export const CUSTOM_ATTRIBUTE_KEYS = [
+  // TODO: Replace with the attributes you want to segment by
+  "onboarding_goal",
+  "referral_source",
+] as const;
+
+export type CustomAttributeKey = (typeof CUSTOM_ATTRIBUTE_KEYS)[number];
@@ -0,0 +1,65 @@
+import {
+  EnvironmentProfile,
+  REVENUECAT_CONFIG,
+  getEnvironmentProfile,
+  validateRevenueCatConfig,
+} from "@/constants/RevenueCat";
+
+const originalConfig = { ...REVENUECAT_CONFIG };
+
+const testStore = getEnvironmentProfile("test");
+const production = getEnvironmentProfile("production");
+
+const failedChecks = (platform: string, environment: EnvironmentProfile) =>
+  validateRevenueCatConfig(platform, environment)
+    .checks.filter((check) => !check.passed)
+    .map((check) => [check.id, check.severity]);
+
+describe("validateRevenueCatConfig", () => {
+  afterEach(() => {
+    Object.assign(REVENUECAT_CONFIG, originalConfig);
+  });
+
+  it("reports a placeholder API key as an error", () => {
+    Object.assign(REVENUECAT_CONFIG, { TEST_API_KEY: "test_your_api_key_here" });
+
+    const report = validateRevenueCatConfig("ios", testStore);
+
+    expect(report.isValid).toBe(false);
+    expect(report.storeMode).toBe("test");
+    expect(failedChecks("ios", testStore)).toContainEqual(["apiKeyPresent", "error"]);
+  });
+
+  it("warns when the key doesn't belong to the store mode", () => {
+    Object.assign(REVENUECAT_CONFIG, { TEST_API_KEY: "appl_abc123" });
+
+    expect(validateRevenueCatConfig("ios", testStore).isValid).toBe(true);
+    expect(failedChecks("ios", testStore)).toContainEqual(["apiKeyPrefix", "warning"]);
+  });
+
+  it("checks the production key of the platform", () => {
+    Object.assign(REVENUECAT_CONFIG, {
+      ANDROID_API_KEY: "goog_abc123",
+      ENTITLEMENT_ID: "pro",
+    });
+
+    expect(validateRevenueCatConfig("android", production).storeMode).toBe("production");
+    expect(failedChecks("android", production)).toEqual([["placeholderProductIds", "warning"]]);
+    expect(failedChecks("ios", production)).toContainEqual(["apiKeyPresent", "error"]);
+    expect(failedChecks("windows", production)).toContainEqual(["unsupportedPlatform", "error"]);
+  });
+
+  it("uses the keys and entitlement of the environment", () => {
+    const staging: EnvironmentProfile = {
+      id: "staging",
+      name: "Staging",
+      useTestStore: false,
+      apiKeys: { ios: "appl_staging123" },
+      entitlementId: "pro",
+    };
+
+    expect(validateRevenueCatConfig("ios", staging).isValid).toBe(true);
+    expect(failedChecks("ios", staging)).toEqual([["placeholderProductIds", "warning"]]);
+    expect(failedChecks("android", staging)).toContainEqual(["apiKeyPresent", "error"]);
+  });
+});
@@ -0,0 +1,203 @@
+import { Alert } from "react-native";
+import { act } from "@testing-library/react-native";
+import {
+  PACKAGE_TYPE,
+  PURCHASES_ERROR_CODE,
+  PurchasesIntroPrice,
+} from "react-native-purchases";
+
+import { REVENUECAT_CONFIG } from "@/constants/RevenueCat";
+import { usePurchases } from "@/hooks/usePurchases";
+import {
+  buildOffering,
+  buildOfferings,
+  buildPackage,
+  renderHookWithRevenueCat,
+} from "@/lib/testing";
+
+// Hooks render outside a navigator
+jest.mock("expo-router", () => ({
+  router: { push: jest.fn(), back: jest.fn(), replace: jest.fn() },
+}));
+
+const weekTrial: PurchasesIntroPrice = {
+  price: 0,
+  priceString: "$0.00",
+  cycles: 1,
+  period: "P1W",
+  periodUnit: "WEEK",
+  periodNumberOfUnits: 1,
+};
+
+const weekly = buildPackage({ packageType: PACKAGE_TYPE.WEEKLY });
+const monthly = buildPackage({
+  packageType: PACKAGE_TYPE.MONTHLY,
+  product: { introPrice: weekTrial },
+});
+const annual = buildPackage({ packageType: PACKAGE_TYPE.ANNUAL });
+const lifetime = buildPackage({ packageType: PACKAGE_TYPE.LIFETIME });
+
+// A monthly subscription that ran out a month ago
+const lapsedSubscription = { purchaseDateMillis: Date.now() - 60 * 24 * 60 * 60 * 1000 };
+
+const offerings = buildOfferings(
+  buildOffering({ packages: [lifetime, annual, weekly, monthly] })
+);
+
+describe("usePurchases", () => {
+  beforeEach(() => {
+    jest.spyOn(Alert, "alert").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("entitlements", () => {
+    it("reports the active entitlements of the customer", async () => {
+      const { result } = await renderHookWithRevenueCat(() => usePurchases(), {
+        customer: { entitlements: [REVENUECAT_CONFIG.ENTITLEMENT_ID] },
+        offerings,
+      });
+
+      expect(result.current.isPremium).toBe(true);
+      expect(result.current.hasEntitlement(REVENUECAT_CONFIG.ENTITLEMENT_ID)).toBe(true);
+      expect(result.current.hasEntitlement("other")).toBe(false);
+      expect(result.current.getActiveEntitlements()).toEqual([REVENUECAT_CONFIG.ENTITLEMENT_ID]);
+    });
+
+    it("ignores expired entitlements", async () => {
+      const { result } = await renderHookWithRevenueCat(() => usePurchases(), {
+        customer: { entitlements: [lapsedSubscription] },
+        offerings,
+      });
+
+      expect(result.current.isPremium).toBe(false);
+      expect(result.current.getActiveEntitlements()).toEqual([]);
+    });
+  });
+
+  describe("packages", () => {
+    it("sorts packages by monthly price with lifetime last", async () => {
+      const { result } = await renderHookWithRevenueCat(() => usePurchases(), { offerings });
+
+      expect(result.current.getPackagesSortedByPrice().map((pkg) => pkg.packageType)).toEqual([
+        PACKAGE_TYPE.ANNUAL,
+        PACKAGE_TYPE.MONTHLY,
+        PACKAGE_TYPE.WEEKLY,
+        PACKAGE_TYPE.LIFETIME,
+      ]);
+    });
+
+    it("finds a package by type", async () => {
+      const { result } = await renderHookWithRevenueCat(() => usePurchases(), { offerings });
+
+      expect(result.current.getPackageByType(PACKAGE_TYPE.ANNUAL)?.identifier).toBe("$rc_annual");
+      expect(result.current.getPackageByType(PACKAGE_TYPE.SIX_MONTH)).toBeUndefined();
+    });
+
+    it("falls back to the package type when a product has no title", async () => {
+      const untitled = buildPackage({ packageType: PACKAGE_TYPE.ANNUAL, product: { title: "" } });
+      const { result } = await renderHookWithRevenueCat(() => usePurchases(), { offerings });
+
+      expect(result.current.formatPackageTitle(untitled)).toBe("ANNUAL Package");
+    });
+  });
+
+  describe("intro offers", () => {
+    it("shows the free trial to eligible customers", async () => {
+      const { result } = await renderHookWithRevenueCat(() => usePurchases(), { offerings });
+
+      expect(result.current.isEligibleForIntroOffer(monthly)).toBe(true);
+      expect(result.current.formatPackagePrice(monthly)).toBe("1 week free, then $9.99");
+      expect(result.current.getTrialInfo(monthly)).toBe("1 week free");
+      expect(result.current.getPurchaseButtonText(monthly)).toBe("Start for free");
+    });
+
+    it("hides the free trial from customers who already used it", async () => {
+      const { result } = await renderHookWithRevenueCat(() => usePurchases(), {
+        offerings,
+        customer: { entitlements: [lapsedSubscription] },
+      });
+
+      expect(result.current.isEligibleForIntroOffer(monthly)).toBe(false);
+      expect(result.current.formatPackagePrice(monthly)).toBe("$9.99");
+      expect(result.current.getTrialInfo(monthly)).toBeNull();
+      expect(result.current.getPurchaseButtonText(monthly)).toBe("Subscribe now");
+    });
+
+    it("labels one-time purchases", async () => {
+      const { result } = await renderHookWithRevenueCat(() => usePurchases(), { offerings });
+
+      expect(result.current.formatPackagePrice(lifetime)).toBe("$149.99");
+      expect(result.current.getPurchaseButtonText(lifetime)).toBe("Purchase");
+    });
+  });
+
+  describe("purchasePackage", () => {
+    it("unlocks premium after a successful purchase", async () => {
+      const { result, adapter, analyticsEvents } = await renderHookWithRevenueCat(
+        () => usePurchases(),
+        { offerings, purchaseOutcomes: ["success"] }
+      );
+      expect(result.current.isPremium).toBe(false);
+
+      await act(() => result.current.purchasePackage(annual));
+
+      expect(adapter.purchaseAttempts).toEqual([annual]);
+      expect(result.current.isPremium).toBe(true);
+      expect(result.current.isPurchasing).toBe(false);
+      expect(Alert.alert).toHaveBeenCalledWith(
+        "🎉 Purchase Successful!",
+        expect.any(String),
+        expect.any(Array)
+      );
+      expect(analyticsEvents.map((event) => event.name)).toContain("purchase_succeeded");
+    });
+
+    it("stays quiet when the customer cancels", async () => {
+      const { result, analyticsEvents } = await renderHookWithRevenueCat(() => usePurchases(), {
+        offerings,
+        purchaseOutcomes: ["cancel"],
+      });
+
+      await act(async () => {
+        await expect(result.current.purchasePackage(annual)).rejects.toMatchObject({
+          category: "cancelled",
+        });
+      });
+
+      expect(result.current.isPremium).toBe(false);
+      expect(Alert.alert).not.toHaveBeenCalled();
+      expect(analyticsEvents.map((event) => event.name)).toContain("purchase_cancelled");
+    });
+
+    it("explains store errors and can be retried", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      const { result, analyticsEvents } = await renderHookWithRevenueCat(() => usePurchases(), {
+        offerings,
+        purchaseOutcomes: [{ error: PURCHASES_ERROR_CODE.NETWORK_ERROR }, "success"],
+      });
+
+      await act(async () => {
+        await expect(result.current.purchasePackage(annual)).rejects.toMatchObject({
+          category: "network",
+          code: PURCHASES_ERROR_CODE.NETWORK_ERROR,
+        });
+      });
+
+      expect(Alert.alert).toHaveBeenCalledWith(
+        "Connection Problem",
+        expect.any(String),
+        expect.any(Array)
+      );
+      expect(analyticsEvents.find((event) => event.name === "purchase_failed")?.properties).toMatchObject({
+        errorCategory: "network",
+      });
+
+      await act(() => result.current.purchasePackage(annual));
+      expect(result.current.isPremium).toBe(true);
+    });
+  });
+});
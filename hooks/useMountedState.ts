@@ -0,0 +1,29 @@
+/**
+ * useMountedState Hook
+ *
+ * Drop-in replacement for useState whose setter ignores updates made after
+ * the component unmounted. Useful for state written from async SDK calls and
+ * listeners that can resolve after a screen or provider is gone.
+ */
+
+import { SetStateAction, useCallback, useEffect, useRef, useState } from "react";
+
+export function useMountedState<S>(initialState: S | (() => S)) {
+  const isMounted = useRef(false);
+  const [state, setState] = useState(initialState);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const setMountedState = useCallback((value: SetStateAction<S>) => {
+    if (isMounted.current) {
+      setState(value);
+    }
+  }, []);
+
+  return [state, setMountedState] as const;
+}
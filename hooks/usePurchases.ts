@@ -14,68 +14,237 @@
  *
  * FEATURES:
  * - Subscription status checking
- * - Purchase handling with error management
+ * - Purchase handling with typed error categories (lib/purchaseErrors.ts)
  * - Offering and package management
  * - Loading states for better UX
+ * - User identification (logIn / logOut)
  * - Cross-platform compatibility
+ * - Localized prices, trial lengths and alerts (see lib/i18n.ts)
+ * - Trial and intro pricing shown only to eligible customers
+ * - Paywall experiment variants (lib/experiments.ts)
+ * - Purchase-funnel analytics events (lib/analytics.ts)
+ * - Discounted purchases with promotional offers, shown next to the regular price
+ * - Offer code redemption (lib/offerCodes.ts)
+ * - Subscription management after an optional exit survey (lib/subscriptionManagement.ts)
+ * - Consumable credit packs and a credits balance (lib/credits.ts)
+ * - Plan changes (upgrade, downgrade, crossgrade) that replace the current subscription (lib/planChanges.ts)
  */
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Platform, Alert } from "react-native";
-import { PurchasesPackage } from "react-native-purchases";
+import { router } from "expo-router";
+import {
+  CustomerInfoUpdateListener,
+  INTRO_ELIGIBILITY_STATUS,
+  PurchasesIntroPrice,
+  PurchasesPackage,
+  PurchasesPromotionalOffer,
+  PurchasesStoreProductDiscount,
+} from "react-native-purchases";
 import { useRevenueCat } from "@/components/RevenueCatProvider";
+import { REVENUECAT_CONFIG, TierId } from "@/constants/RevenueCat";
+import { getTierLevel, getTierName, isTierAtLeast } from "@/lib/tiers";
+import { PURCHASE_ERROR_CATEGORIES, PurchaseError, toPurchaseError } from "@/lib/purchaseErrors";
+import {
+  calculateSavingsPercent,
+  findBestValuePackage,
+  findReferencePackage,
+  formatPrice,
+  normalizePackagePrice,
+  sortPackagesByPrice,
+} from "@/lib/pricing";
+import { PaywallConfig, parsePaywallConfig } from "@/lib/paywallConfig";
+import { OfferingSelector, resolveOffering } from "@/lib/offerings";
+import { getPaywallVariant, resolveVariantText } from "@/lib/experiments";
+import { getPackageEventProperties } from "@/lib/analytics";
+import { OfferCodeRedemptionResult, normalizeOfferCode } from "@/lib/offerCodes";
+import { findCreditPackages, getPackageCredits } from "@/lib/credits";
+import { PlanChange } from "@/lib/planChanges";
+import { Translate, formatDate } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/useTranslation";
+
+type PeriodUnit = "day" | "week" | "month" | "year";
+
+/**
+ * Check whether an intro price is a free trial
+ */
+const isFreeIntroPrice = (introPrice: PurchasesIntroPrice) =>
+  introPrice.price === 0 ||
+  introPrice.priceString === "$0.00" ||
+  introPrice.priceString === "0";
+
+/**
+ * Localized title and message of a purchase error
+ * PurchaseError.userMessage is English only; categories without copy get the paywall's generic text.
+ */
+const getLocalizedError = (t: Translate, error: PurchaseError) =>
+  error.category in PURCHASE_ERROR_CATEGORIES
+    ? {
+        title: t(`purchaseError.${error.category}.title`),
+        message: t(`purchaseError.${error.category}.message`),
+      }
+    : { title: t("paywall.error.title"), message: t("paywall.error.fallbackMessage") };
 
 /**
  * Enhanced purchases hook with additional functionality and error handling
  */
 export function usePurchases() {
   const revenueCatContext = useRevenueCat();
+  const { t, languageTag } = useTranslation();
   const [purchaseLoading, setPurchaseLoading] = useState(false);
   const [restoreLoading, setRestoreLoading] = useState(false);
+  const [identityLoading, setIdentityLoading] = useState(false);
+  const [redeemLoading, setRedeemLoading] = useState(false);
+  const [managementLoading, setManagementLoading] = useState(false);
+  const [planChangeLoading, setPlanChangeLoading] = useState(false);
 
   /**
    * Enhanced purchase function with loading states and user feedback
+   * Every outcome is tracked; events carry the user's experiment variants.
+   *
+   * @param options.placement Paywall placement the purchase started from
+   * @param options.promotionalOffer Signed offer from getPromotionalOffer to buy at its discounted price
    */
-  const purchasePackage = async (packageToPurchase: PurchasesPackage) => {
+  const purchasePackage = async (
+    packageToPurchase: PurchasesPackage,
+    {
+      placement = null,
+      promotionalOffer = null,
+    }: { placement?: string | null; promotionalOffer?: PurchasesPromotionalOffer | null } = {}
+  ) => {
+    const { analytics } = revenueCatContext;
+    const discount = promotionalOffer
+      ? packageToPurchase.product.discounts?.find((d) => d.identifier === promotionalOffer.identifier)
+      : undefined;
+    const packageProperties = {
+      ...getPackageEventProperties(packageToPurchase, placement),
+      discountIdentifier: promotionalOffer?.identifier ?? null,
+    };
+    const priceProperties = {
+      price: discount?.price ?? packageToPurchase.product.price,
+      currencyCode: packageToPurchase.product.currencyCode,
+    };
+
     try {
       setPurchaseLoading(true);
-      await revenueCatContext.purchasePackage(packageToPurchase);
+      analytics.track("purchase_started", { ...packageProperties, ...priceProperties });
+      if (promotionalOffer) {
+        await revenueCatContext.purchaseDiscountedPackage(packageToPurchase, promotionalOffer);
+      } else {
+        await revenueCatContext.purchasePackage(packageToPurchase);
+      }
+      analytics.track("purchase_succeeded", { ...packageProperties, ...priceProperties });
 
       // Show success message
-      Alert.alert(
-        "🎉 Purchase Successful!",
-        "Thank you for your purchase. You now have access to premium features!",
-        [{ text: "OK", style: "default" }]
-      );
-    } catch (error: any) {
+      const credits = revenueCatContext.creditPacks[packageToPurchase.product.identifier];
+      if (credits != null) {
+        Alert.alert(
+          t("credits.purchased.title"),
+          t("credits.purchased.message", { credits }),
+          [{ text: t("common.ok"), style: "default" }]
+        );
+      } else if (revenueCatContext.isDemoMode) {
+        Alert.alert(
+          t("purchase.demoSuccess.title"),
+          t("purchase.demoSuccess.message"),
+          [{ text: t("common.ok"), style: "default" }]
+        );
+      } else {
+        Alert.alert(
+          t("purchase.success.title"),
+          t("purchase.success.message"),
+          [{ text: t("common.ok"), style: "default" }]
+        );
+      }
+    } catch (error) {
+      const purchaseError = toPurchaseError(error);
+      if (purchaseError.category === "cancelled") {
+        analytics.track("purchase_cancelled", packageProperties);
+      } else {
+        analytics.track("purchase_failed", {
+          ...packageProperties,
+          errorCategory: purchaseError.category,
+          errorCode: purchaseError.code,
+        });
+      }
+
       // Only show error if user didn't cancel
-      if (!error.userCancelled) {
+      if (purchaseError.category !== "cancelled") {
         console.error("Purchase error in hook:", error);
 
-        // Provide user-friendly error messages
-        let errorMessage = "Please try again later.";
-
-        if (error.message?.includes("network")) {
-          errorMessage = "Please check your internet connection and try again.";
-        } else if (error.message?.includes("payment")) {
-          errorMessage =
-            "There was an issue processing your payment. Please try again.";
-        } else if (
-          Platform.OS === "web" &&
-          error.message?.includes("billing")
-        ) {
-          errorMessage =
-            "Web billing is not configured. Please contact support.";
+        const { title, message } = getLocalizedError(t, purchaseError);
+        Alert.alert(title, message, [{ text: t("common.ok"), style: "default" }]);
+      }
+
+      throw purchaseError; // Re-throw for component-level handling if needed
+    } finally {
+      setPurchaseLoading(false);
+    }
+  };
+
+  /**
+   * Switch the active subscription to another plan, with user feedback
+   * Shows when the new plan starts; unavailable changes fail with a "notAllowed" error.
+   */
+  const changePlan = async (targetPackage: PurchasesPackage): Promise<PlanChange> => {
+    const { analytics } = revenueCatContext;
+    const planChange = revenueCatContext.getPlanChange(targetPackage);
+    const eventProperties = planChange.available
+      ? {
+          ...getPackageEventProperties(targetPackage),
+          fromProductIdentifier: planChange.fromProductIdentifier,
+          changeType: planChange.type,
+          timing: planChange.timing,
         }
+      : null;
 
-        Alert.alert("Purchase Failed", errorMessage, [
-          { text: "OK", style: "default" },
-        ]);
+    try {
+      setPlanChangeLoading(true);
+      if (eventProperties) analytics.track("plan_change_started", eventProperties);
+      const completedChange = await revenueCatContext.changePlan(targetPackage);
+      if (eventProperties) analytics.track("plan_changed", eventProperties);
 
-        throw error; // Re-throw for component-level handling if needed
+      const plan = formatPackageTitle(targetPackage);
+      Alert.alert(
+        t("changePlan.success.title"),
+        completedChange.timing === "immediate"
+          ? t("changePlan.success.immediate", { plan })
+          : t("changePlan.success.nextRenewal", {
+              plan,
+              date: formatDate(completedChange.effectiveDate, languageTag),
+            }),
+        [{ text: t("common.ok"), style: "default" }]
+      );
+      return completedChange;
+    } catch (error) {
+      const purchaseError = toPurchaseError(error);
+      if (eventProperties) {
+        if (purchaseError.category === "cancelled") {
+          analytics.track("plan_change_cancelled", eventProperties);
+        } else {
+          analytics.track("plan_change_failed", {
+            ...eventProperties,
+            errorCategory: purchaseError.category,
+            errorCode: purchaseError.code,
+          });
+        }
       }
+
+      if (!planChange.available) {
+        Alert.alert(
+          t("changePlan.failed.title"),
+          t(`changePlan.unavailable.${planChange.reason}`),
+          [{ text: t("common.ok"), style: "default" }]
+        );
+      } else if (purchaseError.category !== "cancelled") {
+        console.error("Plan change error in hook:", error);
+        const { title, message } = getLocalizedError(t, purchaseError);
+        Alert.alert(title, message, [{ text: t("common.ok"), style: "default" }]);
+      }
+
+      throw purchaseError;
     } finally {
-      setPurchaseLoading(false);
+      setPlanChangeLoading(false);
     }
   };
 
@@ -83,33 +252,224 @@ export function usePurchases() {
    * Enhanced restore purchases function
    */
   const restorePurchases = async () => {
+    const { analytics } = revenueCatContext;
+
     try {
       setRestoreLoading(true);
+      analytics.track("restore_started", {});
       await revenueCatContext.restorePurchases();
+      analytics.track("restore_succeeded", {});
 
       // Show success message
-      if (Platform.OS !== "web") {
+      if (revenueCatContext.isDemoMode) {
+        Alert.alert(
+          t("restore.demoSuccess.title"),
+          t("restore.demoSuccess.message"),
+          [{ text: t("common.ok"), style: "default" }]
+        );
+      } else if (Platform.OS !== "web") {
         Alert.alert(
-          "✅ Restore Successful",
-          "Your purchases have been restored successfully.",
-          [{ text: "OK", style: "default" }]
+          t("restore.success.title"),
+          t("restore.success.message"),
+          [{ text: t("common.ok"), style: "default" }]
         );
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Restore error in hook:", error);
+      const purchaseError = toPurchaseError(error);
+      analytics.track("restore_failed", {
+        errorCategory: purchaseError.category,
+        errorCode: purchaseError.code,
+      });
 
       Alert.alert(
-        "Restore Failed",
-        "Unable to restore purchases. Please try again or contact support if the issue persists.",
-        [{ text: "OK", style: "default" }]
+        t("restore.failed.title"),
+        purchaseError.category === "unknown"
+          ? t("restore.failed.message")
+          : t(`purchaseError.${purchaseError.category}.message`),
+        [{ text: t("common.ok"), style: "default" }]
       );
 
-      throw error;
+      throw purchaseError;
     } finally {
       setRestoreLoading(false);
     }
   };
 
+  /**
+   * Start offer code redemption the way the platform supports it
+   * Shows the App Store sheet on iOS, otherwise opens the code-entry screen (app/redeem.tsx).
+   */
+  const openOfferCodeRedemption = async () => {
+    const { analytics, offerCodeRedemptionMethod } = revenueCatContext;
+    if (offerCodeRedemptionMethod !== "sheet") {
+      router.push("/redeem");
+      return;
+    }
+
+    try {
+      analytics.track("offer_code_redemption_started", { method: offerCodeRedemptionMethod });
+      await revenueCatContext.presentCodeRedemptionSheet();
+    } catch (error) {
+      const purchaseError = toPurchaseError(error);
+      analytics.track("offer_code_redemption_failed", {
+        method: offerCodeRedemptionMethod,
+        errorCategory: purchaseError.category,
+        errorCode: purchaseError.code,
+      });
+
+      Alert.alert(
+        t("offerCode.failed.title"),
+        t(`purchaseError.${purchaseError.category}.message`),
+        [{ text: t("common.ok"), style: "default" }]
+      );
+    }
+  };
+
+  /**
+   * Redeem a code typed into the code-entry screen
+   * Resolves to null when the code isn't well-formed.
+   */
+  const redeemOfferCode = async (
+    code: string
+  ): Promise<OfferCodeRedemptionResult | null> => {
+    const { analytics, offerCodeRedemptionMethod: method } = revenueCatContext;
+    const normalizedCode = normalizeOfferCode(code);
+    if (!normalizedCode) {
+      Alert.alert(t("offerCode.failed.title"), t("offerCode.invalid"), [
+        { text: t("common.ok"), style: "default" },
+      ]);
+      return null;
+    }
+
+    try {
+      setRedeemLoading(true);
+      analytics.track("offer_code_redemption_started", { method });
+      const result = await revenueCatContext.redeemOfferCode(normalizedCode);
+
+      if (result === "redeemed") {
+        analytics.track("offer_code_redeemed", { method });
+        Alert.alert(
+          t("offerCode.success.title"),
+          t("offerCode.success.message"),
+          [{ text: t("common.ok"), style: "default" }]
+        );
+      }
+      return result;
+    } catch (error) {
+      const purchaseError = toPurchaseError(error);
+      analytics.track("offer_code_redemption_failed", {
+        method,
+        errorCategory: purchaseError.category,
+        errorCode: purchaseError.code,
+      });
+
+      // Unknown and already used codes are reported as not allowed
+      Alert.alert(
+        t("offerCode.failed.title"),
+        purchaseError.category === "notAllowed"
+          ? t("offerCode.failed.message")
+          : t(`purchaseError.${purchaseError.category}.message`),
+        [{ text: t("common.ok"), style: "default" }]
+      );
+
+      throw purchaseError;
+    } finally {
+      setRedeemLoading(false);
+    }
+  };
+
+  /**
+   * Send the customer to where they cancel or change their subscription
+   * In demo mode this turns off auto-renew right away and says so.
+   *
+   * @param reasonId Exit survey answer, null when the survey was skipped
+   */
+  const openSubscriptionManagement = async (reasonId: string | null = null) => {
+    const { analytics, subscriptionManagementMethod: method } = revenueCatContext;
+
+    try {
+      setManagementLoading(true);
+      await revenueCatContext.openSubscriptionManagement();
+      analytics.track("subscription_management_opened", { method, reasonId });
+
+      if (method === "simulated") {
+        Alert.alert(
+          t("manage.demoCancelled.title"),
+          t("manage.demoCancelled.message"),
+          [{ text: t("common.ok"), style: "default" }]
+        );
+      }
+    } catch (error) {
+      const purchaseError = toPurchaseError(error);
+      analytics.track("subscription_management_failed", {
+        method,
+        errorCategory: purchaseError.category,
+        errorCode: purchaseError.code,
+      });
+
+      Alert.alert(
+        t("manage.failed.title"),
+        purchaseError.category === "configuration"
+          ? t("manage.failed.message")
+          : t(`purchaseError.${purchaseError.category}.message`),
+        [{ text: t("common.ok"), style: "default" }]
+      );
+
+      throw purchaseError;
+    } finally {
+      setManagementLoading(false);
+    }
+  };
+
+  /**
+   * Log in with your own user ID
+   */
+  const logIn = async (userId: string) => {
+    const trimmedUserId = userId.trim();
+    if (!trimmedUserId) {
+      Alert.alert(t("login.failed.title"), t("login.emptyUserId"), [
+        { text: t("common.ok"), style: "default" },
+      ]);
+      return;
+    }
+
+    try {
+      setIdentityLoading(true);
+      await revenueCatContext.logIn(trimmedUserId);
+    } catch (error: any) {
+      console.error("Login error in hook:", error);
+
+      Alert.alert(t("login.failed.title"), t("login.failed.message"), [
+        { text: t("common.ok"), style: "default" },
+      ]);
+
+      throw error;
+    } finally {
+      setIdentityLoading(false);
+    }
+  };
+
+  /**
+   * Log out the current user and switch back to an anonymous ID
+   */
+  const logOut = async () => {
+    try {
+      setIdentityLoading(true);
+      await revenueCatContext.logOut();
+    } catch (error: any) {
+      console.error("Logout error in hook:", error);
+
+      Alert.alert(t("logout.failed.title"), t("logout.failed.message"), [
+        { text: t("common.ok"), style: "default" },
+      ]);
+
+      throw error;
+    } finally {
+      setIdentityLoading(false);
+    }
+  };
+
   /**
    * Check if user has access to a specific entitlement
    */
@@ -130,17 +490,11 @@ export function usePurchases() {
   };
 
   /**
-   * Get packages sorted by price (lowest to highest)
+   * Get packages sorted by monthly cost (lowest to highest)
+   * Plans of different lengths are compared per month; lifetime comes last
    */
-  const getPackagesSortedByPrice = () => {
-    const packages = revenueCatContext.currentOffering?.availablePackages || [];
-
-    return [...packages].sort((a, b) => {
-      const priceA = a.storeProduct?.price || a.product?.price || 0;
-      const priceB = b.storeProduct?.price || b.product?.price || 0;
-      return priceA - priceB;
-    });
-  };
+  const getPackagesSortedByPrice = () =>
+    sortPackagesByPrice(revenueCatContext.currentOffering?.availablePackages || []);
 
   /**
    * Get a specific package by type
@@ -150,53 +504,128 @@ export function usePurchases() {
     return packages.find((pkg) => pkg.packageType === packageType);
   };
 
+  /**
+   * Parse ISO 8601 duration format (P1W, P7D, P1M, etc.)
+   */
+  const parseSubscriptionPeriod = (
+    period: string
+  ): { value: number; unit: PeriodUnit } | null => {
+    if (!period) return null;
+
+    // Match ISO 8601 duration format: P[n]Y[n]M[n]D or P[n]W
+    const match = period.match(
+      /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?$/
+    );
+    if (!match) return null;
+
+    const [, years, months, weeks, days] = match;
+
+    if (weeks) return { value: parseInt(weeks), unit: "week" };
+    if (days) return { value: parseInt(days), unit: "day" };
+    if (months) return { value: parseInt(months), unit: "month" };
+    if (years) return { value: parseInt(years), unit: "year" };
+
+    return null;
+  };
+
+  /**
+   * Format a number of periods with the locale's plural rules ("1 week", "3 months")
+   */
+  const formatPeriod = (unit: PeriodUnit, count: number): string =>
+    t(`period.${unit}`, { count });
+
+  /**
+   * Get the total length of an intro offer ("1 week", "3 months")
+   * Uses periodUnit/periodNumberOfUnits when available, otherwise the ISO period
+   */
+  const formatIntroDuration = (
+    introPrice: PurchasesIntroPrice
+  ): string | null => {
+    const cycles = introPrice.cycles || 1;
+    const periodUnit = introPrice.periodUnit?.toLowerCase() as PeriodUnit;
+
+    if (
+      introPrice.periodNumberOfUnits &&
+      ["day", "week", "month", "year"].includes(periodUnit)
+    ) {
+      return formatPeriod(periodUnit, introPrice.periodNumberOfUnits * cycles);
+    }
+
+    const parsedPeriod = parseSubscriptionPeriod(introPrice.period);
+    if (parsedPeriod) {
+      return formatPeriod(parsedPeriod.unit, parsedPeriod.value * cycles);
+    }
+
+    return null;
+  };
+
+  /**
+   * Get the intro offer eligibility for a package
+   * Returns UNKNOWN until the provider has checked the package's product
+   */
+  const getIntroEligibility = (
+    packageItem: PurchasesPackage
+  ): INTRO_ELIGIBILITY_STATUS =>
+    revenueCatContext.introEligibility[packageItem.product.identifier] ??
+    INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_UNKNOWN;
+
+  /**
+   * Check whether the customer can get a package's free trial or intro price
+   * Unknown eligibility hides the offer so we never advertise one we can't honor,
+   * except on Android: Google Play always reports unknown, but only returns
+   * intro prices the user can actually redeem.
+   */
+  const isEligibleForIntroOffer = (packageItem: PurchasesPackage): boolean => {
+    switch (getIntroEligibility(packageItem)) {
+      case INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_ELIGIBLE:
+        return true;
+      case INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_UNKNOWN:
+        return Platform.OS === "android";
+      default:
+        return false;
+    }
+  };
+
   /**
    * Format price string for display with trial and intro pricing
    */
   const formatPackagePrice = (packageItem: PurchasesPackage): string => {
     const storeProduct = packageItem.storeProduct || packageItem.product;
-    if (!storeProduct) return "Price unavailable";
+    if (!storeProduct) return t("price.unavailable");
 
     // Get the main price
     const mainPrice =
       storeProduct.priceString ||
       storeProduct.price?.toString() ||
-      "Price unavailable";
+      t("price.unavailable");
 
-    debugger;
     // Check for intro price (free trial or discounted intro period)
     const introPrice = storeProduct.introPrice;
 
-    if (introPrice) {
+    if (introPrice && isEligibleForIntroOffer(packageItem)) {
       const introPriceString =
         introPrice.priceString || introPrice.price?.toString();
-      const introPeriod = introPrice.subscriptionPeriod;
-      const introCycles = introPrice.cycles;
+      const duration = formatIntroDuration(introPrice);
 
       // If intro price is 0, it's a free trial
-      if (
-        introPrice.price === 0 ||
-        introPriceString === "$0.00" ||
-        introPriceString === "0"
-      ) {
-        debugger;
-
-        if (introPeriod && introCycles) {
-          return `Free ${
-            introCycles > 1 ? `${introCycles} periods` : "trial"
-          }, then ${mainPrice}`;
-        }
-        return `Free trial, then ${mainPrice}`;
+      if (isFreeIntroPrice(introPrice)) {
+        return duration
+          ? t("price.freeForThen", { duration, price: mainPrice })
+          : t("price.freeTrialThen", { price: mainPrice });
       }
 
       // If there's a discounted intro price
       if (introPriceString && introPriceString !== mainPrice) {
-        if (introPeriod && introCycles) {
-          return `${introPriceString} for ${
-            introCycles > 1 ? `${introCycles} periods` : "first period"
-          }, then ${mainPrice}`;
-        }
-        return `${introPriceString} intro, then ${mainPrice}`;
+        return duration
+          ? t("price.introForThen", {
+              introPrice: introPriceString,
+              duration,
+              price: mainPrice,
+            })
+          : t("price.introThen", {
+              introPrice: introPriceString,
+              price: mainPrice,
+            });
       }
     }
 
@@ -204,27 +633,17 @@ export function usePurchases() {
   };
 
   /**
-   * Parse ISO 8601 duration format (P1W, P7D, P1M, etc.)
+   * Describe how long a discounted price lasts ("for 3 months, then $9.99")
    */
-  const parseSubscriptionPeriod = (
-    period: string
-  ): { value: number; unit: string } | null => {
-    if (!period) return null;
-
-    // Match ISO 8601 duration format: P[n]Y[n]M[n]D or P[n]W
-    const match = period.match(
-      /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?$/
-    );
-    if (!match) return null;
-
-    const [, years, months, weeks, days] = match;
-
-    if (weeks) return { value: parseInt(weeks), unit: "week" };
-    if (days) return { value: parseInt(days), unit: "day" };
-    if (months) return { value: parseInt(months), unit: "month" };
-    if (years) return { value: parseInt(years), unit: "year" };
-
-    return null;
+  const formatDiscountTerms = (
+    packageItem: PurchasesPackage,
+    discount: PurchasesStoreProductDiscount
+  ): string => {
+    const price = packageItem.product.priceString;
+    const duration = formatIntroDuration(discount);
+    return duration
+      ? t("price.discountForThen", { duration, price })
+      : t("price.discountThen", { price });
   };
 
   /**
@@ -232,55 +651,20 @@ export function usePurchases() {
    */
   const getTrialInfo = (packageItem: PurchasesPackage): string | null => {
     const storeProduct = packageItem.storeProduct || packageItem.product;
-    if (!storeProduct?.introPrice) return null;
-
-    const introPrice = storeProduct.introPrice;
+    const introPrice = storeProduct?.introPrice;
+    if (!introPrice || !isFreeIntroPrice(introPrice)) return null;
+    if (!isEligibleForIntroOffer(packageItem)) return null;
 
-    if (
-      introPrice.price === 0 ||
-      introPrice.priceString === "$0.00" ||
-      introPrice.priceString === "0"
-    ) {
-      // Use the actual periodNumberOfUnits and periodUnit from the introPrice
-      const periodUnits = introPrice.periodNumberOfUnits;
-      const periodUnit = introPrice.periodUnit;
-      
-      if (periodUnits && periodUnit) {
-        // Convert period unit to readable format
-        let displayUnit = periodUnit.toLowerCase();
-        
-        // Handle pluralization
-        if (periodUnits !== 1) {
-          // Add 's' for plurals, but handle special cases
-          if (displayUnit === 'day') displayUnit = 'days';
-          else if (displayUnit === 'week') displayUnit = 'weeks';
-          else if (displayUnit === 'month') displayUnit = 'months';
-          else if (displayUnit === 'year') displayUnit = 'years';
-          else displayUnit = `${displayUnit}s`; // fallback
-        }
-        
-        return `${periodUnits} ${displayUnit} free`;
-      }
-
-      // Fallback to parsing subscription period if periodNumberOfUnits/periodUnit not available
-      const cycles = introPrice.cycles || 1;
-      const period = introPrice.subscriptionPeriod;
-
-      if (period) {
-        const parsedPeriod = parseSubscriptionPeriod(period);
-        if (parsedPeriod) {
-          const totalValue = parsedPeriod.value * cycles;
-          const unit = parsedPeriod.unit;
-          const pluralUnit = totalValue === 1 ? unit : `${unit}s`;
-          return `${totalValue} ${pluralUnit} free`;
-        }
-      }
-
-      // Final fallback
-      return cycles > 1 ? `${cycles} periods free` : "Free trial";
+    const duration = formatIntroDuration(introPrice);
+    if (duration) {
+      return t("trial.free", { duration });
     }
 
-    return null;
+    // Final fallback
+    const cycles = introPrice.cycles || 1;
+    return cycles > 1
+      ? t("trial.freePeriods", { count: cycles })
+      : t("trial.generic");
   };
 
   /**
@@ -289,26 +673,24 @@ export function usePurchases() {
   const getPurchaseButtonText = (packageItem: PurchasesPackage): string => {
     const storeProduct = packageItem.storeProduct || packageItem.product;
 
-    // Check if it has a free trial
-    const hasFreeTrial =
+    // Check if it has a free trial the customer can still use
+    if (
       storeProduct?.introPrice &&
-      (storeProduct.introPrice.price === 0 ||
-        storeProduct.introPrice.priceString === "$0.00" ||
-        storeProduct.introPrice.priceString === "0");
-
-    if (hasFreeTrial) {
-      return "Start for free";
+      isFreeIntroPrice(storeProduct.introPrice) &&
+      isEligibleForIntroOffer(packageItem)
+    ) {
+      return t("button.startFree");
     }
 
     // Check if it's a subscription (has subscription period)
     const isSubscription = storeProduct?.subscriptionPeriod != null;
 
     if (isSubscription) {
-      return "Subscribe now";
+      return t("button.subscribe");
     }
 
     // Non-subscription product
-    return "Purchase";
+    return t("button.purchase");
   };
 
   /**
@@ -326,9 +708,9 @@ export function usePurchases() {
 
     // Fallback to package type formatting
     const packageType = packageItem.packageType || "Unknown";
-    return (
-      packageType.charAt(0).toUpperCase() + packageType.slice(1) + " Package"
-    );
+    return t("package.fallbackTitle", {
+      type: packageType.charAt(0).toUpperCase() + packageType.slice(1),
+    });
   };
 
   /**
@@ -339,22 +721,13 @@ export function usePurchases() {
   };
 
   /**
-   * Get user-friendly error message
+   * Get the localized title and message of the last error
    */
-  const getErrorMessage = (): string | null => {
-    if (!revenueCatContext.error) return null;
+  const getErrorTitle = (): string | null =>
+    revenueCatContext.error ? getLocalizedError(t, revenueCatContext.error).title : null;
 
-    // Provide more helpful error messages
-    if (revenueCatContext.error.includes("configuration")) {
-      return "RevenueCat is not properly configured. Please check your API keys in constants/RevenueCat.ts";
-    }
-
-    if (revenueCatContext.error.includes("network")) {
-      return "Network error. Please check your internet connection.";
-    }
-
-    return revenueCatContext.error;
-  };
+  const getErrorMessage = (): string | null =>
+    revenueCatContext.error ? getLocalizedError(t, revenueCatContext.error).message : null;
 
   // Return all the functionality
   return {
@@ -364,10 +737,20 @@ export function usePurchases() {
     // Enhanced loading states
     isPurchasing: purchaseLoading,
     isRestoring: restoreLoading,
+    isIdentifying: identityLoading,
+    isRedeeming: redeemLoading,
+    isOpeningManagement: managementLoading,
+    isChangingPlan: planChangeLoading,
 
     // Enhanced actions
     purchasePackage,
     restorePurchases,
+    logIn,
+    logOut,
+    openOfferCodeRedemption,
+    redeemOfferCode,
+    openSubscriptionManagement,
+    changePlan,
 
     // Utility functions
     hasEntitlement,
@@ -376,9 +759,13 @@ export function usePurchases() {
     getPackageByType,
     formatPackagePrice,
     formatPackageTitle,
+    formatDiscountTerms,
     getTrialInfo,
     getPurchaseButtonText,
+    getIntroEligibility,
+    isEligibleForIntroOffer,
     isConfigured,
+    getErrorTitle,
     getErrorMessage,
   };
 }
@@ -397,49 +784,354 @@ export function usePremiumStatus() {
   };
 }
 
+/**
+ * Subscribe to customer info changes for the lifetime of a component
+ * The listener is removed automatically on unmount.
+ *
+ * USAGE:
+ * useCustomerInfoListener((customerInfo) => {
+ *   analytics.identify(customerInfo.originalAppUserId);
+ * });
+ */
+export function useCustomerInfoListener(listener: CustomerInfoUpdateListener) {
+  const { addCustomerInfoListener } = useRevenueCat();
+
+  // Always call the latest listener without re-subscribing on every render
+  const latestListener = useRef(listener);
+  latestListener.current = listener;
+
+  useEffect(
+    () => addCustomerInfoListener((customerInfo) => latestListener.current(customerInfo)),
+    // addCustomerInfoListener is recreated on every provider render; the set it writes to is stable
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+}
+
+/**
+ * Access requirement for gated content and routes
+ * Pass an entitlement identifier, a minimum tier, or nothing for "any paid tier"
+ */
+export interface AccessRequirement {
+  entitlement?: string;
+  tier?: TierId;
+}
+
+/**
+ * Check whether the current customer meets an access requirement
+ * Used by PremiumGate and PremiumRouteGuard
+ */
+export function useEntitlementAccess({ entitlement, tier }: AccessRequirement = {}) {
+  const { customerInfo, currentTier, isPremium, isLoading } = useRevenueCat();
+
+  let hasAccess = isPremium;
+  if (entitlement) {
+    hasAccess = customerInfo?.entitlements?.active?.[entitlement] != null;
+  } else if (tier) {
+    hasAccess = isTierAtLeast(currentTier, tier);
+  }
+
+  return { hasAccess, isLoading };
+}
+
+/**
+ * Hook for apps with several paid tiers (e.g. Basic and Pro)
+ * Tiers are configured in ENTITLEMENT_TIERS in constants/RevenueCat.ts
+ *
+ * USAGE:
+ * const { tier, atLeast } = useTier();
+ * if (atLeast("pro")) { ... }
+ */
+export function useTier() {
+  const { currentTier, isLoading } = useRevenueCat();
+
+  return {
+    tier: currentTier,
+    tierName: getTierName(currentTier),
+    level: getTierLevel(currentTier),
+    isLoading,
+    atLeast: (requiredTier: TierId) => isTierAtLeast(currentTier, requiredTier),
+  };
+}
+
+/**
+ * Hook for the credits bought with consumable credit packs
+ * Credit packs are configured in CREDIT_PACKS in constants/RevenueCat.ts
+ *
+ * USAGE:
+ * const { balance, spend } = useCredits();
+ * if (spend(10, "export")) { ... } // false when the balance is too low
+ */
+export function useCredits() {
+  const { credits, creditPacks, spendCredits } = useRevenueCat();
+
+  return {
+    balance: credits?.balance ?? 0,
+    // Newest first
+    history: credits?.history ?? [],
+    // False until the current user's ledger has loaded
+    isLoaded: credits != null,
+    creditPacks,
+    spend: spendCredits,
+  };
+}
+
+/**
+ * Paywall options: which offering to show and an optional discount
+ */
+export interface PaywallOptions extends OfferingSelector {
+  /**
+   * Identifier of a promotional offer (a product discount configured in the store).
+   * Packages whose product has it are shown and sold at the discounted price
+   * when the customer is eligible.
+   */
+  discount?: string;
+}
+
 /**
  * Hook specifically for paywall components
  * Provides everything needed to build a paywall screen
+ *
+ * Shows the current offering unless an offering or placement is given:
+ * usePaywall({ placement: "settings" });
+ * usePaywall({ offeringId: "winback" });
+ * usePaywall({ placement: "settings", discount: "comeback_50" });
  */
-export function usePaywall() {
+export function usePaywall(selector: PaywallOptions = {}) {
   const {
-    currentOffering,
+    offerings,
+    appUserID,
     purchasePackage,
+    changePlan,
+    getPlanChange,
+    getPromotionalOffer,
     isPurchasing,
+    isChangingPlan,
     isLoading,
     error,
     isConfigured,
-    getPackagesSortedByPrice,
+    isDemoMode,
     formatPackagePrice,
     formatPackageTitle,
+    formatDiscountTerms,
     getTrialInfo,
     getPurchaseButtonText,
+    isEligibleForIntroOffer,
+    experimentAssignments,
+    analytics,
+    offerCodeRedemptionMethod,
+    openOfferCodeRedemption,
+    credits,
+    creditPacks,
   } = usePurchases();
+  const { t, locale, languageTag } = useTranslation();
+
+  const {
+    offering,
+    source: offeringSource,
+    warnings: offeringWarnings,
+  } = resolveOffering(offerings, selector);
+  const offeringWarningsKey = offeringWarnings.join("\n");
+
+  useEffect(() => {
+    if (offeringWarningsKey) {
+      console.warn(`⚠️ Paywall offering fallback:\n${offeringWarningsKey}`);
+    }
+  }, [offeringWarningsKey]);
+
+  // Copy and styling from the offering's metadata, validated against the schema
+  const { config: metadataConfig, errors: paywallConfigErrors } =
+    parsePaywallConfig(offering, locale);
+  const paywallConfigErrorsKey = paywallConfigErrors.join("\n");
+
+  useEffect(() => {
+    if (REVENUECAT_CONFIG.DEBUG_MODE && paywallConfigErrorsKey) {
+      console.warn(
+        `⚠️ Invalid paywall metadata on offering "${offering?.identifier}":\n${paywallConfigErrorsKey}`
+      );
+    }
+    // Only report when the set of errors changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paywallConfigErrorsKey]);
+
+  // Experiment variants take precedence over the metadata
+  const paywallVariant = getPaywallVariant(experimentAssignments);
+  const paywallConfig: PaywallConfig = {
+    ...metadataConfig,
+    title: resolveVariantText(paywallVariant.title, locale) ?? metadataConfig.title,
+    subtitle: resolveVariantText(paywallVariant.subtitle, locale) ?? metadataConfig.subtitle,
+    highlightedPackage: paywallVariant.defaultPackage ?? metadataConfig.highlightedPackage,
+  };
+
+  // Credit packs get their own section, apart from the plans
+  const packages = (offering?.availablePackages || []).filter(
+    (pkg) => getPackageCredits(pkg, creditPacks) == null
+  );
+  const creditPackages = findCreditPackages(offerings, creditPacks);
+  const sortedPackages =
+    paywallVariant.packageOrder === "priceDescending"
+      ? sortPackagesByPrice(packages).reverse()
+      : sortPackagesByPrice(packages);
+  const bestValuePackage = findBestValuePackage(packages);
+  const referencePackage = findReferencePackage(packages);
+
+  // Signed promotional offers keyed by product identifier. Products the customer
+  // isn't eligible for are missing and keep their regular price.
+  const discountIdentifier = selector.discount ?? null;
+  const [promotionalOffers, setPromotionalOffers] = useState<
+    Record<string, PurchasesPromotionalOffer>
+  >({});
+  const [isLoadingDiscounts, setIsLoadingDiscounts] = useState(false);
+  const discountedPackages = discountIdentifier
+    ? packages.filter((pkg) =>
+        pkg.product.discounts?.some((d) => d.identifier === discountIdentifier)
+      )
+    : [];
+  const discountedProductsKey = discountedPackages
+    .map((pkg) => pkg.product.identifier)
+    .join(",");
+
+  useEffect(() => {
+    setPromotionalOffers((current) => (Object.keys(current).length > 0 ? {} : current));
+    if (!discountIdentifier || !discountedProductsKey) {
+      setIsLoadingDiscounts(false);
+      return;
+    }
 
-  const packages = currentOffering?.availablePackages || [];
-  const sortedPackages = getPackagesSortedByPrice();
+    let cancelled = false;
+    setIsLoadingDiscounts(true);
+    Promise.all(
+      discountedPackages.map(
+        async (pkg) =>
+          [pkg.product.identifier, await getPromotionalOffer(pkg, discountIdentifier)] as const
+      )
+    ).then((entries) => {
+      if (cancelled) return;
+      setPromotionalOffers(
+        Object.fromEntries(
+          entries.filter(
+            (entry): entry is readonly [string, PurchasesPromotionalOffer] => entry[1] != null
+          )
+        )
+      );
+      setIsLoadingDiscounts(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // discountedProductsKey stands in for the packages; eligibility is per customer
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [discountIdentifier, discountedProductsKey, appUserID]);
+
+  /**
+   * Discount the customer gets on a package, once its promotional offer is signed
+   */
+  const getPackageDiscount = (
+    packageItem: PurchasesPackage
+  ): PurchasesStoreProductDiscount | null => {
+    const promotionalOffer = promotionalOffers[packageItem.product.identifier];
+    if (!promotionalOffer) return null;
+    return (
+      packageItem.product.discounts?.find(
+        (d) => d.identifier === promotionalOffer.identifier
+      ) ?? null
+    );
+  };
+
+  /**
+   * Purchase from the paywall, attributed to its placement in analytics
+   * Packages with a signed promotional offer are bought at the discounted price.
+   * Subscribers switch plans instead, so Google Play doesn't start a second subscription.
+   */
+  const purchaseFromPaywall = async (packageItem: PurchasesPackage) => {
+    const promotionalOffer = promotionalOffers[packageItem.product.identifier] ?? null;
+    if (!promotionalOffer && getPlanChange(packageItem).available) {
+      await changePlan(packageItem);
+      return;
+    }
+
+    await purchasePackage(packageItem, {
+      placement: selector.placement ?? null,
+      promotionalOffer,
+    });
+  };
+
+  /**
+   * Savings against the reference package (the monthly plan when there is one)
+   */
+  const getSavingsPercent = (packageItem: PurchasesPackage): number | null =>
+    referencePackage
+      ? calculateSavingsPercent(packageItem, referencePackage)
+      : null;
+
+  /**
+   * Monthly equivalent of a package's price in its currency, e.g. "$5.00"
+   */
+  const formatPricePerMonth = (packageItem: PurchasesPackage): string | null => {
+    const { perMonth, currencyCode } = normalizePackagePrice(packageItem);
+    return perMonth == null ? null : formatPrice(perMonth, currencyCode, languageTag);
+  };
 
   return {
     // Offerings
-    offering: currentOffering,
+    offering,
+    offeringSource,
     packages,
     sortedPackages,
     hasPackages: packages.length > 0,
+    bestValuePackage,
+    referencePackage,
+
+    // Server-driven content (lib/paywallConfig.ts)
+    paywallConfig,
+    paywallConfigErrors,
+
+    // Experiments (lib/experiments.ts)
+    paywallLayout: paywallVariant.layout ?? "full",
+    experimentAssignments,
 
     // Actions
-    purchasePackage,
+    purchasePackage: purchaseFromPaywall,
+
+    // Credit packs (lib/credits.ts)
+    creditPackages,
+    creditBalance: credits?.balance ?? null,
+    getPackageCredits: (packageItem: PurchasesPackage) =>
+      getPackageCredits(packageItem, creditPacks),
+
+    // Promotional offers
+    discountIdentifier,
+    isLoadingDiscounts,
+    getPackageDiscount,
+
+    // Offer codes (lib/offerCodes.ts)
+    offerCodeRedemptionMethod,
+    openOfferCodeRedemption,
+
+    // Analytics (lib/analytics.ts)
+    analytics,
+    placement: selector.placement ?? null,
 
     // State
-    isPurchasing,
+    // Includes plan changes started from the paywall
+    isPurchasing: isPurchasing || isChangingPlan,
     isLoading,
     hasError: !!error,
-    errorMessage: error,
+    error,
+    errorTitle: error ? getLocalizedError(t, error).title : null,
+    errorMessage: error ? getLocalizedError(t, error).message : null,
     isConfigured,
+    isDemoMode,
 
     // Utilities
     formatPackagePrice,
     formatPackageTitle,
+    formatDiscountTerms,
     getTrialInfo,
     getPurchaseButtonText,
+    isEligibleForIntroOffer,
+    getSavingsPercent,
+    formatPricePerMonth,
   };
 }
@@ -0,0 +1,29 @@
+/**
+ * useTranslation Hook
+ *
+ * Returns a translate function for the device locale and re-renders when the
+ * user changes their language settings.
+ *
+ * USAGE:
+ * const { t, isRTL } = useTranslation();
+ * <ThemedText>{t("paywall.title")}</ThemedText>
+ */
+
+import { useMemo } from "react";
+import { useLocales } from "expo-localization";
+
+import { createTranslator, isRTLLocale, resolveLocale } from "@/lib/i18n";
+
+export function useTranslation() {
+  const locales = useLocales();
+  const locale = resolveLocale(locales);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+
+  return {
+    t,
+    locale,
+    // Full device locale (e.g. "fr-CA") for number, currency and date formatting
+    languageTag: locales[0]?.languageTag ?? locale,
+    isRTL: isRTLLocale(locale),
+  };
+}
@@ -0,0 +1,114 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { ExperimentConfig } from "@/constants/RevenueCat";
+import {
+  ExperimentAssignments,
+  assignExperiments,
+  getExperimentBucket,
+  getPaywallVariant,
+  loadExperimentAssignments,
+} from "@/lib/experiments";
+
+jest.mock("@/constants/RevenueCat", () => ({
+  ...jest.requireActual("@/constants/RevenueCat"),
+  EXPERIMENTS: [
+    {
+      id: "paywall_layout",
+      enabled: true,
+      variants: [
+        { id: "control", weight: 50 },
+        { id: "compact", weight: 50, paywall: { layout: "compact" } },
+      ],
+    },
+  ],
+}));
+
+const STORAGE_KEY = "@revenuecat-framework/experiment-assignments";
+
+const splitExperiment: ExperimentConfig = {
+  id: "paywall_split",
+  enabled: true,
+  variants: [
+    { id: "control", weight: 75 },
+    { id: "compact", weight: 25, paywall: { layout: "compact" } },
+  ],
+};
+
+describe("assignExperiments", () => {
+  it("assigns the same variant to a user every time", () => {
+    const first = assignExperiments("user_1", {}, [splitExperiment], 1);
+    const second = assignExperiments("user_1", {}, [splitExperiment], 2);
+
+    expect(second.paywall_split.variantId).toBe(first.paywall_split.variantId);
+    expect(second.paywall_split.bucket).toBe(getExperimentBucket("paywall_split", "user_1"));
+  });
+
+  it("buckets a user independently in each experiment", () => {
+    expect(getExperimentBucket("paywall_split", "user_1")).not.toBe(
+      getExperimentBucket("paywall_layout", "user_1")
+    );
+  });
+
+  it("splits users by the variant weights", () => {
+    const users = Array.from({ length: 2000 }, (_, i) => `user_${i}`);
+    const compactUsers = users.filter(
+      (user) => assignExperiments(user, {}, [splitExperiment]).paywall_split.variantId === "compact"
+    );
+
+    expect(compactUsers.length / users.length).toBeGreaterThan(0.22);
+    expect(compactUsers.length / users.length).toBeLessThan(0.28);
+  });
+
+  it("reuses a stored assignment of the same user", () => {
+    const stored: ExperimentAssignments = {
+      paywall_split: {
+        experimentId: "paywall_split",
+        variantId: "compact",
+        appUserID: "user_1",
+        bucket: 0.9,
+        assignedAt: 1,
+      },
+    };
+
+    expect(assignExperiments("user_1", stored, [splitExperiment])).toEqual(stored);
+    expect(assignExperiments("user_2", stored, [splitExperiment]).paywall_split.appUserID).toBe("user_2");
+  });
+
+  it("skips disabled experiments", () => {
+    expect(assignExperiments("user_1", {}, [{ ...splitExperiment, enabled: false }])).toEqual({});
+  });
+});
+
+describe("loadExperimentAssignments", () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it("stores new assignments", async () => {
+    const assignments = await loadExperimentAssignments("user_1");
+
+    expect(JSON.parse((await AsyncStorage.getItem(STORAGE_KEY))!)).toEqual(assignments);
+  });
+
+  it("reuses the stored assignment", async () => {
+    const variantId =
+      getExperimentBucket("paywall_layout", "user_1") < 0.5 ? "compact" : "control";
+    await AsyncStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        paywall_layout: {
+          experimentId: "paywall_layout",
+          variantId,
+          appUserID: "user_1",
+          bucket: 0.5,
+          assignedAt: 1,
+        },
+      })
+    );
+
+    const assignments = await loadExperimentAssignments("user_1");
+
+    expect(assignments.paywall_layout).toMatchObject({ variantId, assignedAt: 1 });
+    expect(getPaywallVariant(assignments)).toEqual(variantId === "compact" ? { layout: "compact" } : {});
+  });
+});
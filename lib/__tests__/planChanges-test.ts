@@ -0,0 +1,196 @@
+import { PACKAGE_TYPE, PRORATION_MODE, PurchasesPackage } from "react-native-purchases";
+
+import { PLAN_CHANGE_CONFIG } from "@/constants/RevenueCat";
+import { PlanChange, getPlanChange, getPlanChangeStore } from "@/lib/planChanges";
+import { CustomerFixture, buildCustomerInfo, buildOffering, buildOfferings, buildPackage } from "@/lib/testing";
+
+const NOW = Date.UTC(2026, 0, 15);
+
+const originalGroups = PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS;
+
+const buildPlan = (productIdentifier: string, packageType: PACKAGE_TYPE): PurchasesPackage =>
+  buildPackage({
+    packageType,
+    identifier: productIdentifier,
+    product: { identifier: productIdentifier },
+  });
+
+const proMonthly = buildPlan("pro_monthly", PACKAGE_TYPE.MONTHLY);
+const proAnnual = buildPlan("pro_annual", PACKAGE_TYPE.ANNUAL);
+const basicMonthly = buildPlan("basic_monthly", PACKAGE_TYPE.MONTHLY);
+const lifetime = buildPlan("pro_lifetime", PACKAGE_TYPE.LIFETIME);
+
+const offerings = buildOfferings(
+  buildOffering({ packages: [proMonthly, proAnnual, basicMonthly, lifetime] })
+);
+
+const subscriber = (productIdentifier: string, customer: CustomerFixture = {}) =>
+  buildCustomerInfo({ entitlements: [{ productIdentifier }], ...customer }, NOW);
+
+const planChange = (
+  customerInfo: ReturnType<typeof buildCustomerInfo>,
+  toPackage: PurchasesPackage,
+  platform = "ios"
+) => getPlanChange(customerInfo, offerings, toPackage, platform, NOW);
+
+const expirationOf = (customerInfo: ReturnType<typeof buildCustomerInfo>) =>
+  Object.values(customerInfo.entitlements.active)[0].expirationDateMillis!;
+
+describe("getPlanChangeStore", () => {
+  it("follows the store the subscription was bought on", () => {
+    expect(getPlanChangeStore("APP_STORE", "ios")).toBe("appStore");
+    expect(getPlanChangeStore("MAC_APP_STORE", "macos")).toBe("appStore");
+    expect(getPlanChangeStore("PLAY_STORE", "android")).toBe("playStore");
+  });
+
+  it("uses the device's store for test store subscriptions", () => {
+    expect(getPlanChangeStore("TEST_STORE", "ios")).toBe("appStore");
+    expect(getPlanChangeStore("TEST_STORE", "android")).toBe("playStore");
+  });
+
+  it("can't change subscriptions from another store", () => {
+    expect(getPlanChangeStore("PLAY_STORE", "ios")).toBeNull();
+    expect(getPlanChangeStore("APP_STORE", "android")).toBeNull();
+    expect(getPlanChangeStore("STRIPE", "web")).toBeNull();
+  });
+});
+
+describe("getPlanChange", () => {
+  afterEach(() => {
+    PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS = originalGroups;
+  });
+
+  it("needs an active subscription", () => {
+    expect(planChange(buildCustomerInfo({}, NOW), proAnnual)).toEqual({
+      available: false,
+      reason: "noSubscription",
+    });
+  });
+
+  it("doesn't change to the current plan", () => {
+    expect(planChange(subscriber("pro_monthly"), proMonthly)).toEqual({
+      available: false,
+      reason: "samePlan",
+    });
+  });
+
+  it("only changes to subscriptions", () => {
+    expect(planChange(subscriber("pro_monthly"), lifetime)).toEqual({
+      available: false,
+      reason: "notSubscription",
+    });
+  });
+
+  it("can't change a subscription from another store", () => {
+    const customerInfo = subscriber("pro_monthly", { store: "PLAY_STORE" });
+
+    expect(planChange(customerInfo, proAnnual, "ios")).toEqual({
+      available: false,
+      reason: "otherStore",
+    });
+    expect(planChange(customerInfo, proAnnual, "android")).toMatchObject({ available: true });
+  });
+
+  describe("with subscription groups", () => {
+    beforeEach(() => {
+      PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS = [[["pro_monthly", "pro_annual"], ["basic_monthly"]]];
+    });
+
+    it("starts upgrades right away", () => {
+      expect(planChange(subscriber("basic_monthly"), proMonthly)).toMatchObject({
+        available: true,
+        type: "upgrade",
+        store: "appStore",
+        timing: "immediate",
+        effectiveDate: new Date(NOW),
+      });
+    });
+
+    it("starts downgrades at the next renewal", () => {
+      const customerInfo = subscriber("pro_monthly");
+
+      expect(planChange(customerInfo, basicMonthly)).toMatchObject({
+        available: true,
+        type: "downgrade",
+        timing: "nextRenewal",
+        effectiveDate: new Date(expirationOf(customerInfo)),
+      });
+    });
+
+    it("doesn't switch between groups", () => {
+      PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS = [[["pro_monthly", "pro_annual"]], [["basic_monthly"]]];
+
+      expect(planChange(subscriber("basic_monthly"), proMonthly)).toEqual({
+        available: false,
+        reason: "differentGroup",
+      });
+    });
+  });
+
+  describe("without subscription groups", () => {
+    beforeEach(() => {
+      PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS = [];
+    });
+
+    it("treats a longer plan that's cheaper per month as a crossgrade", () => {
+      expect(planChange(subscriber("pro_monthly"), proAnnual)).toMatchObject({
+        available: true,
+        type: "crossgrade",
+      });
+      expect(planChange(subscriber("pro_annual"), proMonthly)).toMatchObject({
+        available: true,
+        type: "crossgrade",
+      });
+    });
+
+    it("starts App Store crossgrades at the next renewal when the billing period changes", () => {
+      const customerInfo = subscriber("pro_monthly");
+
+      expect(planChange(customerInfo, proAnnual)).toMatchObject({
+        store: "appStore",
+        timing: "nextRenewal",
+        effectiveDate: new Date(expirationOf(customerInfo)),
+      });
+      expect(planChange(customerInfo, basicMonthly)).toMatchObject({
+        store: "appStore",
+        timing: "immediate",
+        effectiveDate: new Date(NOW),
+      });
+    });
+  });
+
+  describe("on Google Play", () => {
+    beforeEach(() => {
+      PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS = [[["pro_monthly", "pro_annual"], ["basic_monthly"]]];
+    });
+
+    it("replaces the old subscription with the proration mode of the change", () => {
+      const upgrade = planChange(subscriber("basic_monthly"), proAnnual, "android") as PlanChange;
+      const downgrade = planChange(subscriber("pro_annual"), basicMonthly, "android") as PlanChange;
+
+      expect(upgrade).toMatchObject({ store: "playStore", type: "upgrade", timing: "immediate" });
+      expect(upgrade.googleProductChangeInfo).toEqual({
+        oldProductIdentifier: "basic_monthly",
+        prorationMode: PLAN_CHANGE_CONFIG.GOOGLE_PRORATION_MODES.upgrade,
+      });
+      expect(downgrade).toMatchObject({ type: "downgrade", timing: "nextRenewal" });
+      expect(downgrade.googleProductChangeInfo).toEqual({
+        oldProductIdentifier: "pro_annual",
+        prorationMode: PRORATION_MODE.DEFERRED,
+      });
+    });
+
+    it("replaces monthly with annual right away when no groups are configured", () => {
+      PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS = [];
+
+      expect(planChange(subscriber("pro_monthly"), proAnnual, "android")).toMatchObject({
+        type: "crossgrade",
+        timing: "immediate",
+        googleProductChangeInfo: {
+          oldProductIdentifier: "pro_monthly",
+          prorationMode: PRORATION_MODE.IMMEDIATE_WITH_TIME_PRORATION,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { PACKAGE_TYPE, PurchasesPackage } from "react-native-purchases";
+
+import {
+  calculateSavingsPercent,
+  findBestValuePackage,
+  findReferencePackage,
+  formatPrice,
+  normalizePackagePrice,
+  sortPackagesByPrice,
+} from "@/lib/pricing";
+import { buildPackage } from "@/lib/testing";
+
+const weekly = buildPackage({ packageType: PACKAGE_TYPE.WEEKLY, product: { price: 5.2 } });
+const monthly = buildPackage({ packageType: PACKAGE_TYPE.MONTHLY, product: { price: 10 } });
+const annual = buildPackage({ packageType: PACKAGE_TYPE.ANNUAL, product: { price: 60 } });
+const lifetime = buildPackage({ packageType: PACKAGE_TYPE.LIFETIME, product: { price: 150 } });
+
+const withoutPrice = (packageItem: PurchasesPackage): PurchasesPackage => ({
+  ...packageItem,
+  product: { ...packageItem.product, price: undefined as unknown as number },
+});
+
+describe("normalizePackagePrice", () => {
+  it("normalizes weekly, monthly and annual plans", () => {
+    expect(normalizePackagePrice(weekly)).toMatchObject({ price: 5.2, currencyCode: "USD" });
+    expect(normalizePackagePrice(weekly).perWeek).toBeCloseTo(5.2);
+    expect(normalizePackagePrice(weekly).perYear).toBeCloseTo(270.4);
+
+    expect(normalizePackagePrice(monthly)).toMatchObject({ periodInMonths: 1, perMonth: 10, perYear: 120 });
+    expect(normalizePackagePrice(monthly).perWeek).toBeCloseTo(120 / 52);
+
+    expect(normalizePackagePrice(annual)).toMatchObject({ periodInMonths: 12, perMonth: 5, perYear: 60 });
+  });
+
+  it("falls back to the package type when the store reports no period", () => {
+    const quarterly = buildPackage({
+      packageType: PACKAGE_TYPE.THREE_MONTH,
+      product: { price: 30, subscriptionPeriod: null },
+    });
+
+    expect(normalizePackagePrice(quarterly)).toMatchObject({ periodInMonths: 3, perMonth: 10 });
+  });
+
+  it("has no per-period prices for lifetime packages", () => {
+    expect(normalizePackagePrice(lifetime)).toEqual({
+      price: 150,
+      currencyCode: "USD",
+      periodInMonths: null,
+      perWeek: null,
+      perMonth: null,
+      perYear: null,
+    });
+  });
+
+  it("keeps the currency of non-USD products", () => {
+    const euroAnnual = buildPackage({
+      packageType: PACKAGE_TYPE.ANNUAL,
+      product: { price: 48, currencyCode: "EUR" },
+    });
+
+    expect(normalizePackagePrice(euroAnnual)).toMatchObject({ currencyCode: "EUR", perMonth: 4 });
+  });
+});
+
+describe("sortPackagesByPrice", () => {
+  it("orders subscriptions by monthly cost and puts lifetime packages last", () => {
+    expect(sortPackagesByPrice([lifetime, weekly, monthly, annual])).toEqual([annual, monthly, weekly, lifetime]);
+  });
+});
+
+describe("findBestValuePackage", () => {
+  it("picks the subscription with the lowest monthly cost", () => {
+    expect(findBestValuePackage([weekly, monthly, annual, lifetime])).toBe(annual);
+  });
+
+  it("needs at least two subscriptions to compare", () => {
+    expect(findBestValuePackage([annual, lifetime])).toBeNull();
+  });
+});
+
+describe("findReferencePackage", () => {
+  it("prefers the monthly package", () => {
+    expect(findReferencePackage([annual, weekly, monthly])).toBe(monthly);
+  });
+
+  it("otherwise uses the subscription with the highest monthly cost", () => {
+    expect(findReferencePackage([annual, weekly, lifetime])).toBe(weekly);
+    expect(findReferencePackage([lifetime])).toBeNull();
+  });
+});
+
+describe("calculateSavingsPercent", () => {
+  it("compares monthly costs", () => {
+    expect(calculateSavingsPercent(annual, monthly)).toBe(50);
+    expect(calculateSavingsPercent(monthly, weekly)).toBe(56);
+  });
+
+  it("reports no savings against the same, a cheaper or a lifetime package", () => {
+    expect(calculateSavingsPercent(monthly, monthly)).toBeNull();
+    expect(calculateSavingsPercent(weekly, monthly)).toBeNull();
+    expect(calculateSavingsPercent(lifetime, monthly)).toBeNull();
+    expect(calculateSavingsPercent(annual, lifetime)).toBeNull();
+  });
+
+  it("reports no savings when a price is zero or missing", () => {
+    const freeMonthly = buildPackage({ packageType: PACKAGE_TYPE.MONTHLY, product: { price: 0 } });
+
+    expect(calculateSavingsPercent(annual, freeMonthly)).toBeNull();
+    expect(calculateSavingsPercent(annual, withoutPrice(monthly))).toBeNull();
+    expect(calculateSavingsPercent(withoutPrice(annual), monthly)).toBeNull();
+  });
+
+  it("only compares packages in the same currency", () => {
+    const euroMonthly = buildPackage({
+      packageType: PACKAGE_TYPE.MONTHLY,
+      product: { price: 10, currencyCode: "EUR" },
+    });
+    const euroAnnual = buildPackage({
+      packageType: PACKAGE_TYPE.ANNUAL,
+      product: { price: 90, currencyCode: "EUR" },
+    });
+
+    expect(calculateSavingsPercent(euroAnnual, euroMonthly)).toBe(25);
+    expect(calculateSavingsPercent(annual, euroMonthly)).toBeNull();
+  });
+});
+
+describe("formatPrice", () => {
+  it("formats amounts in the currency and locale", () => {
+    expect(formatPrice(4.99, "USD", "en-US")).toBe("$4.99");
+    expect(formatPrice(0, "USD", "en-US")).toBe("$0.00");
+    expect(formatPrice(4.99, "EUR", "de-DE")).toMatch(/^4,99\s€$/);
+  });
+
+  it("falls back to the currency code for unknown currencies", () => {
+    expect(formatPrice(4.99, "not a currency")).toBe("not a currency 4.99");
+  });
+});
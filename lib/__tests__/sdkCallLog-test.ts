@@ -0,0 +1,76 @@
+import { PACKAGE_TYPE, PURCHASES_ERROR_CODE } from "react-native-purchases";
+
+import { REVENUECAT_CONFIG } from "@/constants/RevenueCat";
+import { createSdkCallLog, logSdkCalls } from "@/lib/sdkCallLog";
+import { buildPackage, createTestPurchasesAdapter } from "@/lib/testing";
+
+const monthly = buildPackage({ packageType: PACKAGE_TYPE.MONTHLY });
+
+const setUp = async (capacity?: number) => {
+  const store = createTestPurchasesAdapter();
+  await store.configure({ apiKey: "test_key" });
+  const log = createSdkCallLog(capacity);
+  return { store, log, adapter: logSdkCalls(store, log, "test") };
+};
+
+describe("logSdkCalls", () => {
+  it("records calls with summarized arguments and results", async () => {
+    const { log, adapter } = await setUp();
+
+    await adapter.configure({ apiKey: "test_secret123" });
+    await adapter.purchasePackage(monthly);
+
+    const [configure, purchase] = log.getEntries();
+    expect(configure).toMatchObject({ method: "configure", status: "success", source: "test" });
+    expect(configure.args).toContain('"apiKey":"test_…"');
+    expect(configure.args).not.toContain("secret");
+    expect(purchase).toMatchObject({
+      method: "purchasePackage",
+      args: "Package($rc_monthly, test_monthly)",
+      status: "success",
+    });
+    expect(purchase.result).toContain(`active: ${REVENUECAT_CONFIG.ENTITLEMENT_ID}`);
+    expect(purchase.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("records the error code of failed calls", async () => {
+    const { store, log, adapter } = await setUp();
+    store.queuePurchaseOutcomes({ error: PURCHASES_ERROR_CODE.NETWORK_ERROR });
+
+    await expect(adapter.purchasePackage(monthly)).rejects.toBeDefined();
+
+    expect(log.getEntries()[0]).toMatchObject({
+      status: "error",
+      errorCode: PURCHASES_ERROR_CODE.NETWORK_ERROR,
+      result: null,
+    });
+  });
+
+  it("records customer info updates until the listener is removed", async () => {
+    const { store, log, adapter } = await setUp();
+    const listener = jest.fn();
+
+    adapter.addCustomerInfoUpdateListener(listener);
+    store.grantProduct(monthly.product.identifier, "P1M");
+    adapter.removeCustomerInfoUpdateListener(listener);
+    store.reset();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(log.getEntries().filter((entry) => entry.kind === "event")).toEqual([
+      expect.objectContaining({
+        method: "customerInfoUpdated",
+        result: `CustomerInfo(active: ${REVENUECAT_CONFIG.ENTITLEMENT_ID})`,
+      }),
+    ]);
+  });
+
+  it("keeps only the newest entries", async () => {
+    const { log, adapter } = await setUp(2);
+
+    await adapter.getCustomerInfo();
+    await adapter.getOfferings();
+    await adapter.restorePurchases();
+
+    expect(log.getEntries().map((entry) => entry.method)).toEqual(["getOfferings", "restorePurchases"]);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Purchase-Funnel Analytics
+ *
+ * A typed event bus for the purchase funnel. The paywall, usePurchases and
+ * RevenueCatProvider track events; sinks decide where they go (console, memory,
+ * your own HTTP endpoint — see lib/analyticsSinks.ts).
+ *
+ * USAGE:
+ * const analytics = createAnalytics([createConsoleSink()]);
+ * analytics.track("paywall_viewed", { offeringId: "default", placement: "settings", ... });
+ *
+ * In components, use the instance from the provider:
+ * const { analytics } = useRevenueCat();
+ *
+ * Every purchase event carries the offering, package, product and placement,
+ * so conversion can be measured per package and per placement. Shared context
+ * (app user ID, experiment variants, platform) is attached to every event.
+ */
+
+import { Platform } from "react-native";
+import { PurchasesPackage } from "react-native-purchases";
+
+import { ANALYTICS_CONFIG, PlanChangeType } from "@/constants/RevenueCat";
+import { OfferingSource } from "@/lib/offerings";
+import { OfferCodeRedemptionMethod } from "@/lib/offerCodes";
+import { PurchaseErrorCategory } from "@/lib/purchaseErrors";
+import { SubscriptionManagementMethod } from "@/lib/subscriptionManagement";
+import { PlanChangeTiming } from "@/lib/planChanges";
+import { createConsoleSink, createHttpSink } from "@/lib/analyticsSinks";
+
+/** Package a funnel event is about */
+export interface PackageEventProperties {
+  offeringId: string | null;
+  packageIdentifier: string;
+  productIdentifier: string;
+  /** Paywall placement the package was shown in, see PAYWALL_PLACEMENTS */
+  placement: string | null;
+}
+
+export interface PriceEventProperties {
+  price: number;
+  currencyCode: string;
+}
+
+/** Promotional offer applied to a purchase (see usePaywall's discount option) */
+export interface DiscountEventProperties {
+  discountIdentifier: string | null;
+}
+
+/** Plan being replaced and how (see lib/planChanges.ts) */
+export interface PlanChangeEventProperties {
+  fromProductIdentifier: string;
+  changeType: PlanChangeType;
+  timing: PlanChangeTiming;
+}
+
+export interface ErrorEventProperties {
+  errorCategory: PurchaseErrorCategory;
+  errorCode: string | null;
+}
+
+/**
+ * Every event and its properties
+ */
+export interface AnalyticsEventMap {
+  // RevenueCatProvider
+  sdk_configured: { isDemoMode: boolean };
+  entitlements_changed: { activeEntitlements: string[]; tier: string };
+
+  // app/paywall.tsx
+  paywall_viewed: {
+    offeringId: string | null;
+    offeringSource: OfferingSource;
+    placement: string | null;
+    packageCount: number;
+    discountIdentifier: string | null;
+  };
+  paywall_dismissed: { offeringId: string | null; placement: string | null };
+  package_selected: PackageEventProperties;
+
+  // usePurchases
+  // Prices of discounted purchases are the discounted price
+  purchase_started: PackageEventProperties & PriceEventProperties & DiscountEventProperties;
+  purchase_succeeded: PackageEventProperties & PriceEventProperties & DiscountEventProperties;
+  purchase_cancelled: PackageEventProperties & DiscountEventProperties;
+  purchase_failed: PackageEventProperties & DiscountEventProperties & ErrorEventProperties;
+  restore_started: Record<string, never>;
+  // Restored entitlements are reported by entitlements_changed
+  restore_succeeded: Record<string, never>;
+  restore_failed: ErrorEventProperties;
+  offer_code_redemption_started: { method: OfferCodeRedemptionMethod };
+  // Only "inApp" redemptions are confirmed; store redemptions show up as entitlements_changed
+  offer_code_redeemed: { method: OfferCodeRedemptionMethod };
+  offer_code_redemption_failed: { method: OfferCodeRedemptionMethod } & ErrorEventProperties;
+  // Accepted retention offers show up as paywall_viewed with placement "retention"
+  exit_survey_answered: { reasonId: string; retentionOffered: boolean };
+  // reasonId is null when the exit survey was skipped or is disabled
+  subscription_management_opened: { method: SubscriptionManagementMethod; reasonId: string | null };
+  subscription_management_failed: { method: SubscriptionManagementMethod } & ErrorEventProperties;
+  plan_change_started: PackageEventProperties & PlanChangeEventProperties;
+  // Deferred changes are reported when they're made, not when they take effect
+  plan_changed: PackageEventProperties & PlanChangeEventProperties;
+  plan_change_cancelled: PackageEventProperties & PlanChangeEventProperties;
+  plan_change_failed: PackageEventProperties & PlanChangeEventProperties & ErrorEventProperties;
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventMap;
+
+/** Attached to every event */
+export interface AnalyticsContext {
+  appUserID: string | null;
+  /** Experiment variants keyed by experiment identifier */
+  experiments: Record<string, string>;
+  isDemoMode: boolean;
+  platform: string;
+}
+
+export type AnalyticsEvent<Name extends AnalyticsEventName = AnalyticsEventName> = {
+  [N in Name]: {
+    /** Unique per event, lets endpoints drop duplicates from retried batches */
+    id: string;
+    name: N;
+    properties: AnalyticsEventMap[N];
+    context: AnalyticsContext;
+    /** Epoch milliseconds */
+    timestamp: number;
+  };
+}[Name];
+
+export interface AnalyticsSink {
+  /** Receives every tracked event. Errors are logged and never reach the caller. */
+  handle: (event: AnalyticsEvent) => void | Promise<void>;
+  /** Send anything buffered, e.g. before the app goes to the background */
+  flush?: () => Promise<void>;
+  /** Stop timers and release resources */
+  dispose?: () => void;
+}
+
+export interface Analytics {
+  track: <Name extends AnalyticsEventName>(
+    name: Name,
+    properties: AnalyticsEventMap[Name]
+  ) => void;
+  /** Merge values into the context attached to every event */
+  setContext: (context: Partial<AnalyticsContext>) => void;
+  /** Add a sink. Returns a function that removes it. */
+  addSink: (sink: AnalyticsSink) => () => void;
+  flush: () => Promise<void>;
+}
+
+let eventCounter = 0;
+
+const createEventId = () =>
+  `${Date.now().toString(36)}-${(eventCounter++).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Create an event bus that fans events out to its sinks
+ */
+export const createAnalytics = (sinks: AnalyticsSink[] = []): Analytics => {
+  const activeSinks = new Set(sinks);
+  let context: AnalyticsContext = {
+    appUserID: null,
+    experiments: {},
+    isDemoMode: false,
+    platform: Platform.OS,
+  };
+
+  const track: Analytics["track"] = (name, properties) => {
+    const event = {
+      id: createEventId(),
+      name,
+      properties,
+      context,
+      timestamp: Date.now(),
+    } as AnalyticsEvent;
+
+    activeSinks.forEach((sink) => {
+      try {
+        Promise.resolve(sink.handle(event)).catch((err) =>
+          console.warn(`⚠️ Analytics sink failed to handle "${name}":`, err)
+        );
+      } catch (err) {
+        console.warn(`⚠️ Analytics sink failed to handle "${name}":`, err);
+      }
+    });
+  };
+
+  return {
+    track,
+    setContext: (update) => {
+      context = { ...context, ...update };
+    },
+    addSink: (sink) => {
+      activeSinks.add(sink);
+      return () => {
+        activeSinks.delete(sink);
+      };
+    },
+    flush: async () => {
+      await Promise.all(
+        [...activeSinks].map((sink) =>
+          sink.flush?.().catch((err) => console.warn("⚠️ Analytics sink failed to flush:", err))
+        )
+      );
+    },
+  };
+};
+
+/**
+ * Sinks configured in ANALYTICS_CONFIG
+ */
+const createDefaultSinks = (): AnalyticsSink[] => {
+  const sinks: AnalyticsSink[] = [];
+  if (ANALYTICS_CONFIG.LOG_EVENTS) {
+    sinks.push(createConsoleSink());
+  }
+  if (ANALYTICS_CONFIG.ENDPOINT) {
+    sinks.push(
+      createHttpSink({
+        endpoint: ANALYTICS_CONFIG.ENDPOINT,
+        batchSize: ANALYTICS_CONFIG.BATCH_SIZE,
+        flushIntervalMs: ANALYTICS_CONFIG.FLUSH_INTERVAL_MS,
+        maxQueueSize: ANALYTICS_CONFIG.MAX_QUEUE_SIZE,
+      })
+    );
+  }
+  return sinks;
+};
+
+/**
+ * App-wide instance used by RevenueCatProvider unless another one is passed in
+ */
+export const analytics = createAnalytics(createDefaultSinks());
+
+/**
+ * Properties shared by every event about a package
+ */
+export const getPackageEventProperties = (
+  packageItem: PurchasesPackage,
+  placement: string | null = null
+): PackageEventProperties => ({
+  offeringId: packageItem.presentedOfferingContext?.offeringIdentifier ?? null,
+  packageIdentifier: packageItem.identifier,
+  productIdentifier: packageItem.product.identifier,
+  placement,
+});
@@ -0,0 +1,207 @@
+/**
+ * Analytics Sinks
+ *
+ * Destinations for events from lib/analytics.ts:
+ * - createConsoleSink: logs every event (development)
+ * - createMemorySink: keeps events in memory (tests, debug screens)
+ * - createHttpSink: POSTs batches to your endpoint, queueing them on the
+ *   device while offline
+ *
+ * USAGE:
+ * const memory = createMemorySink();
+ * const removeSink = analytics.addSink(memory);
+ * memory.events.filter((event) => event.name === "purchase_succeeded");
+ */
+
+import type { AnalyticsEvent, AnalyticsEventName, AnalyticsSink } from "@/lib/analytics";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+const QUEUE_KEY = "analytics-queue";
+
+// Retry delays after failed uploads: 10s, 20s, 40s, ... up to 5 minutes
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Log every event to the console
+ */
+export const createConsoleSink = (): AnalyticsSink => ({
+  handle: (event) => {
+    const { experiments } = event.context;
+    console.log(
+      `📊 ${event.name}`,
+      JSON.stringify(event.properties),
+      Object.keys(experiments).length > 0 ? `🧪 ${JSON.stringify(experiments)}` : ""
+    );
+  },
+});
+
+export interface MemorySink extends AnalyticsSink {
+  /** Tracked events, oldest first */
+  readonly events: AnalyticsEvent[];
+  /** Events with the given name */
+  eventsNamed: <Name extends AnalyticsEventName>(name: Name) => AnalyticsEvent<Name>[];
+  clear: () => void;
+}
+
+/**
+ * Keep events in memory
+ *
+ * @param limit Oldest events are dropped beyond this many
+ */
+export const createMemorySink = (limit = 1000): MemorySink => {
+  const events: AnalyticsEvent[] = [];
+
+  return {
+    events,
+    handle: (event) => {
+      events.push(event);
+      if (events.length > limit) {
+        events.splice(0, events.length - limit);
+      }
+    },
+    eventsNamed: <Name extends AnalyticsEventName>(name: Name) =>
+      events.filter((event) => event.name === name) as AnalyticsEvent<Name>[],
+    clear: () => {
+      events.length = 0;
+    },
+  };
+};
+
+export interface HttpSinkOptions {
+  /** URL that receives POST requests with a JSON body of { events: [...] } */
+  endpoint: string;
+  /** Extra request headers, e.g. an API key */
+  headers?: Record<string, string>;
+  /** Events per request */
+  batchSize?: number;
+  /** How long events wait for a full batch before being sent anyway */
+  flushIntervalMs?: number;
+  /** Oldest events are dropped when more than this many are waiting */
+  maxQueueSize?: number;
+  /** Persist waiting events so they survive restarts (default true) */
+  persistQueue?: boolean;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Send events to an HTTP endpoint in batches
+ *
+ * Events wait in a queue until a batch is full or the flush interval passes.
+ * Batches that fail with a network error or a 5xx response stay queued and are
+ * retried with exponential backoff; batches rejected with a 4xx response are
+ * dropped so one bad event can't block the queue. The queue is persisted, so
+ * events tracked offline are sent on a later launch.
+ */
+export const createHttpSink = ({
+  endpoint,
+  headers = {},
+  batchSize = 20,
+  flushIntervalMs = 10_000,
+  maxQueueSize = 500,
+  persistQueue = true,
+  fetch: fetchImpl = fetch,
+}: HttpSinkOptions): AnalyticsSink => {
+  let queue: AnalyticsEvent[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> | null = null;
+  let failedAttempts = 0;
+  let disposed = false;
+
+  const persist = () => (persistQueue ? writeJSON(QUEUE_KEY, queue) : Promise.resolve());
+
+  const enqueue = (events: AnalyticsEvent[]) => {
+    queue = [...queue, ...events];
+    if (queue.length > maxQueueSize) {
+      console.warn(`⚠️ Analytics queue full, dropping ${queue.length - maxQueueSize} oldest events`);
+      queue = queue.slice(queue.length - maxQueueSize);
+    }
+  };
+
+  const scheduleFlush = (delayMs: number) => {
+    if (disposed || flushTimer || queue.length === 0) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      flush();
+    }, delayMs);
+  };
+
+  const sendBatches = async () => {
+    while (queue.length > 0 && !disposed) {
+      const batch = queue.slice(0, batchSize);
+
+      // Network errors (offline, unreachable) throw and keep the batch queued
+      const response = await fetchImpl(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ events: batch }),
+      });
+
+      if (response.status >= 500) {
+        throw new Error(`Analytics endpoint responded with ${response.status}`);
+      }
+      if (!response.ok) {
+        console.warn(`⚠️ Analytics endpoint rejected ${batch.length} events (${response.status}), dropping them`);
+      }
+
+      const sentIds = new Set(batch.map((event) => event.id));
+      queue = queue.filter((event) => !sentIds.has(event.id));
+      await persist();
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (inFlight) return inFlight;
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+
+    inFlight = sendBatches()
+      .then(() => {
+        failedAttempts = 0;
+      })
+      .catch((err) => {
+        failedAttempts += 1;
+        const retryDelayMs = Math.min(flushIntervalMs * 2 ** (failedAttempts - 1), MAX_RETRY_DELAY_MS);
+        console.warn(`⚠️ Failed to send analytics, retrying in ${Math.round(retryDelayMs / 1000)}s:`, err);
+        scheduleFlush(retryDelayMs);
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    return inFlight;
+  };
+
+  // Pick up events queued during a previous launch
+  const restored = persistQueue
+    ? readJSON<AnalyticsEvent[]>(QUEUE_KEY).then((stored) => {
+        if (stored?.length) {
+          queue = [...stored, ...queue];
+          scheduleFlush(0);
+        }
+      })
+    : Promise.resolve();
+
+  return {
+    handle: async (event) => {
+      await restored;
+      enqueue([event]);
+      await persist();
+
+      if (queue.length >= batchSize && failedAttempts === 0) {
+        flush();
+      } else {
+        scheduleFlush(flushIntervalMs);
+      }
+    },
+    flush: async () => {
+      await restored;
+      await flush();
+    },
+    dispose: () => {
+      disposed = true;
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = null;
+    },
+  };
+};
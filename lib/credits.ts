@@ -0,0 +1,227 @@
+/**
+ * Credits
+ *
+ * An on-device ledger of virtual credits bought with consumable products
+ * ("credit packs", see CREDIT_PACKS in constants/RevenueCat.ts). Every
+ * non-subscription transaction for a credit pack is credited exactly once,
+ * keyed by its store transaction ID, so repeated customer info updates,
+ * restores and relaunches never credit a purchase twice.
+ *
+ * USAGE (via useCredits):
+ * const { balance, spend, history } = useCredits();
+ * if (spend(10, "export")) { ... } // false when the balance is too low
+ *
+ * There is one ledger per app user ID. It lives on the device only: after a
+ * reinstall purchases are credited again but spending is forgotten. Balances
+ * that must be exact across devices belong on your own server.
+ */
+
+import {
+  PurchasesOfferings,
+  PurchasesPackage,
+  PurchasesStoreTransaction,
+} from "react-native-purchases";
+
+import { readJSON, writeJSON } from "@/lib/storage";
+
+const STORAGE_KEY_PREFIX = "credits/";
+
+// Older entries are dropped from the history (the balance keeps counting them)
+const MAX_HISTORY_ENTRIES = 100;
+
+/** Credits granted by each consumable product, keyed by store product identifier */
+export type CreditPacks = Readonly<Record<string, number>>;
+
+export interface CreditEntry {
+  /** Store transaction ID for purchases, generated for spending */
+  id: string;
+  type: "purchase" | "spend";
+  /** Positive when credited, negative when spent */
+  amount: number;
+  /** Credit pack that was bought, null for spending */
+  productIdentifier: string | null;
+  /** What the credits were spent on, null for purchases */
+  reason: string | null;
+  /** Epoch milliseconds */
+  createdAt: number;
+}
+
+export interface CreditLedgerState {
+  appUserID: string;
+  balance: number;
+  /** Newest first */
+  history: CreditEntry[];
+  /** Every store transaction credited so far, kept even after its history entry is dropped */
+  creditedTransactionIds: string[];
+}
+
+export interface CreditLedger {
+  /** Switch to a user's stored ledger, crediting transactions that arrived while it loaded */
+  setUser: (state: CreditLedgerState) => void;
+  /**
+   * Credit a user's credit pack transactions that haven't been credited yet
+   * Returns the new entries.
+   */
+  creditTransactions: (
+    appUserID: string,
+    transactions: readonly PurchasesStoreTransaction[],
+    creditPacks: CreditPacks
+  ) => CreditEntry[];
+  /** Spend credits from the current user's balance. Returns false when it's too low. */
+  spend: (amount: number, reason?: string | null) => boolean;
+}
+
+const storageKey = (appUserID: string) => STORAGE_KEY_PREFIX + appUserID;
+
+export const createEmptyCreditLedgerState = (appUserID: string): CreditLedgerState => ({
+  appUserID,
+  balance: 0,
+  history: [],
+  creditedTransactionIds: [],
+});
+
+/**
+ * Load the ledger stored for a user
+ */
+export const loadCreditLedger = async (appUserID: string): Promise<CreditLedgerState> =>
+  (await readJSON<CreditLedgerState>(storageKey(appUserID))) ??
+  createEmptyCreditLedgerState(appUserID);
+
+/**
+ * Credits a package grants, or null when it isn't a credit pack
+ */
+export const getPackageCredits = (
+  packageItem: PurchasesPackage,
+  creditPacks: CreditPacks
+): number | null => creditPacks[packageItem.product.identifier] ?? null;
+
+/**
+ * Find the credit packs in every offering, smallest first
+ * A product offered in several offerings is listed once.
+ */
+export const findCreditPackages = (
+  offerings: PurchasesOfferings | null,
+  creditPacks: CreditPacks
+): PurchasesPackage[] => {
+  const byProduct = new Map<string, PurchasesPackage>();
+  Object.values(offerings?.all ?? {}).forEach((offering) => {
+    offering.availablePackages.forEach((pkg) => {
+      if (getPackageCredits(pkg, creditPacks) != null && !byProduct.has(pkg.product.identifier)) {
+        byProduct.set(pkg.product.identifier, pkg);
+      }
+    });
+  });
+
+  return [...byProduct.values()].sort(
+    (a, b) => creditPacks[a.product.identifier] - creditPacks[b.product.identifier]
+  );
+};
+
+/**
+ * Create a ledger for the current user
+ *
+ * @param onChange Called with the new state after every change
+ */
+export const createCreditLedger = (
+  onChange: (state: CreditLedgerState) => void
+): CreditLedger => {
+  let state: CreditLedgerState | null = null;
+  let spendCounter = 0;
+
+  // Transactions reported before the user's ledger finished loading
+  let pending: {
+    appUserID: string;
+    transactions: readonly PurchasesStoreTransaction[];
+    creditPacks: CreditPacks;
+  } | null = null;
+
+  const update = (next: CreditLedgerState) => {
+    state = next;
+    onChange(next);
+    writeJSON(storageKey(next.appUserID), next);
+  };
+
+  const addEntries = (entries: CreditEntry[], creditedTransactionIds: string[] = []) => {
+    if (!state) return;
+    update({
+      ...state,
+      balance: entries.reduce((balance, entry) => balance + entry.amount, state.balance),
+      history: [...entries].reverse().concat(state.history).slice(0, MAX_HISTORY_ENTRIES),
+      creditedTransactionIds: [...state.creditedTransactionIds, ...creditedTransactionIds],
+    });
+  };
+
+  const creditTransactions: CreditLedger["creditTransactions"] = (
+    appUserID,
+    transactions,
+    creditPacks
+  ) => {
+    if (state?.appUserID !== appUserID) {
+      pending = { appUserID, transactions, creditPacks };
+      return [];
+    }
+
+    const credited = new Set(state.creditedTransactionIds);
+    const entries: CreditEntry[] = [];
+    transactions.forEach((transaction) => {
+      const amount = creditPacks[transaction.productIdentifier];
+      if (amount == null || credited.has(transaction.transactionIdentifier)) return;
+
+      credited.add(transaction.transactionIdentifier);
+      const purchaseDate = Date.parse(transaction.purchaseDate);
+      entries.push({
+        id: transaction.transactionIdentifier,
+        type: "purchase",
+        amount,
+        productIdentifier: transaction.productIdentifier,
+        reason: null,
+        createdAt: Number.isNaN(purchaseDate) ? Date.now() : purchaseDate,
+      });
+    });
+
+    if (entries.length > 0) {
+      console.log(`🪙 Credited ${entries.length} credit pack purchase(s)`);
+      addEntries(entries, entries.map((entry) => entry.id));
+    }
+    return entries;
+  };
+
+  return {
+    setUser: (nextState) => {
+      // The ledger in memory is never older than the stored one
+      if (state?.appUserID !== nextState.appUserID) {
+        update(nextState);
+      }
+      if (pending?.appUserID === nextState.appUserID) {
+        const { appUserID, transactions, creditPacks } = pending;
+        pending = null;
+        creditTransactions(appUserID, transactions, creditPacks);
+      }
+    },
+
+    creditTransactions,
+
+    spend: (amount, reason = null) => {
+      if (!Number.isInteger(amount) || amount <= 0) {
+        console.warn(`⚠️ Credits can only be spent in positive whole amounts, got ${amount}`);
+        return false;
+      }
+      if (!state || state.balance < amount) {
+        return false;
+      }
+
+      spendCounter += 1;
+      addEntries([
+        {
+          id: `spend_${Date.now().toString(36)}_${spendCounter}`,
+          type: "spend",
+          amount: -amount,
+          productIdentifier: null,
+          reason,
+          createdAt: Date.now(),
+        },
+      ]);
+      return true;
+    },
+  };
+};
@@ -0,0 +1,323 @@
+/**
+ * Demo Catalog
+ *
+ * A bundled product catalog used when RevenueCat isn't configured yet.
+ * It mirrors what a typical RevenueCat offering looks like (weekly, monthly,
+ * annual and lifetime packages, with trials and intro prices) so the paywall
+ * and purchase flow can be explored end to end before any dashboard setup.
+ *
+ * The monthly and annual plans also carry a promotional offer
+ * (open /paywall?discount=demo_comeback_50 to see it), and the offer code
+ * DEMOFREEMONTH unlocks a free month on the code-entry screen. Three credit
+ * packs are sold from a separate offering (see lib/credits.ts).
+ *
+ * Nothing here ever reaches a store: purchases and restores are simulated by
+ * the in-memory fake store from lib/fakePurchasesAdapter.ts.
+ */
+
+import {
+  PACKAGE_TYPE,
+  PRODUCT_CATEGORY,
+  PRODUCT_TYPE,
+  PurchasesIntroPrice,
+  PurchasesOffering,
+  PurchasesOfferings,
+  PurchasesPackage,
+  PurchasesStoreProduct,
+  PurchasesStoreProductDiscount,
+} from "react-native-purchases";
+
+import { PACKAGE_TYPES } from "@/constants/RevenueCat";
+import { FakePurchasesAdapter, createFakePurchasesAdapter } from "@/lib/fakePurchasesAdapter";
+
+export const DEMO_OFFERING_ID = "demo";
+
+export const DEMO_PRODUCT_IDS = {
+  WEEKLY: "demo_premium_weekly",
+  MONTHLY: "demo_premium_monthly",
+  ANNUAL: "demo_premium_annual",
+  LIFETIME: "demo_premium_lifetime",
+};
+
+export const DEMO_CREDITS_OFFERING_ID = "demo_credits";
+
+/** Consumable demo products and the credits they grant */
+export const DEMO_CREDIT_PACKS: Record<string, number> = {
+  demo_credits_100: 100,
+  demo_credits_500: 500,
+  demo_credits_1200: 1200,
+};
+
+/** Promotional offer on the demo monthly and annual plans */
+export const DEMO_DISCOUNT_ID = "demo_comeback_50";
+
+/** Offer code that grants a free month of the demo monthly plan */
+export const DEMO_OFFER_CODE = "DEMOFREEMONTH";
+
+/**
+ * Simulated network latency for demo purchases and restores
+ */
+const DEMO_LATENCY_MS = 600;
+
+const formatUSD = (amount: number) => `$${amount.toFixed(2)}`;
+
+interface DemoProductDefinition {
+  identifier: string;
+  title: string;
+  description: string;
+  price: number;
+  subscriptionPeriod: string | null;
+  weeksPerPeriod: number | null;
+  consumable?: boolean;
+  introPrice?: PurchasesIntroPrice;
+  discounts?: PurchasesStoreProductDiscount[];
+}
+
+const buildProduct = (
+  definition: DemoProductDefinition,
+  offeringIdentifier: string = DEMO_OFFERING_ID
+): PurchasesStoreProduct => {
+  const { price, weeksPerPeriod } = definition;
+  const pricePerWeek = weeksPerPeriod ? price / weeksPerPeriod : null;
+  const pricePerMonth = pricePerWeek != null ? (pricePerWeek * 52) / 12 : null;
+  const pricePerYear = pricePerWeek != null ? pricePerWeek * 52 : null;
+  const isSubscription = definition.subscriptionPeriod != null;
+
+  return {
+    identifier: definition.identifier,
+    description: definition.description,
+    title: definition.title,
+    price,
+    priceString: formatUSD(price),
+    pricePerWeek,
+    pricePerMonth,
+    pricePerYear,
+    pricePerWeekString: pricePerWeek != null ? formatUSD(pricePerWeek) : null,
+    pricePerMonthString: pricePerMonth != null ? formatUSD(pricePerMonth) : null,
+    pricePerYearString: pricePerYear != null ? formatUSD(pricePerYear) : null,
+    currencyCode: "USD",
+    introPrice: definition.introPrice ?? null,
+    discounts: definition.discounts ?? null,
+    productCategory: isSubscription
+      ? PRODUCT_CATEGORY.SUBSCRIPTION
+      : PRODUCT_CATEGORY.NON_SUBSCRIPTION,
+    productType: isSubscription
+      ? PRODUCT_TYPE.AUTO_RENEWABLE_SUBSCRIPTION
+      : definition.consumable
+        ? PRODUCT_TYPE.CONSUMABLE
+        : PRODUCT_TYPE.NON_CONSUMABLE,
+    subscriptionPeriod: definition.subscriptionPeriod,
+    defaultOption: null,
+    subscriptionOptions: null,
+    presentedOfferingIdentifier: offeringIdentifier,
+    presentedOfferingContext: {
+      offeringIdentifier,
+      placementIdentifier: null,
+      targetingContext: null,
+    },
+  };
+};
+
+const buildPackage = (
+  identifier: string,
+  packageType: PACKAGE_TYPE,
+  product: PurchasesStoreProduct,
+  offeringIdentifier: string = DEMO_OFFERING_ID
+): PurchasesPackage => ({
+  identifier,
+  packageType,
+  product,
+  offeringIdentifier,
+  presentedOfferingContext: {
+    offeringIdentifier,
+    placementIdentifier: null,
+    targetingContext: null,
+  },
+  webCheckoutUrl: null,
+});
+
+const weekly = buildPackage(
+  PACKAGE_TYPES.WEEKLY,
+  PACKAGE_TYPE.WEEKLY,
+  buildProduct({
+    identifier: DEMO_PRODUCT_IDS.WEEKLY,
+    title: "Premium Weekly",
+    description: "Full access, billed every week",
+    price: 2.99,
+    subscriptionPeriod: "P1W",
+    weeksPerPeriod: 1,
+  })
+);
+
+const monthly = buildPackage(
+  PACKAGE_TYPES.MONTHLY,
+  PACKAGE_TYPE.MONTHLY,
+  buildProduct({
+    identifier: DEMO_PRODUCT_IDS.MONTHLY,
+    title: "Premium Monthly",
+    description: "Full access, billed every month",
+    price: 9.99,
+    subscriptionPeriod: "P1M",
+    weeksPerPeriod: 52 / 12,
+    introPrice: {
+      price: 0.99,
+      priceString: formatUSD(0.99),
+      cycles: 1,
+      period: "P1M",
+      periodUnit: "MONTH",
+      periodNumberOfUnits: 1,
+    },
+    discounts: [
+      {
+        identifier: DEMO_DISCOUNT_ID,
+        price: 4.99,
+        priceString: formatUSD(4.99),
+        cycles: 3,
+        period: "P1M",
+        periodUnit: "MONTH",
+        periodNumberOfUnits: 1,
+      },
+    ],
+  })
+);
+
+const annual = buildPackage(
+  PACKAGE_TYPES.ANNUAL,
+  PACKAGE_TYPE.ANNUAL,
+  buildProduct({
+    identifier: DEMO_PRODUCT_IDS.ANNUAL,
+    title: "Premium Annual",
+    description: "Full access, billed every year",
+    price: 59.99,
+    subscriptionPeriod: "P1Y",
+    weeksPerPeriod: 52,
+    introPrice: {
+      price: 0,
+      priceString: formatUSD(0),
+      cycles: 1,
+      period: "P1W",
+      periodUnit: "WEEK",
+      periodNumberOfUnits: 1,
+    },
+    discounts: [
+      {
+        identifier: DEMO_DISCOUNT_ID,
+        price: 29.99,
+        priceString: formatUSD(29.99),
+        cycles: 1,
+        period: "P1Y",
+        periodUnit: "YEAR",
+        periodNumberOfUnits: 1,
+      },
+    ],
+  })
+);
+
+const lifetime = buildPackage(
+  PACKAGE_TYPES.LIFETIME,
+  PACKAGE_TYPE.LIFETIME,
+  buildProduct({
+    identifier: DEMO_PRODUCT_IDS.LIFETIME,
+    title: "Premium Lifetime",
+    description: "Pay once, keep premium forever",
+    price: 149.99,
+    subscriptionPeriod: null,
+    weeksPerPeriod: null,
+  })
+);
+
+const demoOffering: PurchasesOffering = {
+  identifier: DEMO_OFFERING_ID,
+  serverDescription: "Demo offering bundled with the app",
+  // Example of server-driven paywall content (see lib/paywallConfig.ts)
+  metadata: {
+    paywall: {
+      version: 1,
+      subtitle: {
+        en: "Unlock every feature. Cancel anytime.",
+        es: "Desbloquea todas las funciones. Cancela cuando quieras.",
+        ar: "افتح جميع الميزات. ألغِ في أي وقت.",
+      },
+      highlightedPackage: PACKAGE_TYPES.ANNUAL,
+    },
+  },
+  availablePackages: [weekly, monthly, annual, lifetime],
+  lifetime,
+  annual,
+  sixMonth: null,
+  threeMonth: null,
+  twoMonth: null,
+  monthly,
+  weekly,
+  webCheckoutUrl: null,
+};
+
+const buildCreditPack = (productIdentifier: string, price: number) => {
+  const credits = DEMO_CREDIT_PACKS[productIdentifier];
+  return buildPackage(
+    `credits_${credits}`,
+    PACKAGE_TYPE.CUSTOM,
+    buildProduct(
+      {
+        identifier: productIdentifier,
+        title: `${credits} Credits`,
+        description: `Adds ${credits} credits to your balance`,
+        price,
+        subscriptionPeriod: null,
+        weeksPerPeriod: null,
+        consumable: true,
+      },
+      DEMO_CREDITS_OFFERING_ID
+    ),
+    DEMO_CREDITS_OFFERING_ID
+  );
+};
+
+const creditsOffering: PurchasesOffering = {
+  identifier: DEMO_CREDITS_OFFERING_ID,
+  serverDescription: "Demo credit packs (consumables)",
+  metadata: {},
+  availablePackages: [
+    buildCreditPack("demo_credits_100", 0.99),
+    buildCreditPack("demo_credits_500", 3.99),
+    buildCreditPack("demo_credits_1200", 7.99),
+  ],
+  lifetime: null,
+  annual: null,
+  sixMonth: null,
+  threeMonth: null,
+  twoMonth: null,
+  monthly: null,
+  weekly: null,
+  webCheckoutUrl: null,
+};
+
+export const DEMO_OFFERINGS: PurchasesOfferings = {
+  current: demoOffering,
+  all: {
+    [DEMO_OFFERING_ID]: demoOffering,
+    [DEMO_CREDITS_OFFERING_ID]: creditsOffering,
+  },
+};
+
+/**
+ * Create the fake store that powers demo mode
+ * Restoring "finds" an annual subscription, as if it had been bought on another device
+ */
+export function createDemoPurchasesAdapter(): FakePurchasesAdapter {
+  return createFakePurchasesAdapter({
+    offerings: DEMO_OFFERINGS,
+    appUserID: "$RCAnonymousID:demo",
+    latencyMs: DEMO_LATENCY_MS,
+    // Credit packs don't unlock premium
+    entitlementsByProduct: Object.fromEntries(
+      Object.keys(DEMO_CREDIT_PACKS).map((productIdentifier) => [productIdentifier, []])
+    ),
+    restorableProducts: [
+      { productIdentifier: DEMO_PRODUCT_IDS.ANNUAL, subscriptionPeriod: "P1Y" },
+    ],
+    offerCodes: {
+      [DEMO_OFFER_CODE]: { productIdentifier: DEMO_PRODUCT_IDS.MONTHLY, subscriptionPeriod: "P1M" },
+    },
+  });
+}
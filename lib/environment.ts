@@ -0,0 +1,62 @@
+/**
+ * Environment Selection
+ *
+ * Remembers which environment profile (ENVIRONMENT_PROFILES in
+ * constants/RevenueCat.ts) the app runs in, and applies the profile's
+ * offering override to the offerings loaded from RevenueCat.
+ *
+ * USAGE (via useRevenueCat):
+ * const { environment, switchEnvironment } = useRevenueCat();
+ * await switchEnvironment("sandbox");
+ *
+ * The choice is only remembered in debug builds (DEBUG_MODE); release builds
+ * always start in DEFAULT_ENVIRONMENT_ID.
+ */
+
+import { PurchasesOfferings } from "react-native-purchases";
+
+import {
+  DEFAULT_ENVIRONMENT_ID,
+  EnvironmentProfile,
+  REVENUECAT_CONFIG,
+  getEnvironmentProfile,
+} from "@/constants/RevenueCat";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+const STORAGE_KEY = "environment";
+
+/**
+ * Load the environment the app should start in
+ */
+export const loadEnvironmentProfile = async (): Promise<EnvironmentProfile> => {
+  if (!REVENUECAT_CONFIG.DEBUG_MODE) {
+    return getEnvironmentProfile(DEFAULT_ENVIRONMENT_ID);
+  }
+  return getEnvironmentProfile(await readJSON<string>(STORAGE_KEY));
+};
+
+/**
+ * Remember the environment for the next launch
+ */
+export const saveEnvironmentId = (id: string) => writeJSON(STORAGE_KEY, id);
+
+/**
+ * Make the environment's offering the current one
+ * Offerings are returned as-is when the environment has no override or the
+ * offering doesn't exist in the project.
+ */
+export const applyEnvironmentOffering = (
+  offerings: PurchasesOfferings,
+  environment: EnvironmentProfile
+): PurchasesOfferings => {
+  if (!environment.offeringId) return offerings;
+
+  const offering = offerings.all[environment.offeringId];
+  if (!offering) {
+    console.warn(
+      `⚠️ Offering "${environment.offeringId}" of the "${environment.id}" environment not found. Using the current offering.`
+    );
+    return offerings;
+  }
+  return { ...offerings, current: offering };
+};
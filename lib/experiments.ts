@@ -0,0 +1,176 @@
+/**
+ * Paywall Experiments
+ *
+ * Client-side A/B testing without a server. Each user is bucketed into a
+ * variant of every enabled experiment in EXPERIMENTS (constants/RevenueCat.ts):
+ *
+ *   bucket = hash(experimentId + ":" + appUserID) / 2^32    // 0 <= bucket < 1
+ *
+ * and the bucket picks a variant by its share of the total weight. The same
+ * user always lands in the same variant, on any device. Assignments are also
+ * stored on the device so they survive weight changes mid-experiment.
+ *
+ * USAGE:
+ * const assignments = await loadExperimentAssignments(appUserID);
+ * const variant = getPaywallVariant(assignments);
+ *
+ * Analytics events carry the variants in their context (see lib/analytics.ts),
+ * so purchase outcomes can be compared per variant.
+ */
+
+import {
+  EXPERIMENTS,
+  ExperimentConfig,
+  PaywallVariantConfig,
+} from "@/constants/RevenueCat";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+const ASSIGNMENTS_KEY = "experiment-assignments";
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+  /** App user ID the assignment was made for */
+  appUserID: string;
+  /** Position in [0, 1) the variant was picked from */
+  bucket: number;
+  /** When the user was first assigned (epoch milliseconds) */
+  assignedAt: number;
+}
+
+/** Assignments keyed by experiment identifier */
+export type ExperimentAssignments = Record<string, ExperimentAssignment>;
+
+/**
+ * 32-bit FNV-1a hash. Stable across platforms and JS engines.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic bucket in [0, 1) for a user in an experiment
+ */
+export const getExperimentBucket = (experimentId: string, appUserID: string): number =>
+  hashString(`${experimentId}:${appUserID}`) / 2 ** 32;
+
+/**
+ * Pick the variant a bucket falls into
+ * Returns null when the experiment has no variant with a positive weight.
+ */
+export const pickVariant = (experiment: ExperimentConfig, bucket: number): string | null => {
+  const variants = experiment.variants.filter((variant) => variant.weight > 0);
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  let threshold = 0;
+  for (const variant of variants) {
+    threshold += variant.weight / totalWeight;
+    if (bucket < threshold) return variant.id;
+  }
+  // Rounding can leave the last threshold just below 1
+  return variants[variants.length - 1].id;
+};
+
+/**
+ * Assign a user to every enabled experiment
+ *
+ * @param appUserID RevenueCat app user ID
+ * @param stored Previous assignments. Kept when they belong to the same user
+ *   and their variant still exists.
+ * @param experiments Experiments to assign (defaults to EXPERIMENTS)
+ */
+export const assignExperiments = (
+  appUserID: string,
+  stored: ExperimentAssignments = {},
+  experiments: readonly ExperimentConfig[] = EXPERIMENTS,
+  now = Date.now()
+): ExperimentAssignments => {
+  const assignments: ExperimentAssignments = {};
+
+  experiments
+    .filter((experiment) => experiment.enabled)
+    .forEach((experiment) => {
+      const previous = stored[experiment.id];
+      if (
+        previous?.appUserID === appUserID &&
+        experiment.variants.some((variant) => variant.id === previous.variantId)
+      ) {
+        assignments[experiment.id] = previous;
+        return;
+      }
+
+      const bucket = getExperimentBucket(experiment.id, appUserID);
+      const variantId = pickVariant(experiment, bucket);
+      if (variantId) {
+        assignments[experiment.id] = {
+          experimentId: experiment.id,
+          variantId,
+          appUserID,
+          bucket,
+          assignedAt: now,
+        };
+      }
+    });
+
+  return assignments;
+};
+
+/**
+ * Assign the user and persist the result
+ * Stored assignments are reused so weight changes don't move existing users.
+ */
+export const loadExperimentAssignments = async (
+  appUserID: string
+): Promise<ExperimentAssignments> => {
+  const stored = (await readJSON<ExperimentAssignments>(ASSIGNMENTS_KEY)) ?? {};
+  const assignments = assignExperiments(appUserID, stored);
+
+  if (JSON.stringify(assignments) !== JSON.stringify(stored)) {
+    await writeJSON(ASSIGNMENTS_KEY, assignments);
+  }
+  return assignments;
+};
+
+/**
+ * Variant identifiers keyed by experiment, for tagging events
+ */
+export const getExperimentTags = (assignments: ExperimentAssignments): Record<string, string> =>
+  Object.fromEntries(
+    Object.values(assignments).map((assignment) => [assignment.experimentId, assignment.variantId])
+  );
+
+/**
+ * Combined paywall changes of the user's variants
+ * When experiments change the same field, the one listed first in EXPERIMENTS wins.
+ */
+export const getPaywallVariant = (
+  assignments: ExperimentAssignments,
+  experiments: readonly ExperimentConfig[] = EXPERIMENTS
+): PaywallVariantConfig => {
+  const overrides = experiments.flatMap((experiment) => {
+    const variantId = assignments[experiment.id]?.variantId;
+    const paywall = experiment.variants.find((variant) => variant.id === variantId)?.paywall;
+    return paywall ? [paywall] : [];
+  });
+
+  return overrides.reduceRight<PaywallVariantConfig>(
+    (merged, paywall) => ({ ...merged, ...paywall }),
+    {}
+  );
+};
+
+/**
+ * Resolve variant copy that is either a plain string or keyed by language
+ */
+export const resolveVariantText = (
+  text: string | Record<string, string> | undefined,
+  locale: string
+): string | undefined =>
+  typeof text === "object" ? text[locale] ?? text[DEFAULT_LOCALE] : text;
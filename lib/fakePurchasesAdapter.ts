@@ -0,0 +1,758 @@
+/**
+ * Fake Purchases Adapter
+ *
+ * A fully in-memory implementation of PurchasesAdapter. It never talks to a
+ * store or to RevenueCat, which makes it suitable for Jest, Storybook-style
+ * previews and machines without a store account.
+ *
+ * USAGE:
+ * const adapter = createFakePurchasesAdapter({ offerings });
+ * <RevenueCatProvider adapter={adapter}>...</RevenueCatProvider>
+ *
+ * FEATURES:
+ * - Holds offerings that can be swapped at any time
+ * - Grants entitlements when a package is purchased
+ * - Fires customer info listeners like the real SDK
+ * - Keeps a transaction history so restores are deterministic
+ * - Keeps a separate history per app user ID for logIn/logOut
+ * - Reports intro offer eligibility (trials are only available before the first subscription)
+ * - Stores subscriber attributes per app user ID
+ * - Signs promotional offers for the product discounts in the catalog
+ * - Redeems one-time offer codes without any store UI
+ * - Cancels subscriptions in place of the store's management page (they stay active until they expire)
+ * - Replaces subscriptions on plan changes, right away or at the next renewal (deferred)
+ * - Starts from a seeded purchase history; buildFakeCustomerInfo() reports one
+ *   without a store, for test fixtures
+ */
+
+import {
+  CustomerInfo,
+  CustomerInfoUpdateListener,
+  GoogleProductChangeInfo,
+  INTRO_ELIGIBILITY_STATUS,
+  IntroEligibility,
+  PRORATION_MODE,
+  PURCHASES_ERROR_CODE,
+  PurchasesConfiguration,
+  PurchasesEntitlementInfo,
+  PurchasesOfferings,
+  PurchasesPackage,
+  PurchasesPromotionalOffer,
+  PurchasesStoreProduct,
+  PurchasesStoreTransaction,
+  Store,
+} from "react-native-purchases";
+
+import { PurchasesAdapter } from "@/lib/purchasesAdapter";
+import { createSdkError } from "@/lib/purchaseErrors";
+import { REVENUECAT_CONFIG } from "@/constants/RevenueCat";
+
+/**
+ * Options for creating a fake store
+ */
+export interface FakePurchasesAdapterOptions {
+  /** Offerings returned by getOfferings(). Defaults to no offerings. */
+  offerings?: PurchasesOfferings;
+  /** App user ID reported in CustomerInfo. Defaults to an anonymous ID. */
+  appUserID?: string;
+  /**
+   * Entitlements unlocked by each product identifier.
+   * Products not listed here unlock REVENUECAT_CONFIG.ENTITLEMENT_ID.
+   */
+  entitlementsByProduct?: Record<string, string[]>;
+  /** Store reported on entitlements and subscriptions. Defaults to TEST_STORE. */
+  store?: Store;
+  /** Clock used for purchase and expiration dates. Defaults to Date.now. */
+  now?: () => number;
+  /** Artificial delay applied to purchases and restores, in milliseconds. Defaults to 0. */
+  latencyMs?: number;
+  /**
+   * Products that restorePurchases() finds when they aren't owned yet,
+   * as if they had been bought on another device
+   */
+  restorableProducts?: FakeRestorableProduct[];
+  /**
+   * Products granted by redeemOfferCode(), keyed by code
+   * Codes are case-insensitive and can be redeemed once.
+   */
+  offerCodes?: Record<string, FakeRestorableProduct>;
+  /** Purchases the customer made before the store was created. Defaults to none. */
+  transactions?: FakeTransactionSeed[];
+}
+
+export interface FakeRestorableProduct {
+  productIdentifier: string;
+  /** ISO 8601 subscription period, or null for non-subscription products */
+  subscriptionPeriod: string | null;
+}
+
+/**
+ * A purchase in the store's history from before it was created
+ */
+export interface FakeTransactionSeed extends FakeRestorableProduct {
+  /** Defaults to now */
+  purchaseDateMillis?: number;
+  /** Defaults to the purchase date plus the subscription period */
+  expirationDateMillis?: number | null;
+  /** When auto-renew was turned off. Defaults to null (renewing). */
+  unsubscribeDetectedAtMillis?: number | null;
+}
+
+/**
+ * A PurchasesAdapter with extra controls for driving the fake store
+ */
+export interface FakePurchasesAdapter extends PurchasesAdapter {
+  /** Replace the offerings returned by getOfferings() */
+  setOfferings: (offerings: PurchasesOfferings) => void;
+  /** Grant a product as if it had been bought outside the app, then notify listeners */
+  grantProduct: (productIdentifier: string, subscriptionPeriod?: string | null) => CustomerInfo;
+  /** Remove all transactions, then notify listeners */
+  reset: () => void;
+  /** Whether configure() has been called */
+  isConfigured: () => boolean;
+  /** Subscriber attributes set for a user (defaults to the current user), including $email and $displayName */
+  getSubscriberAttributes: (appUserID?: string) => Record<string, string>;
+}
+
+interface FakeTransaction {
+  transactionIdentifier: string;
+  productIdentifier: string;
+  purchaseDateMillis: number;
+  expirationDateMillis: number | null;
+  isSubscription: boolean;
+  /** When auto-renew was turned off, null while the subscription renews */
+  unsubscribeDetectedAtMillis: number | null;
+}
+
+const EMPTY_OFFERINGS: PurchasesOfferings = { current: null, all: {} };
+
+const ANONYMOUS_ID_PREFIX = "$RCAnonymousID:";
+
+/**
+ * Add an ISO 8601 duration (P1W, P1M, P1Y, P3D, ...) to a timestamp
+ * Returns null if the duration can't be parsed
+ */
+const addSubscriptionPeriod = (fromMillis: number, period: string): number | null => {
+  const match = period.match(/^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?$/);
+  if (!match) return null;
+
+  const [, years, months, weeks, days] = match;
+  const date = new Date(fromMillis);
+  if (years) date.setFullYear(date.getFullYear() + parseInt(years));
+  if (months) date.setMonth(date.getMonth() + parseInt(months));
+  if (weeks) date.setDate(date.getDate() + parseInt(weeks) * 7);
+  if (days) date.setDate(date.getDate() + parseInt(days));
+  return date.getTime();
+};
+
+const toISO = (millis: number | null) => (millis == null ? null : new Date(millis).toISOString());
+
+const wait = (ms: number) =>
+  ms > 0 ? new Promise<void>((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
+interface CustomerInfoContext {
+  appUserID: string;
+  store: Store;
+  firstSeenMillis: number;
+  currentMillis: number;
+  entitlementsByProduct?: Record<string, string[]>;
+}
+
+/**
+ * Turn a purchase into a transaction of the store's history
+ */
+const createTransaction = (
+  { productIdentifier, subscriptionPeriod, ...dates }: FakeTransactionSeed,
+  transactionNumber: number,
+  currentMillis: number
+): FakeTransaction => {
+  const purchaseDateMillis = dates.purchaseDateMillis ?? currentMillis;
+  const defaultExpirationMillis = subscriptionPeriod
+    ? addSubscriptionPeriod(purchaseDateMillis, subscriptionPeriod)
+    : null;
+
+  return {
+    // Unique across app launches, so on-device ledgers keyed by it (lib/credits.ts) stay correct
+    transactionIdentifier: `fake_transaction_${purchaseDateMillis}_${transactionNumber}`,
+    productIdentifier,
+    purchaseDateMillis,
+    expirationDateMillis:
+      dates.expirationDateMillis === undefined ? defaultExpirationMillis : dates.expirationDateMillis,
+    isSubscription: subscriptionPeriod != null,
+    unsubscribeDetectedAtMillis: dates.unsubscribeDetectedAtMillis ?? null,
+  };
+};
+
+/**
+ * Turn seeded purchases into a transaction history, oldest first
+ */
+const seedTransactions = (seeds: readonly FakeTransactionSeed[], currentMillis: number) =>
+  seeds
+    .map((seed, index) => createTransaction(seed, index + 1, currentMillis))
+    .sort((a, b) => a.purchaseDateMillis - b.purchaseDateMillis);
+
+/**
+ * Derive a CustomerInfo snapshot from a transaction history
+ */
+const deriveCustomerInfo = (
+  transactions: readonly FakeTransaction[],
+  { appUserID, store, firstSeenMillis, currentMillis, entitlementsByProduct }: CustomerInfoContext
+): CustomerInfo => {
+  const entitlementsForProduct = (productIdentifier: string) =>
+    entitlementsByProduct?.[productIdentifier] ?? [REVENUECAT_CONFIG.ENTITLEMENT_ID];
+  const isActive = (transaction: FakeTransaction) =>
+    transaction.expirationDateMillis == null || transaction.expirationDateMillis > currentMillis;
+
+  // Deferred plan changes don't count until they start
+  const startedTransactions = transactions.filter(
+    (transaction) => transaction.purchaseDateMillis <= currentMillis
+  );
+
+  // Latest transaction per product wins
+  const latestByProduct: Record<string, FakeTransaction> = {};
+  startedTransactions.forEach((transaction) => {
+    const existing = latestByProduct[transaction.productIdentifier];
+    if (!existing || existing.purchaseDateMillis <= transaction.purchaseDateMillis) {
+      latestByProduct[transaction.productIdentifier] = transaction;
+    }
+  });
+
+  const allEntitlements: Record<string, PurchasesEntitlementInfo> = {};
+  const activeEntitlements: Record<string, PurchasesEntitlementInfo> = {};
+
+  Object.values(latestByProduct).forEach((transaction) => {
+    const active = isActive(transaction);
+    const firstPurchase = startedTransactions.find(
+      (t) => t.productIdentifier === transaction.productIdentifier
+    )!;
+
+    entitlementsForProduct(transaction.productIdentifier).forEach((identifier) => {
+      // Prefer active entitlements, then the most recent purchase
+      const existing = allEntitlements[identifier];
+      if (existing) {
+        if (existing.isActive && !active) return;
+        if (
+          existing.isActive === active &&
+          existing.latestPurchaseDateMillis >= transaction.purchaseDateMillis
+        ) {
+          return;
+        }
+      }
+
+      const info: PurchasesEntitlementInfo = {
+        identifier,
+        isActive: active,
+        willRenew:
+          active && transaction.isSubscription && transaction.unsubscribeDetectedAtMillis == null,
+        periodType: "NORMAL",
+        latestPurchaseDate: toISO(transaction.purchaseDateMillis)!,
+        latestPurchaseDateMillis: transaction.purchaseDateMillis,
+        originalPurchaseDate: toISO(firstPurchase.purchaseDateMillis)!,
+        originalPurchaseDateMillis: firstPurchase.purchaseDateMillis,
+        expirationDate: toISO(transaction.expirationDateMillis),
+        expirationDateMillis: transaction.expirationDateMillis,
+        store,
+        productIdentifier: transaction.productIdentifier,
+        productPlanIdentifier: null,
+        isSandbox: true,
+        unsubscribeDetectedAt: toISO(transaction.unsubscribeDetectedAtMillis),
+        unsubscribeDetectedAtMillis: transaction.unsubscribeDetectedAtMillis,
+        billingIssueDetectedAt: null,
+        billingIssueDetectedAtMillis: null,
+        ownershipType: "PURCHASED",
+        verification: "NOT_REQUESTED" as PurchasesEntitlementInfo["verification"],
+      };
+
+      allEntitlements[identifier] = info;
+      if (active) {
+        activeEntitlements[identifier] = info;
+      }
+    });
+  });
+
+  const subscriptions = Object.values(latestByProduct).filter((t) => t.isSubscription);
+  const allExpirationDates: Record<string, string | null> = {};
+  const allPurchaseDates: Record<string, string | null> = {};
+  subscriptions.forEach((transaction) => {
+    allExpirationDates[transaction.productIdentifier] = toISO(transaction.expirationDateMillis);
+  });
+  Object.values(latestByProduct).forEach((transaction) => {
+    allPurchaseDates[transaction.productIdentifier] = toISO(transaction.purchaseDateMillis);
+  });
+
+  const expirations = subscriptions
+    .map((t) => t.expirationDateMillis)
+    .filter((millis): millis is number => millis != null);
+
+  const nonSubscriptionTransactions: PurchasesStoreTransaction[] = startedTransactions
+    .filter((t) => !t.isSubscription)
+    .map((t) => ({
+      transactionIdentifier: t.transactionIdentifier,
+      productIdentifier: t.productIdentifier,
+      purchaseDate: toISO(t.purchaseDateMillis)!,
+      purchaseToken: null,
+    }));
+
+  const subscriptionsByProductIdentifier: CustomerInfo["subscriptionsByProductIdentifier"] = {};
+  subscriptions.forEach((transaction) => {
+    const active = isActive(transaction);
+    subscriptionsByProductIdentifier[transaction.productIdentifier] = {
+      productIdentifier: transaction.productIdentifier,
+      purchaseDate: toISO(transaction.purchaseDateMillis)!,
+      originalPurchaseDate: toISO(transaction.purchaseDateMillis),
+      expiresDate: toISO(transaction.expirationDateMillis),
+      store,
+      unsubscribeDetectedAt: toISO(transaction.unsubscribeDetectedAtMillis),
+      isSandbox: true,
+      billingIssuesDetectedAt: null,
+      gracePeriodExpiresDate: null,
+      ownershipType: "PURCHASED",
+      periodType: "NORMAL",
+      refundedAt: null,
+      storeTransactionId: transaction.transactionIdentifier,
+      isActive: active,
+      willRenew: active && transaction.unsubscribeDetectedAtMillis == null,
+    };
+  });
+
+  return {
+    entitlements: {
+      all: allEntitlements,
+      active: activeEntitlements,
+      verification: "NOT_REQUESTED" as CustomerInfo["entitlements"]["verification"],
+    },
+    activeSubscriptions: subscriptions.filter(isActive).map((t) => t.productIdentifier),
+    allPurchasedProductIdentifiers: Object.keys(latestByProduct),
+    latestExpirationDate: expirations.length ? toISO(Math.max(...expirations)) : null,
+    firstSeen: toISO(firstSeenMillis)!,
+    originalAppUserId: appUserID,
+    requestDate: toISO(currentMillis)!,
+    allExpirationDates,
+    allPurchaseDates,
+    originalApplicationVersion: null,
+    originalPurchaseDate: startedTransactions.length
+      ? toISO(startedTransactions[0].purchaseDateMillis)
+      : null,
+    managementURL: null,
+    nonSubscriptionTransactions,
+    subscriptionsByProductIdentifier,
+  };
+};
+
+/**
+ * Build the CustomerInfo the fake store reports for a purchase history
+ * Lets tests describe a customer without driving a store.
+ */
+export const buildFakeCustomerInfo = ({
+  transactions = [],
+  appUserID = `${ANONYMOUS_ID_PREFIX}fake`,
+  store = "TEST_STORE",
+  entitlementsByProduct,
+  now = Date.now,
+}: Pick<
+  FakePurchasesAdapterOptions,
+  "transactions" | "appUserID" | "store" | "entitlementsByProduct" | "now"
+> = {}): CustomerInfo => {
+  const currentMillis = now();
+  return deriveCustomerInfo(seedTransactions(transactions, currentMillis), {
+    appUserID,
+    store,
+    firstSeenMillis: currentMillis,
+    currentMillis,
+    entitlementsByProduct,
+  });
+};
+
+/**
+ * Create an in-memory purchases backend
+ */
+export function createFakePurchasesAdapter(
+  options: FakePurchasesAdapterOptions = {}
+): FakePurchasesAdapter {
+  const now = options.now ?? Date.now;
+  const latencyMs = options.latencyMs ?? 0;
+  const store: Store = options.store ?? "TEST_STORE";
+  const firstSeenMillis = now();
+  const listeners = new Set<CustomerInfoUpdateListener>();
+
+  let anonymousCounter = 0;
+  const createAnonymousID = () => {
+    anonymousCounter += 1;
+    return `${ANONYMOUS_ID_PREFIX}fake${firstSeenMillis.toString(16)}${anonymousCounter}`;
+  };
+
+  let configured = false;
+  let appUserID = options.appUserID ?? createAnonymousID();
+  let offerings = options.offerings ?? EMPTY_OFFERINGS;
+  let transactions = seedTransactions(options.transactions ?? [], firstSeenMillis);
+  let transactionCounter = transactions.length;
+
+  // Transaction histories of users that aren't currently logged in
+  const historiesByUser: Record<string, FakeTransaction[]> = {};
+
+  // Subscriber attributes of every user, including the current one
+  const attributesByUser: Record<string, Record<string, string>> = {};
+
+  const offerCodes = Object.fromEntries(
+    Object.entries(options.offerCodes ?? {}).map(([code, product]) => [code.toUpperCase(), product])
+  );
+  const redeemedCodes = new Set<string>();
+  let signatureCounter = 0;
+
+  const isAnonymousID = (id: string) => id.startsWith(ANONYMOUS_ID_PREFIX);
+
+  /**
+   * Switch the current user, keeping the previous user's history around
+   */
+  const switchUser = (nextAppUserID: string, nextTransactions: FakeTransaction[]) => {
+    historiesByUser[appUserID] = transactions;
+    appUserID = nextAppUserID;
+    transactions = nextTransactions;
+    delete historiesByUser[nextAppUserID];
+  };
+
+  const buildCustomerInfo = () => {
+    const currentMillis = now();
+    return deriveCustomerInfo(transactions, {
+      appUserID,
+      store,
+      firstSeenMillis,
+      currentMillis,
+      entitlementsByProduct: options.entitlementsByProduct,
+    });
+  };
+
+  const notifyListeners = () => {
+    const customerInfo = buildCustomerInfo();
+    listeners.forEach((listener) => listener(customerInfo));
+    return customerInfo;
+  };
+
+  const assertConfigured = () => {
+    if (!configured) {
+      throw createSdkError(
+        PURCHASES_ERROR_CODE.CONFIGURATION_ERROR,
+        "Fake purchases adapter used before configure() was called"
+      );
+    }
+  };
+
+  /**
+   * Merge attributes into the current user's; null removes an attribute
+   */
+  const updateAttributes = (attributes: Record<string, string | null>) => {
+    assertConfigured();
+    const current = { ...attributesByUser[appUserID] };
+    Object.entries(attributes).forEach(([key, value]) => {
+      if (value === null) {
+        delete current[key];
+      } else {
+        current[key] = value;
+      }
+    });
+    attributesByUser[appUserID] = current;
+  };
+
+  const recordTransaction = (
+    productIdentifier: string,
+    subscriptionPeriod: string | null,
+    purchaseDateMillis: number = now()
+  ) => {
+    transactionCounter += 1;
+
+    const transaction = createTransaction(
+      { productIdentifier, subscriptionPeriod, purchaseDateMillis },
+      transactionCounter,
+      now()
+    );
+    transactions = [...transactions, transaction];
+    return transaction;
+  };
+
+  /**
+   * Replace an active subscription like a store plan change
+   * Deferred changes start when the old subscription expires, every other mode
+   * ends it now. A new change drops any deferred change that hasn't started.
+   * Returns when the new plan starts.
+   */
+  const replaceSubscription = ({ oldProductIdentifier, prorationMode }: GoogleProductChangeInfo) => {
+    const currentMillis = now();
+    const started = transactions.filter((t) => t.purchaseDateMillis <= currentMillis);
+
+    const replaced = started.find(
+      (t) =>
+        t.isSubscription &&
+        t.productIdentifier === oldProductIdentifier &&
+        t.expirationDateMillis != null &&
+        t.expirationDateMillis > currentMillis
+    );
+    if (!replaced) {
+      throw createSdkError(
+        PURCHASES_ERROR_CODE.PURCHASE_INVALID_ERROR,
+        `No active subscription "${oldProductIdentifier}" to replace`
+      );
+    }
+
+    if (prorationMode === PRORATION_MODE.DEFERRED) {
+      transactions = started;
+      return replaced.expirationDateMillis!;
+    }
+    transactions = started.map((t) =>
+      t === replaced ? { ...t, expirationDateMillis: currentMillis } : t
+    );
+    return currentMillis;
+  };
+
+  /**
+   * Buy a product and report it like the SDK's MakePurchaseResult
+   */
+  const purchaseProduct = async (
+    product: PurchasesStoreProduct,
+    googleProductChangeInfo?: GoogleProductChangeInfo | null
+  ) => {
+    await wait(latencyMs);
+    const startMillis = googleProductChangeInfo ? replaceSubscription(googleProductChangeInfo) : now();
+    const transaction = recordTransaction(
+      product.identifier,
+      product.subscriptionPeriod,
+      startMillis
+    );
+    const customerInfo = notifyListeners();
+
+    return {
+      productIdentifier: product.identifier,
+      customerInfo,
+      transaction: {
+        transactionIdentifier: transaction.transactionIdentifier,
+        productIdentifier: transaction.productIdentifier,
+        purchaseDate: toISO(transaction.purchaseDateMillis)!,
+        purchaseToken: null,
+      },
+    };
+  };
+
+  return {
+    configure: async (configuration: PurchasesConfiguration) => {
+      configured = true;
+      if (configuration.appUserID) {
+        appUserID = configuration.appUserID;
+      }
+    },
+
+    getCustomerInfo: async () => {
+      assertConfigured();
+      return buildCustomerInfo();
+    },
+
+    getOfferings: async () => {
+      assertConfigured();
+      return offerings;
+    },
+
+    purchasePackage: async (packageToPurchase: PurchasesPackage, googleProductChangeInfo) => {
+      assertConfigured();
+      return purchaseProduct(packageToPurchase.product, googleProductChangeInfo);
+    },
+
+    // Every customer is eligible for the discounts listed on the product
+    getPromotionalOffer: async (product, discount) => {
+      assertConfigured();
+      if (!product.discounts?.some((d) => d.identifier === discount.identifier)) {
+        return undefined;
+      }
+
+      signatureCounter += 1;
+      return {
+        identifier: discount.identifier,
+        keyIdentifier: "fake_key",
+        nonce: `fake_nonce_${signatureCounter}`,
+        signature: `fake_signature_${signatureCounter}`,
+        timestamp: now(),
+      };
+    },
+
+    purchaseDiscountedPackage: async (
+      packageToPurchase: PurchasesPackage,
+      promotionalOffer: PurchasesPromotionalOffer
+    ) => {
+      assertConfigured();
+      const product = packageToPurchase.product;
+      if (!product.discounts?.some((d) => d.identifier === promotionalOffer.identifier)) {
+        throw createSdkError(
+          PURCHASES_ERROR_CODE.INVALID_PROMOTIONAL_OFFER_ERROR,
+          `Product "${product.identifier}" has no discount "${promotionalOffer.identifier}"`
+        );
+      }
+      return purchaseProduct(product);
+    },
+
+    restorePurchases: async () => {
+      assertConfigured();
+      await wait(latencyMs);
+
+      const owned = new Set(transactions.map((t) => t.productIdentifier));
+      const restorable = (options.restorableProducts ?? []).filter(
+        (product) => !owned.has(product.productIdentifier)
+      );
+      if (restorable.length === 0) {
+        return buildCustomerInfo();
+      }
+
+      restorable.forEach((product) =>
+        recordTransaction(product.productIdentifier, product.subscriptionPeriod)
+      );
+      return notifyListeners();
+    },
+
+    logIn: async (nextAppUserID: string) => {
+      assertConfigured();
+      if (!nextAppUserID.trim()) {
+        throw createSdkError(
+          PURCHASES_ERROR_CODE.INVALID_APP_USER_ID_ERROR,
+          "Invalid app user ID: it can't be empty"
+        );
+      }
+      if (nextAppUserID === appUserID) {
+        return { customerInfo: buildCustomerInfo(), created: false };
+      }
+
+      const existingHistory = historiesByUser[nextAppUserID];
+      const created = existingHistory === undefined;
+
+      // Like RevenueCat, a new user inherits the purchases made while anonymous
+      const nextTransactions =
+        existingHistory ?? (isAnonymousID(appUserID) ? transactions : []);
+      if (created && isAnonymousID(appUserID)) {
+        transactions = [];
+      }
+
+      switchUser(nextAppUserID, nextTransactions);
+      return { customerInfo: notifyListeners(), created };
+    },
+
+    logOut: async () => {
+      assertConfigured();
+      if (isAnonymousID(appUserID)) {
+        throw createSdkError(
+          PURCHASES_ERROR_CODE.LOG_OUT_ANONYMOUS_USER_ERROR,
+          "Called logOut but the current user is anonymous"
+        );
+      }
+
+      switchUser(createAnonymousID(), []);
+      return notifyListeners();
+    },
+
+    getAppUserID: async () => appUserID,
+
+    isAnonymous: async () => isAnonymousID(appUserID),
+
+    checkTrialOrIntroductoryPriceEligibility: async (productIdentifiers: string[]) => {
+      assertConfigured();
+
+      // Like App Store subscription groups, any previous subscription uses up the intro offer
+      const hasSubscribed = transactions.some((transaction) => transaction.isSubscription);
+      const products = Object.values(offerings.all).flatMap((offering) =>
+        offering.availablePackages.map((pkg) => pkg.product)
+      );
+
+      return Object.fromEntries(
+        productIdentifiers.map((productIdentifier): [string, IntroEligibility] => {
+          const product = products.find((p) => p.identifier === productIdentifier);
+          const status = !product
+            ? INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_UNKNOWN
+            : !product.introPrice
+              ? INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_NO_INTRO_OFFER_EXISTS
+              : hasSubscribed
+                ? INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_INELIGIBLE
+                : INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_ELIGIBLE;
+
+          return [productIdentifier, { status, description: INTRO_ELIGIBILITY_STATUS[status] }];
+        })
+      );
+    },
+
+    addCustomerInfoUpdateListener: (listener) => {
+      listeners.add(listener);
+    },
+
+    removeCustomerInfoUpdateListener: (listener) => listeners.delete(listener),
+
+    setAttributes: async (attributes) => {
+      const reservedKey = Object.keys(attributes).find((key) => key.startsWith("$"));
+      if (reservedKey) {
+        // Keys starting with $ are reserved by RevenueCat and have their own setters
+        console.warn(`⚠️ Subscriber attribute "${reservedKey}" is reserved, use its own setter`);
+      }
+      updateAttributes(
+        Object.fromEntries(Object.entries(attributes).filter(([key]) => !key.startsWith("$")))
+      );
+    },
+
+    setEmail: async (email) => {
+      updateAttributes({ $email: email });
+    },
+
+    setDisplayName: async (displayName) => {
+      updateAttributes({ $displayName: displayName });
+    },
+
+    presentCodeRedemptionSheet: async () => {
+      throw createSdkError(
+        PURCHASES_ERROR_CODE.UNSUPPORTED_ERROR,
+        "The fake store has no redemption sheet, use redeemOfferCode()"
+      );
+    },
+
+    redeemOfferCode: async (code) => {
+      assertConfigured();
+      await wait(latencyMs);
+
+      const normalizedCode = code.trim().toUpperCase();
+      const product = offerCodes[normalizedCode];
+      if (!product || redeemedCodes.has(normalizedCode)) {
+        throw createSdkError(
+          PURCHASES_ERROR_CODE.INELIGIBLE_ERROR,
+          product ? `Offer code "${code}" was already redeemed` : `Unknown offer code "${code}"`
+        );
+      }
+
+      redeemedCodes.add(normalizedCode);
+      recordTransaction(product.productIdentifier, product.subscriptionPeriod);
+      return notifyListeners();
+    },
+
+    cancelSubscriptions: async () => {
+      assertConfigured();
+      await wait(latencyMs);
+
+      const currentMillis = now();
+      transactions = transactions.map((transaction) =>
+        transaction.isSubscription &&
+        transaction.unsubscribeDetectedAtMillis == null &&
+        (transaction.expirationDateMillis == null || transaction.expirationDateMillis > currentMillis)
+          ? { ...transaction, unsubscribeDetectedAtMillis: currentMillis }
+          : transaction
+      );
+      return notifyListeners();
+    },
+
+    setOfferings: (nextOfferings) => {
+      offerings = nextOfferings;
+    },
+
+    grantProduct: (productIdentifier, subscriptionPeriod = null) => {
+      recordTransaction(productIdentifier, subscriptionPeriod);
+      return notifyListeners();
+    },
+
+    reset: () => {
+      transactions = [];
+      notifyListeners();
+    },
+
+    isConfigured: () => configured,
+
+    getSubscriberAttributes: (forAppUserID = appUserID) => ({ ...attributesByUser[forAppUserID] }),
+  };
+}
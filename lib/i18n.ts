@@ -0,0 +1,212 @@
+/**
+ * Internationalization
+ *
+ * Message catalogs live in locales/ (one file per language). Messages use a
+ * small subset of ICU MessageFormat:
+ *
+ *   "Hello {name}"
+ *   "{count, plural, =0 {no days} one {# day} other {# days}}"
+ *
+ * Plural categories come from Intl.PluralRules, so languages with more forms
+ * than English (e.g. Arabic) pick the right one. `#` is replaced by the
+ * locale-formatted count.
+ *
+ * USAGE:
+ * const { t, isRTL } = useTranslation();
+ * t("paywall.title");
+ * t("period.month", { count: 3 }); // "3 months"
+ */
+
+import { getLocales, Locale } from "expo-localization";
+
+import { en } from "@/locales/en";
+import { es } from "@/locales/es";
+import { ar } from "@/locales/ar";
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE = "en";
+
+const CATALOGS = { en, es, ar } satisfies Record<string, Messages>;
+
+export type SupportedLocale = keyof typeof CATALOGS;
+
+export const SUPPORTED_LOCALES = Object.keys(CATALOGS) as SupportedLocale[];
+
+const RTL_LOCALES = new Set<SupportedLocale>(["ar"]);
+
+/**
+ * Pick the first device locale that has a catalog, falling back to English
+ */
+export const resolveLocale = (locales: readonly Pick<Locale, "languageCode">[]): SupportedLocale => {
+  for (const locale of locales) {
+    const languageCode = locale.languageCode?.toLowerCase();
+    if (languageCode && languageCode in CATALOGS) {
+      return languageCode as SupportedLocale;
+    }
+  }
+  return DEFAULT_LOCALE;
+};
+
+/**
+ * Detect the best supported locale from the device settings
+ */
+export const detectDeviceLocale = (): SupportedLocale => {
+  try {
+    return resolveLocale(getLocales());
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+/**
+ * Whether a locale is written right-to-left
+ */
+export const isRTLLocale = (locale: SupportedLocale) => RTL_LOCALES.has(locale);
+
+const pluralRulesCache = new Map<string, Intl.PluralRules | null>();
+
+/**
+ * Get the plural category for a count ("one", "few", "other", ...)
+ * Falls back to English rules on engines without Intl.PluralRules.
+ */
+export const selectPluralCategory = (locale: string, count: number): string => {
+  if (!pluralRulesCache.has(locale)) {
+    pluralRulesCache.set(
+      locale,
+      typeof Intl !== "undefined" && Intl.PluralRules ? new Intl.PluralRules(locale) : null
+    );
+  }
+  const rules = pluralRulesCache.get(locale);
+  return rules ? rules.select(count) : count === 1 ? "one" : "other";
+};
+
+const formatNumber = (locale: string, value: number) => {
+  try {
+    return new Intl.NumberFormat(locale).format(value);
+  } catch {
+    return String(value);
+  }
+};
+
+/**
+ * Format a date for a locale ("Mar 5, 2025" in English)
+ * Falls back to the ISO date on engines without Intl.DateTimeFormat.
+ */
+export const formatDate = (date: Date, locale: string = DEFAULT_LOCALE) => {
+  try {
+    return new Intl.DateTimeFormat(locale, { dateStyle: "medium" }).format(date);
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+};
+
+/**
+ * Find the index of the "}" matching the "{" at `start`
+ */
+const findClosingBrace = (template: string, start: number) => {
+  let depth = 0;
+  for (let index = start; index < template.length; index++) {
+    if (template[index] === "{") depth++;
+    if (template[index] === "}" && --depth === 0) return index;
+  }
+  return -1;
+};
+
+/**
+ * Parse "=0 {…} one {…} other {…}" into selector/message pairs
+ */
+const parsePluralOptions = (options: string) => {
+  const branches: Record<string, string> = {};
+  let index = 0;
+
+  while (index < options.length) {
+    const open = options.indexOf("{", index);
+    if (open === -1) break;
+    const close = findClosingBrace(options, open);
+    if (close === -1) break;
+
+    const selector = options.slice(index, open).trim();
+    branches[selector] = options.slice(open + 1, close);
+    index = close + 1;
+  }
+
+  return branches;
+};
+
+const formatArgument = (
+  argument: string,
+  params: MessageParams,
+  locale: string
+): string => {
+  const [name, type, ...rest] = argument.split(",");
+  const value = params[name.trim()];
+
+  if (type?.trim() === "plural") {
+    const count = Number(value ?? 0);
+    const branches = parsePluralOptions(rest.join(","));
+    const branch =
+      branches[`=${count}`] ??
+      branches[selectPluralCategory(locale, count)] ??
+      branches.other ??
+      "";
+    return format(branch, params, locale, formatNumber(locale, count));
+  }
+
+  if (value == null) return `{${name.trim()}}`;
+  return typeof value === "number" ? formatNumber(locale, value) : value;
+};
+
+const format = (
+  template: string,
+  params: MessageParams,
+  locale: string,
+  pound?: string
+): string => {
+  let result = "";
+  let index = 0;
+
+  while (index < template.length) {
+    const char = template[index];
+
+    if (char === "{") {
+      const close = findClosingBrace(template, index);
+      if (close === -1) {
+        result += template.slice(index);
+        break;
+      }
+      result += formatArgument(template.slice(index + 1, close), params, locale);
+      index = close + 1;
+      continue;
+    }
+
+    result += char === "#" && pound !== undefined ? pound : char;
+    index++;
+  }
+
+  return result;
+};
+
+/**
+ * Format an ICU-style message template
+ */
+export const formatMessage = (
+  template: string,
+  params: MessageParams = {},
+  locale: string = DEFAULT_LOCALE
+) => format(template, params, locale);
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Create a translate function for a locale
+ * Missing keys fall back to English.
+ */
+export const createTranslator = (locale: SupportedLocale): Translate => {
+  const catalog: Messages = CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE];
+
+  return (key, params) =>
+    formatMessage(catalog[key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key, params, locale);
+};
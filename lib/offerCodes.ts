@@ -0,0 +1,61 @@
+/**
+ * Offer Codes
+ *
+ * Picks how customers redeem subscription offer codes on the current platform:
+ * - "sheet": the App Store's own redemption sheet (iOS)
+ * - "playStore": the code-entry screen (app/redeem.tsx) hands the code to Google Play
+ * - "inApp": the code-entry screen redeems the code with the adapter directly
+ *   (demo mode and other in-memory stores)
+ * - "unsupported": RevenueCat Web Billing redeems offers through links, not codes
+ *
+ * USAGE (via usePurchases):
+ * const { offerCodeRedemptionMethod, openOfferCodeRedemption } = usePurchases();
+ * if (offerCodeRedemptionMethod !== "unsupported") openOfferCodeRedemption();
+ */
+
+import { Platform } from "react-native";
+
+import { PurchasesAdapter, nativePurchasesAdapter } from "@/lib/purchasesAdapter";
+
+export type OfferCodeRedemptionMethod = "sheet" | "playStore" | "inApp" | "unsupported";
+
+/** Outcome of redeemOfferCode: redeemed right away, or handed to the store to finish */
+export type OfferCodeRedemptionResult = "redeemed" | "openedStore";
+
+// App Store and Google Play codes are letters and digits, up to 64 characters
+const OFFER_CODE_PATTERN = /^[A-Z0-9-]{1,64}$/;
+
+/**
+ * Get the redemption method for an adapter on the current platform
+ */
+export const getOfferCodeRedemptionMethod = (
+  adapter: PurchasesAdapter,
+  platform: string = Platform.OS
+): OfferCodeRedemptionMethod => {
+  if (adapter.redeemOfferCode) return "inApp";
+  if (adapter !== nativePurchasesAdapter) return "unsupported";
+
+  switch (platform) {
+    case "ios":
+      return "sheet";
+    case "android":
+      return "playStore";
+    default:
+      return "unsupported";
+  }
+};
+
+/**
+ * Normalize a typed code: spaces removed, upper case
+ * Returns null when the result can't be an offer code.
+ */
+export const normalizeOfferCode = (code: string): string | null => {
+  const normalized = code.replace(/\s+/g, "").toUpperCase();
+  return OFFER_CODE_PATTERN.test(normalized) ? normalized : null;
+};
+
+/**
+ * Google Play page that redeems a code for the signed-in Google account
+ */
+export const getPlayStoreRedeemUrl = (code: string) =>
+  `https://play.google.com/redeem?code=${encodeURIComponent(code)}`;
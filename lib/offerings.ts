@@ -0,0 +1,85 @@
+/**
+ * Offering Resolution
+ *
+ * Picks which offering a paywall shows. Entry points can ask for an offering
+ * directly or name a placement (where the paywall was opened from), which is
+ * mapped to an offering in PAYWALL_PLACEMENTS (constants/RevenueCat.ts).
+ *
+ * USAGE:
+ * const { offering, source } = resolveOffering(offerings, { placement: "settings" });
+ *
+ * Resolution order:
+ * 1. offeringId, when it exists in the offerings
+ * 2. The placement's offering, when it exists in the offerings
+ * 3. The current offering
+ */
+
+import { PurchasesOffering, PurchasesOfferings } from "react-native-purchases";
+
+import { PAYWALL_PLACEMENTS } from "@/constants/RevenueCat";
+
+export interface OfferingSelector {
+  /** Offering identifier from the RevenueCat dashboard */
+  offeringId?: string;
+  /** Paywall placement, see PAYWALL_PLACEMENTS */
+  placement?: string;
+}
+
+export type OfferingSource = "offeringId" | "placement" | "current";
+
+export interface ResolvedOffering {
+  offering: PurchasesOffering | null;
+  /** How the offering was picked */
+  source: OfferingSource;
+  /** Problems found while resolving, e.g. an unknown offering identifier */
+  warnings: string[];
+}
+
+/**
+ * Get the offering identifier mapped to a placement
+ * Returns null for unknown placements and placements that show the current offering
+ */
+export const getPlacementOfferingId = (placement: string): string | null =>
+  Object.prototype.hasOwnProperty.call(PAYWALL_PLACEMENTS, placement)
+    ? PAYWALL_PLACEMENTS[placement]
+    : null;
+
+/**
+ * Resolve the offering to show, falling back to the current offering
+ *
+ * @param offerings Offerings from RevenueCat
+ * @param selector Requested offering and/or placement
+ */
+export const resolveOffering = (
+  offerings: PurchasesOfferings | null,
+  { offeringId, placement }: OfferingSelector = {}
+): ResolvedOffering => {
+  const warnings: string[] = [];
+  const current = offerings?.current ?? null;
+
+  // Wait for offerings before reporting identifiers as missing
+  if (!offerings) {
+    return { offering: null, source: "current", warnings };
+  }
+
+  if (offeringId) {
+    const offering = offerings.all[offeringId];
+    if (offering) return { offering, source: "offeringId", warnings };
+    warnings.push(`Offering "${offeringId}" not found`);
+  }
+
+  if (placement) {
+    if (!Object.prototype.hasOwnProperty.call(PAYWALL_PLACEMENTS, placement)) {
+      warnings.push(`Placement "${placement}" is not in PAYWALL_PLACEMENTS`);
+    }
+
+    const placementOfferingId = getPlacementOfferingId(placement);
+    if (placementOfferingId) {
+      const offering = offerings.all[placementOfferingId];
+      if (offering) return { offering, source: "placement", warnings };
+      warnings.push(`Offering "${placementOfferingId}" for placement "${placement}" not found`);
+    }
+  }
+
+  return { offering: current, source: "current", warnings };
+};
@@ -0,0 +1,228 @@
+/**
+ * Server-Driven Paywall Config
+ *
+ * Reads paywall copy and styling from the offering's metadata, so headlines,
+ * features and badges can change from the RevenueCat dashboard without an app
+ * release. Add a `paywall` key to the offering's metadata:
+ *
+ * {
+ *   "paywall": {
+ *     "version": 1,
+ *     "title": "Go Pro",
+ *     "subtitle": { "en": "Everything, unlocked", "es": "Todo, desbloqueado" },
+ *     "hero": { "title": "🚀 Pro", "imageUrl": "https://example.com/hero.png" },
+ *     "features": [{ "icon": "⚡", "text": "Unlimited exports" }],
+ *     "badges": { "$rc_annual": "Most popular" },
+ *     "highlightedPackage": "$rc_annual",
+ *     "colors": { "accent": "#FF2D55", "headerBackground": "#1D3D47" }
+ *   }
+ * }
+ *
+ * Every field is optional. Text can be a string or an object keyed by language.
+ * Missing or invalid fields fall back to the built-in copy; validation errors
+ * are returned so the paywall can report them in debug mode.
+ */
+
+import { PurchasesOffering } from "react-native-purchases";
+
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+
+export const PAYWALL_METADATA_KEY = "paywall";
+
+// Schema versions this app understands
+const SUPPORTED_VERSIONS = [1];
+
+const HEX_COLOR = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+export interface PaywallFeature {
+  icon: string;
+  text: string;
+}
+
+export interface PaywallConfig {
+  title?: string;
+  subtitle?: string;
+  hero?: {
+    title?: string;
+    imageUrl?: string;
+  };
+  features?: PaywallFeature[];
+  /** Badge text by package identifier. An empty string hides the badge. */
+  badges?: Record<string, string>;
+  /** Package identifier selected when the paywall opens */
+  highlightedPackage?: string;
+  colors?: {
+    accent?: string;
+    headerBackground?: string;
+  };
+}
+
+export interface PaywallConfigResult {
+  config: PaywallConfig;
+  /** Schema problems found in the metadata (empty when valid or absent) */
+  errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Resolve text that is either a plain string or keyed by language
+ */
+const readText = (
+  value: unknown,
+  path: string,
+  locale: string,
+  errors: string[]
+): string | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === "string") return value;
+
+  if (isRecord(value)) {
+    const text = value[locale] ?? value[DEFAULT_LOCALE];
+    if (typeof text === "string") return text;
+    if (text === undefined) return undefined;
+  }
+
+  errors.push(`${path} must be a string or an object of strings keyed by language`);
+  return undefined;
+};
+
+const readColor = (value: unknown, path: string, errors: string[]): string | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === "string" && HEX_COLOR.test(value)) return value;
+
+  errors.push(`${path} must be a hex color like "#FF2D55"`);
+  return undefined;
+};
+
+const readFeatures = (
+  value: unknown,
+  locale: string,
+  errors: string[]
+): PaywallFeature[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push("features must be an array");
+    return undefined;
+  }
+
+  const features = value.flatMap((item, index): PaywallFeature[] => {
+    const path = `features[${index}]`;
+    if (!isRecord(item)) {
+      errors.push(`${path} must be an object with "icon" and "text"`);
+      return [];
+    }
+
+    const text = readText(item.text, `${path}.text`, locale, errors);
+    if (!text) {
+      if (item.text === undefined) errors.push(`${path}.text is required`);
+      return [];
+    }
+
+    const icon = item.icon === undefined ? "✓" : item.icon;
+    if (typeof icon !== "string") {
+      errors.push(`${path}.icon must be a string`);
+      return [];
+    }
+
+    return [{ icon, text }];
+  });
+
+  // An empty list would leave the paywall without features, keep the built-in ones
+  return features.length > 0 ? features : undefined;
+};
+
+const readBadges = (
+  value: unknown,
+  locale: string,
+  errors: string[]
+): Record<string, string> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    errors.push("badges must be an object keyed by package identifier");
+    return undefined;
+  }
+
+  const badges: Record<string, string> = {};
+  Object.entries(value).forEach(([packageIdentifier, badge]) => {
+    const text = readText(badge, `badges.${packageIdentifier}`, locale, errors);
+    if (text !== undefined) badges[packageIdentifier] = text;
+  });
+  return badges;
+};
+
+/**
+ * Parse and validate the paywall config of an offering
+ *
+ * @param offering Offering whose metadata holds the config
+ * @param locale Language code used to pick localized text
+ */
+export const parsePaywallConfig = (
+  offering: PurchasesOffering | null | undefined,
+  locale: string = DEFAULT_LOCALE
+): PaywallConfigResult => {
+  const errors: string[] = [];
+  const raw = offering?.metadata?.[PAYWALL_METADATA_KEY];
+
+  if (raw === undefined || raw === null) {
+    return { config: {}, errors };
+  }
+  if (!isRecord(raw)) {
+    return { config: {}, errors: [`"${PAYWALL_METADATA_KEY}" metadata must be an object`] };
+  }
+  if (typeof raw.version !== "number" || !SUPPORTED_VERSIONS.includes(raw.version)) {
+    return {
+      config: {},
+      errors: [
+        `Unsupported paywall schema version ${JSON.stringify(raw.version)} (supported: ${SUPPORTED_VERSIONS.join(", ")})`,
+      ],
+    };
+  }
+
+  const config: PaywallConfig = {
+    title: readText(raw.title, "title", locale, errors),
+    subtitle: readText(raw.subtitle, "subtitle", locale, errors),
+    features: readFeatures(raw.features, locale, errors),
+    badges: readBadges(raw.badges, locale, errors),
+  };
+
+  if (raw.hero !== undefined) {
+    if (isRecord(raw.hero)) {
+      const imageUrl = raw.hero.imageUrl;
+      if (imageUrl !== undefined && (typeof imageUrl !== "string" || !/^https:\/\//.test(imageUrl))) {
+        errors.push("hero.imageUrl must be an https URL");
+      }
+      config.hero = {
+        title: readText(raw.hero.title, "hero.title", locale, errors),
+        imageUrl: typeof imageUrl === "string" && /^https:\/\//.test(imageUrl) ? imageUrl : undefined,
+      };
+    } else {
+      errors.push("hero must be an object");
+    }
+  }
+
+  if (raw.highlightedPackage !== undefined) {
+    const packageExists = offering?.availablePackages.some(
+      (pkg) => pkg.identifier === raw.highlightedPackage
+    );
+    if (typeof raw.highlightedPackage === "string" && packageExists) {
+      config.highlightedPackage = raw.highlightedPackage;
+    } else {
+      errors.push(`highlightedPackage ${JSON.stringify(raw.highlightedPackage)} is not a package in this offering`);
+    }
+  }
+
+  if (raw.colors !== undefined) {
+    if (isRecord(raw.colors)) {
+      config.colors = {
+        accent: readColor(raw.colors.accent, "colors.accent", errors),
+        headerBackground: readColor(raw.colors.headerBackground, "colors.headerBackground", errors),
+      };
+    } else {
+      errors.push("colors must be an object");
+    }
+  }
+
+  return { config, errors };
+};
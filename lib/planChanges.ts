@@ -0,0 +1,220 @@
+/**
+ * Plan Changes
+ *
+ * Works out what happens when a subscriber switches to another plan: whether
+ * it's an upgrade, downgrade or crossgrade, when the new plan starts, and the
+ * Google Play product change info that replaces the old subscription instead of
+ * starting a second one.
+ *
+ * USAGE (via usePurchases):
+ * const { getPlanChange, changePlan } = usePurchases();
+ * const planChange = getPlanChange(annualPackage);
+ * if (planChange.available) await changePlan(annualPackage);
+ *
+ * - Google Play: the old subscription is replaced with the proration mode from
+ *   PLAN_CHANGE_CONFIG.GOOGLE_PRORATION_MODES; DEFERRED starts the new plan at
+ *   the next renewal, the other modes right away.
+ * - App Store: plans in one subscription group replace each other on their own.
+ *   Upgrades start right away, downgrades at the next renewal, and crossgrades
+ *   right away only when the billing period stays the same.
+ *
+ * Plans are ranked by PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS (constants/RevenueCat.ts).
+ * Without groups, every switch is a crossgrade: a cheaper monthly price on a
+ * longer plan isn't a lower level.
+ */
+
+import { Platform } from "react-native";
+import {
+  CustomerInfo,
+  GoogleProductChangeInfo,
+  PRORATION_MODE,
+  PurchasesEntitlementInfo,
+  PurchasesOfferings,
+  PurchasesPackage,
+  Store,
+} from "react-native-purchases";
+
+import { PLAN_CHANGE_CONFIG, PlanChangeType } from "@/constants/RevenueCat";
+import { getPackagePeriodInMonths } from "@/lib/pricing";
+import { findEntitlementPackage } from "@/lib/subscriptionLifecycle";
+
+/** Store rules a plan change follows */
+export type PlanChangeStore = "appStore" | "playStore";
+
+/** When the new plan starts */
+export type PlanChangeTiming = "immediate" | "nextRenewal";
+
+/**
+ * Why a package can't replace the current plan:
+ * - "noSubscription": nothing to change from
+ * - "samePlan": the package is the current plan
+ * - "notSubscription": the package isn't a subscription (lifetime, credit packs)
+ * - "otherStore": the subscription was bought on a store this device can't change
+ * - "differentGroup": the plans are in different subscription groups
+ */
+export type PlanChangeUnavailableReason =
+  | "noSubscription"
+  | "samePlan"
+  | "notSubscription"
+  | "otherStore"
+  | "differentGroup";
+
+export interface PlanChange {
+  available: true;
+  type: PlanChangeType;
+  store: PlanChangeStore;
+  timing: PlanChangeTiming;
+  /** When the new plan starts: now, or when the current period ends */
+  effectiveDate: Date;
+  fromProductIdentifier: string;
+  toPackage: PurchasesPackage;
+  /**
+   * Replacement passed with the purchase. Google Play applies it; the App Store
+   * ignores it (in-memory stores follow it to simulate either store).
+   */
+  googleProductChangeInfo: GoogleProductChangeInfo;
+}
+
+export interface UnavailablePlanChange {
+  available: false;
+  reason: PlanChangeUnavailableReason;
+}
+
+/**
+ * Get the subscription a plan change replaces
+ * The active entitlement with a renewal date, latest expiration first.
+ */
+export const getActiveSubscriptionEntitlement = (
+  customerInfo: CustomerInfo | null
+): PurchasesEntitlementInfo | null => {
+  const subscriptions = Object.values(customerInfo?.entitlements.active ?? {})
+    .filter((entitlement) => entitlement.expirationDateMillis != null)
+    .sort((a, b) => (b.expirationDateMillis ?? 0) - (a.expirationDateMillis ?? 0));
+  return subscriptions[0] ?? null;
+};
+
+/**
+ * Get the store rules for a subscription bought on a store, on this platform
+ * Test store subscriptions follow the rules of the device's store.
+ */
+export const getPlanChangeStore = (
+  store: Store,
+  platform: string = Platform.OS
+): PlanChangeStore | null => {
+  if (store === "TEST_STORE") return platform === "android" ? "playStore" : "appStore";
+  if (store === "PLAY_STORE" && platform === "android") return "playStore";
+  if ((store === "APP_STORE" || store === "MAC_APP_STORE") && (platform === "ios" || platform === "macos")) {
+    return "appStore";
+  }
+  return null;
+};
+
+/**
+ * Find a product's subscription group and level (0 is the highest)
+ */
+const findGroupLevel = (productIdentifier: string) => {
+  for (const [group, levels] of PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS.entries()) {
+    const level = levels.findIndex((products) => products.includes(productIdentifier));
+    if (level >= 0) return { group, level };
+  }
+  return null;
+};
+
+/**
+ * Classify a switch between two packages
+ * Returns null when they're in different subscription groups, and
+ * "crossgrade" when no groups are configured.
+ */
+export const getPlanChangeType = (
+  fromPackage: PurchasesPackage | null,
+  toPackage: PurchasesPackage
+): PlanChangeType | null => {
+  // The current plan isn't in the offerings, so it can't be ranked
+  if (!fromPackage) return "crossgrade";
+  // One group with one level; the App Store times it by the billing periods
+  if (PLAN_CHANGE_CONFIG.SUBSCRIPTION_GROUPS.length === 0) return "crossgrade";
+
+  const from = findGroupLevel(fromPackage.product.identifier);
+  const to = findGroupLevel(toPackage.product.identifier);
+  if (!from || !to || from.group !== to.group) return null;
+  if (to.level === from.level) return "crossgrade";
+  return to.level < from.level ? "upgrade" : "downgrade";
+};
+
+/**
+ * When the App Store starts the new plan
+ */
+const getAppStoreTiming = (
+  type: PlanChangeType,
+  fromPackage: PurchasesPackage | null,
+  toPackage: PurchasesPackage
+): PlanChangeTiming => {
+  if (type === "upgrade") return "immediate";
+  if (type === "downgrade") return "nextRenewal";
+  return !fromPackage ||
+    getPackagePeriodInMonths(fromPackage) === getPackagePeriodInMonths(toPackage)
+    ? "immediate"
+    : "nextRenewal";
+};
+
+/**
+ * Work out what switching the customer's subscription to a package would do
+ */
+export const getPlanChange = (
+  customerInfo: CustomerInfo | null,
+  offerings: PurchasesOfferings | null,
+  toPackage: PurchasesPackage,
+  platform: string = Platform.OS,
+  now: number = Date.now()
+): PlanChange | UnavailablePlanChange => {
+  const unavailable = (reason: PlanChangeUnavailableReason): UnavailablePlanChange => ({
+    available: false,
+    reason,
+  });
+
+  const current = getActiveSubscriptionEntitlement(customerInfo);
+  if (!current) return unavailable("noSubscription");
+  if (!toPackage.product.subscriptionPeriod) return unavailable("notSubscription");
+
+  const fromPackage = findEntitlementPackage(current, offerings);
+  if (
+    fromPackage?.product.identifier === toPackage.product.identifier ||
+    current.productIdentifier === toPackage.product.identifier
+  ) {
+    return unavailable("samePlan");
+  }
+
+  const store = getPlanChangeStore(current.store, platform);
+  if (!store) return unavailable("otherStore");
+
+  const type = getPlanChangeType(fromPackage, toPackage);
+  if (!type) return unavailable("differentGroup");
+
+  let prorationMode: PRORATION_MODE;
+  let timing: PlanChangeTiming;
+  if (store === "playStore") {
+    prorationMode = PLAN_CHANGE_CONFIG.GOOGLE_PRORATION_MODES[type];
+    timing = prorationMode === PRORATION_MODE.DEFERRED ? "nextRenewal" : "immediate";
+  } else {
+    timing = getAppStoreTiming(type, fromPackage, toPackage);
+    prorationMode =
+      timing === "immediate" ? PRORATION_MODE.IMMEDIATE_WITH_TIME_PRORATION : PRORATION_MODE.DEFERRED;
+  }
+
+  return {
+    available: true,
+    type,
+    store,
+    timing,
+    effectiveDate: new Date(
+      timing === "nextRenewal" ? (current.expirationDateMillis ?? now) : now
+    ),
+    // Google Play replaces the subscription, not a single base plan
+    fromProductIdentifier: current.productIdentifier,
+    toPackage,
+    googleProductChangeInfo: {
+      oldProductIdentifier: current.productIdentifier,
+      prorationMode,
+    },
+  };
+};
@@ -0,0 +1,171 @@
+/**
+ * Package Pricing
+ *
+ * Normalizes package prices to per-week, per-month and per-year equivalents so
+ * plans of different lengths can be compared, sorted and labeled with savings.
+ *
+ * USAGE:
+ * const { perMonth, currencyCode } = normalizePackagePrice(annualPackage);
+ * const bestValue = findBestValuePackage(packages);
+ * const savings = calculateSavingsPercent(annualPackage, monthlyPackage); // 50
+ *
+ * Periods come from the product's ISO 8601 `subscriptionPeriod` (P1W, P3M, P1Y, ...),
+ * falling back to the package type. Lifetime and other non-subscription
+ * products have no per-period price and are never the best value.
+ */
+
+import { PACKAGE_TYPE, PurchasesPackage } from "react-native-purchases";
+
+const WEEKS_PER_YEAR = 52;
+const DAYS_PER_YEAR = 365;
+const MONTHS_PER_YEAR = 12;
+
+// Used when the store doesn't report a subscription period
+const PERIOD_BY_PACKAGE_TYPE: Partial<Record<PACKAGE_TYPE, string>> = {
+  [PACKAGE_TYPE.WEEKLY]: "P1W",
+  [PACKAGE_TYPE.MONTHLY]: "P1M",
+  [PACKAGE_TYPE.TWO_MONTH]: "P2M",
+  [PACKAGE_TYPE.THREE_MONTH]: "P3M",
+  [PACKAGE_TYPE.SIX_MONTH]: "P6M",
+  [PACKAGE_TYPE.ANNUAL]: "P1Y",
+};
+
+export interface NormalizedPrice {
+  price: number;
+  currencyCode: string;
+  /** Length of one billing period in months, null for one-time purchases */
+  periodInMonths: number | null;
+  perWeek: number | null;
+  perMonth: number | null;
+  perYear: number | null;
+}
+
+/**
+ * Convert an ISO 8601 period (P1W, P3M, P1Y, P7D, ...) to months
+ */
+export const parsePeriodInMonths = (period: string | null | undefined): number | null => {
+  const match = period?.match(/^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?$/);
+  if (!match) return null;
+
+  const [, years = "0", months = "0", weeks = "0", days = "0"] = match;
+  const totalMonths =
+    parseInt(years) * MONTHS_PER_YEAR +
+    parseInt(months) +
+    (parseInt(weeks) * MONTHS_PER_YEAR) / WEEKS_PER_YEAR +
+    (parseInt(days) * MONTHS_PER_YEAR) / DAYS_PER_YEAR;
+
+  return totalMonths > 0 ? totalMonths : null;
+};
+
+/**
+ * Get the billing period of a package in months (null for lifetime / one-time purchases)
+ */
+export const getPackagePeriodInMonths = (packageItem: PurchasesPackage): number | null => {
+  if (packageItem.packageType === PACKAGE_TYPE.LIFETIME) return null;
+
+  return (
+    parsePeriodInMonths(packageItem.product.subscriptionPeriod) ??
+    parsePeriodInMonths(PERIOD_BY_PACKAGE_TYPE[packageItem.packageType])
+  );
+};
+
+/**
+ * Get per-week, per-month and per-year equivalents of a package's price
+ */
+export const normalizePackagePrice = (packageItem: PurchasesPackage): NormalizedPrice => {
+  const { price, currencyCode } = packageItem.product;
+  const periodInMonths = getPackagePeriodInMonths(packageItem);
+  const perMonth = periodInMonths ? price / periodInMonths : null;
+
+  return {
+    price,
+    currencyCode,
+    periodInMonths,
+    perWeek: perMonth == null ? null : (perMonth * MONTHS_PER_YEAR) / WEEKS_PER_YEAR,
+    perMonth,
+    perYear: perMonth == null ? null : perMonth * MONTHS_PER_YEAR,
+  };
+};
+
+/**
+ * Sort packages from the lowest to the highest monthly cost
+ * One-time purchases come last, ordered by price.
+ */
+export const sortPackagesByPrice = (packages: readonly PurchasesPackage[]): PurchasesPackage[] =>
+  [...packages].sort((a, b) => {
+    const normalizedA = normalizePackagePrice(a);
+    const normalizedB = normalizePackagePrice(b);
+
+    if (normalizedA.perMonth == null || normalizedB.perMonth == null) {
+      if (normalizedA.perMonth != null) return -1;
+      if (normalizedB.perMonth != null) return 1;
+      return normalizedA.price - normalizedB.price;
+    }
+    return normalizedA.perMonth - normalizedB.perMonth;
+  });
+
+/**
+ * Find the subscription with the lowest monthly cost
+ * Returns null when there are fewer than two subscriptions to compare.
+ */
+export const findBestValuePackage = (
+  packages: readonly PurchasesPackage[]
+): PurchasesPackage | null => {
+  const subscriptions = packages.filter((pkg) => normalizePackagePrice(pkg).perMonth != null);
+  if (subscriptions.length < 2) return null;
+
+  return sortPackagesByPrice(subscriptions)[0];
+};
+
+/**
+ * Pick the package savings are measured against
+ * Prefers the monthly package, otherwise the subscription with the highest monthly cost.
+ */
+export const findReferencePackage = (
+  packages: readonly PurchasesPackage[]
+): PurchasesPackage | null => {
+  const monthly = packages.find((pkg) => pkg.packageType === PACKAGE_TYPE.MONTHLY);
+  if (monthly) return monthly;
+
+  const subscriptions = sortPackagesByPrice(
+    packages.filter((pkg) => normalizePackagePrice(pkg).perMonth != null)
+  );
+  return subscriptions[subscriptions.length - 1] ?? null;
+};
+
+/**
+ * Percentage saved by choosing a package instead of the reference package
+ * Returns null when the packages can't be compared or there are no savings.
+ */
+export const calculateSavingsPercent = (
+  packageItem: PurchasesPackage,
+  referencePackage: PurchasesPackage
+): number | null => {
+  if (packageItem.identifier === referencePackage.identifier) return null;
+
+  const normalized = normalizePackagePrice(packageItem);
+  const reference = normalizePackagePrice(referencePackage);
+
+  if (
+    normalized.perMonth == null ||
+    reference.perMonth == null ||
+    reference.perMonth <= 0 ||
+    normalized.currencyCode !== reference.currencyCode
+  ) {
+    return null;
+  }
+
+  const savings = Math.round((1 - normalized.perMonth / reference.perMonth) * 100);
+  return savings > 0 ? savings : null;
+};
+
+/**
+ * Format an amount in a currency for the given locale
+ */
+export const formatPrice = (amount: number, currencyCode: string, locale?: string): string => {
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency: currencyCode }).format(amount);
+  } catch {
+    return `${currencyCode} ${amount.toFixed(2)}`;
+  }
+};
@@ -0,0 +1,192 @@
+/**
+ * Purchase Errors
+ *
+ * Maps the SDK's PURCHASES_ERROR_CODE values to a small set of categories so
+ * the app can decide what to show without inspecting error messages.
+ *
+ * USAGE:
+ * try {
+ *   await purchasePackage(pkg);
+ * } catch (err) {
+ *   const purchaseError = toPurchaseError(err);
+ *   if (purchaseError.category === "cancelled") return;
+ *   Alert.alert(purchaseError.title, purchaseError.userMessage);
+ * }
+ *
+ * `message` keeps the original SDK message for logs; `userMessage` is safe to show.
+ */
+
+import { PURCHASES_ERROR_CODE } from "react-native-purchases";
+
+export type PurchaseErrorCategory =
+  | "cancelled"
+  | "network"
+  | "storeProblem"
+  | "notAllowed"
+  | "alreadyOwned"
+  | "pending"
+  | "configuration"
+  | "unknown";
+
+interface PurchaseErrorCategoryInfo {
+  title: string;
+  userMessage: string;
+  /** Whether trying the same operation again may succeed */
+  canRetry: boolean;
+}
+
+/**
+ * User-facing copy and retry hint for each category
+ */
+export const PURCHASE_ERROR_CATEGORIES: Record<PurchaseErrorCategory, PurchaseErrorCategoryInfo> = {
+  cancelled: {
+    title: "Purchase Cancelled",
+    userMessage: "The purchase was cancelled. You have not been charged.",
+    canRetry: true,
+  },
+  network: {
+    title: "Connection Problem",
+    userMessage: "Please check your internet connection and try again.",
+    canRetry: true,
+  },
+  storeProblem: {
+    title: "Store Unavailable",
+    userMessage: "The app store could not complete the request. Please try again in a moment.",
+    canRetry: true,
+  },
+  notAllowed: {
+    title: "Purchase Not Allowed",
+    userMessage:
+      "Purchases are not allowed for this account or device. Check your payment settings and restrictions.",
+    canRetry: false,
+  },
+  alreadyOwned: {
+    title: "Already Purchased",
+    userMessage: "You already own this. Use Restore Purchases to regain access.",
+    canRetry: false,
+  },
+  pending: {
+    title: "Payment Pending",
+    userMessage: "Your payment is being processed. Premium features unlock as soon as it is approved.",
+    canRetry: false,
+  },
+  configuration: {
+    title: "Configuration Error",
+    userMessage:
+      "RevenueCat is not properly configured. Please check your API keys in constants/RevenueCat.ts",
+    canRetry: false,
+  },
+  unknown: {
+    title: "Something Went Wrong",
+    userMessage: "Please try again later.",
+    canRetry: true,
+  },
+};
+
+const CATEGORY_BY_CODE: Partial<Record<PURCHASES_ERROR_CODE, PurchaseErrorCategory>> = {
+  [PURCHASES_ERROR_CODE.PURCHASE_CANCELLED_ERROR]: "cancelled",
+
+  [PURCHASES_ERROR_CODE.NETWORK_ERROR]: "network",
+  [PURCHASES_ERROR_CODE.OFFLINE_CONNECTION_ERROR]: "network",
+  [PURCHASES_ERROR_CODE.PRODUCT_REQUEST_TIMED_OUT_ERROR]: "network",
+  [PURCHASES_ERROR_CODE.API_ENDPOINT_BLOCKED]: "network",
+
+  [PURCHASES_ERROR_CODE.STORE_PROBLEM_ERROR]: "storeProblem",
+  [PURCHASES_ERROR_CODE.INVALID_RECEIPT_ERROR]: "storeProblem",
+  [PURCHASES_ERROR_CODE.MISSING_RECEIPT_FILE_ERROR]: "storeProblem",
+  [PURCHASES_ERROR_CODE.UNEXPECTED_BACKEND_RESPONSE_ERROR]: "storeProblem",
+  [PURCHASES_ERROR_CODE.UNKNOWN_BACKEND_ERROR]: "storeProblem",
+  [PURCHASES_ERROR_CODE.OPERATION_ALREADY_IN_PROGRESS_ERROR]: "storeProblem",
+
+  [PURCHASES_ERROR_CODE.PURCHASE_NOT_ALLOWED_ERROR]: "notAllowed",
+  [PURCHASES_ERROR_CODE.PURCHASE_INVALID_ERROR]: "notAllowed",
+  [PURCHASES_ERROR_CODE.INELIGIBLE_ERROR]: "notAllowed",
+  [PURCHASES_ERROR_CODE.INSUFFICIENT_PERMISSIONS_ERROR]: "notAllowed",
+  [PURCHASES_ERROR_CODE.INVALID_PROMOTIONAL_OFFER_ERROR]: "notAllowed",
+
+  [PURCHASES_ERROR_CODE.PRODUCT_ALREADY_PURCHASED_ERROR]: "alreadyOwned",
+  [PURCHASES_ERROR_CODE.RECEIPT_ALREADY_IN_USE_ERROR]: "alreadyOwned",
+  [PURCHASES_ERROR_CODE.RECEIPT_IN_USE_BY_OTHER_SUBSCRIBER_ERROR]: "alreadyOwned",
+
+  [PURCHASES_ERROR_CODE.PAYMENT_PENDING_ERROR]: "pending",
+
+  [PURCHASES_ERROR_CODE.CONFIGURATION_ERROR]: "configuration",
+  [PURCHASES_ERROR_CODE.INVALID_CREDENTIALS_ERROR]: "configuration",
+  [PURCHASES_ERROR_CODE.INVALID_APPLE_SUBSCRIPTION_KEY_ERROR]: "configuration",
+  [PURCHASES_ERROR_CODE.PRODUCT_NOT_AVAILABLE_FOR_PURCHASE_ERROR]: "configuration",
+  [PURCHASES_ERROR_CODE.INVALID_APP_USER_ID_ERROR]: "configuration",
+  [PURCHASES_ERROR_CODE.LOG_OUT_ANONYMOUS_USER_ERROR]: "configuration",
+  [PURCHASES_ERROR_CODE.UNSUPPORTED_ERROR]: "configuration",
+};
+
+const KNOWN_CODES = new Set<string>(Object.values(PURCHASES_ERROR_CODE));
+
+/**
+ * Typed error thrown by RevenueCatProvider actions
+ */
+export class PurchaseError extends Error {
+  readonly category: PurchaseErrorCategory;
+  /** SDK error code, when the error came from RevenueCat */
+  readonly code: PURCHASES_ERROR_CODE | null;
+  readonly title: string;
+  readonly userMessage: string;
+  readonly canRetry: boolean;
+  readonly cause: unknown;
+
+  constructor(
+    category: PurchaseErrorCategory,
+    message: string,
+    options: { code?: PURCHASES_ERROR_CODE | null; cause?: unknown } = {}
+  ) {
+    super(message);
+    // Keep instanceof working when classes are transpiled
+    Object.setPrototypeOf(this, PurchaseError.prototype);
+
+    const info = PURCHASE_ERROR_CATEGORIES[category];
+    this.name = "PurchaseError";
+    this.category = category;
+    this.code = options.code ?? null;
+    this.title = info.title;
+    this.userMessage = info.userMessage;
+    this.canRetry = info.canRetry;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Get the category for an SDK error code
+ */
+export const getPurchaseErrorCategory = (
+  code: PURCHASES_ERROR_CODE | null
+): PurchaseErrorCategory => (code != null && CATEGORY_BY_CODE[code]) || "unknown";
+
+/**
+ * Convert anything thrown by the SDK (or an adapter) into a PurchaseError
+ */
+export const toPurchaseError = (error: unknown): PurchaseError => {
+  if (error instanceof PurchaseError) return error;
+
+  const sdkError = (error ?? {}) as { code?: unknown; message?: unknown; userCancelled?: unknown };
+  const code =
+    sdkError.code != null && KNOWN_CODES.has(String(sdkError.code))
+      ? (String(sdkError.code) as PURCHASES_ERROR_CODE)
+      : null;
+  const message =
+    typeof sdkError.message === "string" && sdkError.message ? sdkError.message : String(error);
+
+  // Older SDK errors only carry the deprecated userCancelled flag
+  const category =
+    code == null && sdkError.userCancelled === true ? "cancelled" : getPurchaseErrorCategory(code);
+
+  return new PurchaseError(category, message, { code, cause: error });
+};
+
+/**
+ * Create an error shaped like the SDK's PurchasesError
+ * Used by in-memory adapters so their failures map to the same categories.
+ */
+export const createSdkError = (code: PURCHASES_ERROR_CODE, message: string) =>
+  Object.assign(new Error(message), {
+    code,
+    userCancelled: code === PURCHASES_ERROR_CODE.PURCHASE_CANCELLED_ERROR,
+  });
@@ -0,0 +1,122 @@
+/**
+ * Purchases Adapter
+ *
+ * Defines the narrow surface of the RevenueCat SDK that this framework uses,
+ * so the provider can run against the real `react-native-purchases` module or
+ * against an in-memory implementation (see lib/fakePurchasesAdapter.ts).
+ *
+ * USAGE:
+ * <RevenueCatProvider adapter={createFakePurchasesAdapter()}>
+ *   ...
+ * </RevenueCatProvider>
+ *
+ * When no adapter is passed, the provider uses `nativePurchasesAdapter`,
+ * which forwards every call to the `Purchases` default export.
+ */
+
+import { Platform } from "react-native";
+import Purchases, {
+  CustomerInfo,
+  CustomerInfoUpdateListener,
+  GoogleProductChangeInfo,
+  IntroEligibility,
+  LogInResult,
+  MakePurchaseResult,
+  PurchasesConfiguration,
+  PurchasesOfferings,
+  PurchasesPackage,
+  PurchasesPromotionalOffer,
+  PurchasesStoreProduct,
+  PurchasesStoreProductDiscount,
+} from "react-native-purchases";
+
+/**
+ * Everything the provider needs from a purchases backend
+ */
+export interface PurchasesAdapter {
+  configure: (configuration: PurchasesConfiguration) => Promise<void>;
+  getCustomerInfo: () => Promise<CustomerInfo>;
+  getOfferings: () => Promise<PurchasesOfferings>;
+  /**
+   * Purchase a package
+   * With googleProductChangeInfo, the purchase replaces that subscription (see
+   * lib/planChanges.ts). Google Play applies it; the App Store replaces plans of
+   * one subscription group on its own.
+   */
+  purchasePackage: (
+    packageToPurchase: PurchasesPackage,
+    googleProductChangeInfo?: GoogleProductChangeInfo | null
+  ) => Promise<MakePurchaseResult>;
+  /**
+   * Sign a promotional offer for the customer
+   * Resolves to undefined when the customer isn't eligible (and always on Android).
+   */
+  getPromotionalOffer: (
+    product: PurchasesStoreProduct,
+    discount: PurchasesStoreProductDiscount
+  ) => Promise<PurchasesPromotionalOffer | undefined>;
+  purchaseDiscountedPackage: (
+    packageToPurchase: PurchasesPackage,
+    promotionalOffer: PurchasesPromotionalOffer
+  ) => Promise<MakePurchaseResult>;
+  restorePurchases: () => Promise<CustomerInfo>;
+  logIn: (appUserID: string) => Promise<LogInResult>;
+  logOut: () => Promise<CustomerInfo>;
+  getAppUserID: () => Promise<string>;
+  isAnonymous: () => Promise<boolean>;
+  checkTrialOrIntroductoryPriceEligibility: (
+    productIdentifiers: string[]
+  ) => Promise<Record<string, IntroEligibility>>;
+  addCustomerInfoUpdateListener: (listener: CustomerInfoUpdateListener) => void;
+  removeCustomerInfoUpdateListener: (listener: CustomerInfoUpdateListener) => boolean;
+  /** Set custom subscriber attributes. A null value removes the attribute. */
+  setAttributes: (attributes: Record<string, string | null>) => Promise<void>;
+  setEmail: (email: string | null) => Promise<void>;
+  setDisplayName: (displayName: string | null) => Promise<void>;
+  /** Show the App Store's offer code redemption sheet. Does nothing outside iOS. */
+  presentCodeRedemptionSheet: () => Promise<void>;
+  /**
+   * Redeem an offer code without any store UI
+   * Only in-memory stores implement this; the real stores redeem codes themselves.
+   */
+  redeemOfferCode?: (code: string) => Promise<CustomerInfo>;
+  /**
+   * Turn off auto-renew for every active subscription
+   * Only in-memory stores implement this; the real stores cancel on their own subscription pages.
+   */
+  cancelSubscriptions?: () => Promise<CustomerInfo>;
+}
+
+/**
+ * Adapter backed by the real RevenueCat SDK
+ * This is the default used by RevenueCatProvider
+ */
+export const nativePurchasesAdapter: PurchasesAdapter = {
+  configure: async (configuration) => {
+    Purchases.configure(configuration);
+  },
+  getCustomerInfo: () => Purchases.getCustomerInfo(),
+  getOfferings: () => Purchases.getOfferings(),
+  purchasePackage: (packageToPurchase, googleProductChangeInfo) =>
+    Purchases.purchasePackage(
+      packageToPurchase,
+      null,
+      Platform.OS === "android" ? googleProductChangeInfo : null
+    ),
+  getPromotionalOffer: (product, discount) => Purchases.getPromotionalOffer(product, discount),
+  purchaseDiscountedPackage: (packageToPurchase, promotionalOffer) =>
+    Purchases.purchaseDiscountedPackage(packageToPurchase, promotionalOffer),
+  restorePurchases: () => Purchases.restorePurchases(),
+  logIn: (appUserID) => Purchases.logIn(appUserID),
+  logOut: () => Purchases.logOut(),
+  getAppUserID: () => Purchases.getAppUserID(),
+  isAnonymous: () => Purchases.isAnonymous(),
+  checkTrialOrIntroductoryPriceEligibility: (productIdentifiers) =>
+    Purchases.checkTrialOrIntroductoryPriceEligibility(productIdentifiers),
+  addCustomerInfoUpdateListener: (listener) => Purchases.addCustomerInfoUpdateListener(listener),
+  removeCustomerInfoUpdateListener: (listener) => Purchases.removeCustomerInfoUpdateListener(listener),
+  setAttributes: (attributes) => Purchases.setAttributes(attributes),
+  setEmail: (email) => Purchases.setEmail(email),
+  setDisplayName: (displayName) => Purchases.setDisplayName(displayName),
+  presentCodeRedemptionSheet: () => Purchases.presentCodeRedemptionSheet(),
+};
@@ -0,0 +1,58 @@
+/**
+ * Purchases Cache
+ *
+ * Persists the last CustomerInfo and offerings received from RevenueCat so the
+ * provider can show the right subscription status immediately on cold start,
+ * including when the device is offline.
+ */
+
+import { CustomerInfo, PurchasesOfferings } from "react-native-purchases";
+
+import { readJSON, removeItem, writeJSON } from "@/lib/storage";
+
+const CACHE_KEY = "purchases-cache";
+
+// Bump when the snapshot shape changes; older snapshots are ignored
+const CACHE_VERSION = 1;
+
+/**
+ * How long synced data is considered fresh (5 minutes, same as the SDK's own cache)
+ */
+export const CACHE_STALE_AFTER_MS = 5 * 60 * 1000;
+
+export interface PurchasesCacheSnapshot {
+  version: typeof CACHE_VERSION;
+  appUserID: string | null;
+  customerInfo: CustomerInfo | null;
+  offerings: PurchasesOfferings | null;
+  /** When this data was last received from RevenueCat (epoch milliseconds) */
+  lastSyncedAt: number;
+}
+
+/**
+ * Load the last persisted snapshot, if any
+ */
+export const loadPurchasesCache = async (): Promise<PurchasesCacheSnapshot | null> => {
+  const snapshot = await readJSON<PurchasesCacheSnapshot>(CACHE_KEY);
+  if (!snapshot || snapshot.version !== CACHE_VERSION) {
+    return null;
+  }
+  return snapshot;
+};
+
+/**
+ * Persist a snapshot
+ */
+export const savePurchasesCache = (snapshot: Omit<PurchasesCacheSnapshot, "version">) =>
+  writeJSON(CACHE_KEY, { ...snapshot, version: CACHE_VERSION });
+
+/**
+ * Remove the persisted snapshot (e.g. on logout)
+ */
+export const clearPurchasesCache = () => removeItem(CACHE_KEY);
+
+/**
+ * Whether data synced at the given time should be revalidated
+ */
+export const isCacheStale = (lastSyncedAt: number | null, now = Date.now()) =>
+  lastSyncedAt == null || now - lastSyncedAt > CACHE_STALE_AFTER_MS;
@@ -0,0 +1,289 @@
+/**
+ * SDK Call Log
+ *
+ * Ring buffer of every call the provider makes to the purchases backend
+ * (configure, getOfferings, getCustomerInfo, purchases, restores, ...) and of
+ * every customer info update the backend pushes, with arguments, timing,
+ * outcome and error code. The Profile tab shows it as a timeline.
+ *
+ * USAGE:
+ * const adapter = logSdkCalls(createFakePurchasesAdapter(), sdkCallLog, "fake");
+ * const unsubscribe = sdkCallLog.subscribe(() => render(sdkCallLog.getEntries()));
+ *
+ * In components, use the log from the provider (null when SDK_CALL_LOG_CONFIG
+ * disables it):
+ * const { sdkCallLog } = useRevenueCat();
+ *
+ * The app-wide log lives outside React, so it keeps its entries while screens
+ * mount and unmount. Arguments and results are stored as short summaries, with
+ * API keys masked, never as the objects themselves.
+ */
+
+import { CustomerInfoUpdateListener, PURCHASES_ERROR_CODE } from "react-native-purchases";
+
+import { SDK_CALL_LOG_CONFIG } from "@/constants/RevenueCat";
+import { PurchasesAdapter } from "@/lib/purchasesAdapter";
+import { toPurchaseError } from "@/lib/purchaseErrors";
+
+export type SdkCallStatus = "pending" | "success" | "error";
+
+export interface SdkCallLogEntry {
+  id: number;
+  /** Adapter method, or "customerInfoUpdated" for listener updates */
+  method: string;
+  /** "call" for adapter methods, "event" for updates pushed by the backend */
+  kind: "call" | "event";
+  /** Backend that handled it, e.g. "sdk" or "demo" */
+  source: string;
+  /** Summary of the arguments */
+  args: string;
+  /** Epoch milliseconds */
+  startedAt: number;
+  /** Null while pending, and for events */
+  durationMs: number | null;
+  status: SdkCallStatus;
+  /** Summary of the result */
+  result: string | null;
+  errorCode: PURCHASES_ERROR_CODE | null;
+  errorMessage: string | null;
+}
+
+export interface SdkCallLog {
+  /** Entries from oldest to newest. A new array whenever the log changes. */
+  getEntries: () => readonly SdkCallLogEntry[];
+  /** Called after every change. Returns a function that removes the listener. */
+  subscribe: (listener: () => void) => () => void;
+  /** Start an entry. Returns its id for completeCall. */
+  startCall: (method: string, source: string, args: string) => number;
+  completeCall: (id: number, outcome: { result: string } | { error: unknown }) => void;
+  recordEvent: (method: string, source: string, result: string) => void;
+  clear: () => void;
+}
+
+export const CUSTOMER_INFO_UPDATED_EVENT = "customerInfoUpdated";
+
+// Longest summary kept for a single value
+const MAX_SUMMARY_LENGTH = 160;
+
+const truncate = (text: string) =>
+  text.length > MAX_SUMMARY_LENGTH ? `${text.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : text;
+
+// Fields of the SDK objects that describeSdkValue recognizes
+interface SdkObjectFields {
+  apiKey?: unknown;
+  originalAppUserId?: unknown;
+  entitlements?: { active?: Record<string, unknown> };
+  all?: Record<string, unknown>;
+  current?: { identifier?: string } | null;
+  customerInfo?: unknown;
+  productIdentifier?: unknown;
+  created?: unknown;
+  identifier?: unknown;
+  packageType?: unknown;
+  product?: { identifier?: string };
+  priceString?: unknown;
+}
+
+/**
+ * Short, readable description of an SDK argument or result
+ * Known SDK objects are reduced to their identifiers.
+ */
+export const describeSdkValue = (value: unknown): string => {
+  if (value === undefined) return "undefined";
+  if (typeof value === "function") return "[function]";
+  if (value === null || typeof value !== "object") return truncate(JSON.stringify(value));
+  if (Array.isArray(value)) {
+    const items = value.slice(0, 5).map(describeSdkValue);
+    return truncate(`[${items.join(", ")}${value.length > 5 ? `, +${value.length - 5}` : ""}]`);
+  }
+
+  const object = value as SdkObjectFields;
+  // PurchasesConfiguration: the key is public, but has no place in screenshots
+  if (typeof object.apiKey === "string") {
+    return truncate(JSON.stringify({ ...object, apiKey: `${object.apiKey.slice(0, 5)}…` }));
+  }
+  // CustomerInfo
+  if (object.entitlements?.active && "originalAppUserId" in object) {
+    const active = Object.keys(object.entitlements.active);
+    return truncate(`CustomerInfo(active: ${active.length > 0 ? active.join(", ") : "none"})`);
+  }
+  // PurchasesOfferings
+  if (object.all && object.current !== undefined) {
+    return truncate(
+      `Offerings(current: ${object.current?.identifier ?? "none"}, ${Object.keys(object.all).length} total)`
+    );
+  }
+  // MakePurchaseResult
+  if (object.customerInfo && typeof object.productIdentifier === "string") {
+    return truncate(`Purchased ${object.productIdentifier}, ${describeSdkValue(object.customerInfo)}`);
+  }
+  // LogInResult
+  if (object.customerInfo && typeof object.created === "boolean") {
+    return truncate(`${object.created ? "Created" : "Existing"} user, ${describeSdkValue(object.customerInfo)}`);
+  }
+  // PurchasesPackage
+  if (object.product && typeof object.packageType === "string") {
+    return `Package(${String(object.identifier)}, ${object.product.identifier})`;
+  }
+  // PurchasesStoreProduct
+  if (typeof object.identifier === "string" && typeof object.priceString === "string") {
+    return `Product(${object.identifier})`;
+  }
+
+  try {
+    return truncate(JSON.stringify(value));
+  } catch {
+    return "[object]";
+  }
+};
+
+/**
+ * Create an empty log that keeps the newest `capacity` entries
+ */
+export const createSdkCallLog = (capacity: number = SDK_CALL_LOG_CONFIG.CAPACITY): SdkCallLog => {
+  let entries: SdkCallLogEntry[] = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const commit = (next: SdkCallLogEntry[]) => {
+    entries = next.length > capacity ? next.slice(next.length - capacity) : next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    getEntries: () => entries,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    startCall: (method, source, args) => {
+      const id = nextId++;
+      commit([
+        ...entries,
+        {
+          id,
+          method,
+          kind: "call",
+          source,
+          args,
+          startedAt: Date.now(),
+          durationMs: null,
+          status: "pending",
+          result: null,
+          errorCode: null,
+          errorMessage: null,
+        },
+      ]);
+      return id;
+    },
+    completeCall: (id, outcome) => {
+      const entry = entries.find((candidate) => candidate.id === id);
+      // Already dropped from the buffer
+      if (!entry) return;
+
+      const durationMs = Date.now() - entry.startedAt;
+      let completed: SdkCallLogEntry;
+      if ("error" in outcome) {
+        const purchaseError = toPurchaseError(outcome.error);
+        completed = {
+          ...entry,
+          durationMs,
+          status: "error",
+          errorCode: purchaseError.code,
+          errorMessage: purchaseError.message,
+        };
+      } else {
+        completed = { ...entry, durationMs, status: "success", result: outcome.result };
+      }
+      commit(entries.map((candidate) => (candidate.id === id ? completed : candidate)));
+    },
+    recordEvent: (method, source, result) => {
+      commit([
+        ...entries,
+        {
+          id: nextId++,
+          method,
+          kind: "event",
+          source,
+          args: "",
+          startedAt: Date.now(),
+          durationMs: null,
+          status: "success",
+          result,
+          errorCode: null,
+          errorMessage: null,
+        },
+      ]);
+    },
+    clear: () => commit([]),
+  };
+};
+
+/**
+ * App-wide log used by RevenueCatProvider while SDK_CALL_LOG_CONFIG.ENABLED is on
+ */
+export const sdkCallLog = createSdkCallLog();
+
+/**
+ * Wrap an adapter so every call and customer info update is recorded
+ * The wrapper has the same optional methods as the adapter it wraps.
+ */
+export const logSdkCalls = (
+  adapter: PurchasesAdapter,
+  log: SdkCallLog,
+  source: string
+): PurchasesAdapter => {
+  // Listeners handed to the adapter, by the listener the caller registered
+  const wrappedListeners = new Map<CustomerInfoUpdateListener, CustomerInfoUpdateListener>();
+
+  const logged = {} as Record<string, unknown>;
+  (Object.keys(adapter) as (keyof PurchasesAdapter)[]).forEach((method) => {
+    const original = adapter[method] as ((...args: unknown[]) => unknown) | undefined;
+    if (typeof original !== "function") return;
+
+    logged[method] = (...args: unknown[]) => {
+      const id = log.startCall(method, source, args.map(describeSdkValue).join(", "));
+      try {
+        const value = original(...args);
+        if (value instanceof Promise) {
+          return value.then(
+            (result) => {
+              log.completeCall(id, { result: describeSdkValue(result) });
+              return result;
+            },
+            (error) => {
+              log.completeCall(id, { error });
+              throw error;
+            }
+          );
+        }
+        log.completeCall(id, { result: describeSdkValue(value) });
+        return value;
+      } catch (error) {
+        log.completeCall(id, { error });
+        throw error;
+      }
+    };
+  });
+
+  return {
+    ...(logged as unknown as PurchasesAdapter),
+    addCustomerInfoUpdateListener: (listener) => {
+      const wrapped: typeof listener = (customerInfo) => {
+        log.recordEvent(CUSTOMER_INFO_UPDATED_EVENT, source, describeSdkValue(customerInfo));
+        listener(customerInfo);
+      };
+      wrappedListeners.set(listener, wrapped);
+      (logged.addCustomerInfoUpdateListener as PurchasesAdapter["addCustomerInfoUpdateListener"])(wrapped);
+    },
+    removeCustomerInfoUpdateListener: (listener) => {
+      const wrapped = wrappedListeners.get(listener) ?? listener;
+      wrappedListeners.delete(listener);
+      return (logged.removeCustomerInfoUpdateListener as PurchasesAdapter["removeCustomerInfoUpdateListener"])(
+        wrapped
+      );
+    },
+  };
+};
@@ -0,0 +1,49 @@
+/**
+ * Local Storage Helpers
+ *
+ * Thin JSON wrapper around AsyncStorage used for everything this framework
+ * persists on the device. Keys are namespaced so they never collide with your
+ * app's own storage.
+ *
+ * Storage failures are logged and treated as "nothing stored": persisted data
+ * is always a cache, never the source of truth.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const KEY_PREFIX = "@revenuecat-framework/";
+
+/**
+ * Read and parse a JSON value. Returns null when missing or unreadable.
+ */
+export const readJSON = async <T>(key: string): Promise<T | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(KEY_PREFIX + key);
+    return raw == null ? null : (JSON.parse(raw) as T);
+  } catch (err) {
+    console.warn(`⚠️ Failed to read "${key}" from storage:`, err);
+    return null;
+  }
+};
+
+/**
+ * Serialize and store a JSON value
+ */
+export const writeJSON = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`⚠️ Failed to write "${key}" to storage:`, err);
+  }
+};
+
+/**
+ * Remove a stored value
+ */
+export const removeItem = async (key: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(KEY_PREFIX + key);
+  } catch (err) {
+    console.warn(`⚠️ Failed to remove "${key}" from storage:`, err);
+  }
+};
@@ -0,0 +1,241 @@
+/**
+ * Subscriber Attributes
+ *
+ * Batches subscriber attribute changes (email, display name and the custom
+ * keys in CUSTOM_ATTRIBUTE_KEYS) and sends them to RevenueCat, retrying with
+ * backoff until they're accepted. RevenueCat can't read attributes back, so the
+ * values set for the current user are kept on the device for display.
+ *
+ * USAGE (via usePurchases):
+ * setEmail("ada@example.com");
+ * setAttributes({ onboarding_goal: "fitness", referral_source: null });
+ * await flushAttributes(); // optional: send now instead of in the next batch
+ *
+ * Changes made within DEBOUNCE_MS of each other are sent together. A null or
+ * empty value removes the attribute.
+ */
+
+import { CustomAttributeKey } from "@/constants/RevenueCat";
+import { PurchasesAdapter } from "@/lib/purchasesAdapter";
+import { readJSON, writeJSON } from "@/lib/storage";
+
+const STORAGE_KEY = "subscriber-attributes";
+
+const DEBOUNCE_MS = 500;
+
+// Retry delays after failed syncs: 2s, 4s, 8s, ... up to 1 minute
+const INITIAL_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+// RevenueCat limits
+const MAX_KEY_LENGTH = 40;
+const MAX_VALUE_LENGTH = 500;
+
+export const EMAIL_ATTRIBUTE = "$email";
+export const DISPLAY_NAME_ATTRIBUTE = "$displayName";
+
+export type SubscriberAttributeKey =
+  | CustomAttributeKey
+  | typeof EMAIL_ATTRIBUTE
+  | typeof DISPLAY_NAME_ATTRIBUTE;
+
+/** Attribute values; null removes an attribute */
+export type SubscriberAttributeValues = Partial<Record<SubscriberAttributeKey, string | null>>;
+
+export interface SubscriberAttributesState {
+  appUserID: string;
+  /** Values set for this user. Removed attributes are null until synced. */
+  values: SubscriberAttributeValues;
+  /** Keys whose latest value hasn't been accepted by RevenueCat yet */
+  pendingKeys: SubscriberAttributeKey[];
+  /** When RevenueCat last accepted a batch (epoch milliseconds) */
+  lastSyncedAt: number | null;
+}
+
+export interface AttributeSyncer {
+  /** Switch to a user's stored attributes, sending anything still pending. Also resumes after dispose(). */
+  setUser: (state: SubscriberAttributesState) => void;
+  /** Queue attribute changes for the current user */
+  set: (values: SubscriberAttributeValues) => void;
+  /** Send pending changes now. Rejects when the sync fails (it is retried later). */
+  flush: () => Promise<void>;
+  /** Cancel scheduled syncs */
+  dispose: () => void;
+}
+
+export const createEmptyAttributesState = (appUserID: string): SubscriberAttributesState => ({
+  appUserID,
+  values: {},
+  pendingKeys: [],
+  lastSyncedAt: null,
+});
+
+/**
+ * Load the attributes stored for a user
+ * Attributes stored for another user are discarded.
+ */
+export const loadSubscriberAttributes = async (
+  appUserID: string
+): Promise<SubscriberAttributesState> => {
+  const stored = await readJSON<SubscriberAttributesState>(STORAGE_KEY);
+  return stored?.appUserID === appUserID ? stored : createEmptyAttributesState(appUserID);
+};
+
+/**
+ * Trim a value; empty strings remove the attribute
+ */
+const normalizeValue = (value: string | null | undefined): string | null => {
+  const trimmed = value?.trim() ?? "";
+  return trimmed ? trimmed.slice(0, MAX_VALUE_LENGTH) : null;
+};
+
+/**
+ * Send attributes with the matching SDK calls
+ * Email and display name are reserved attributes with their own setters.
+ */
+export const sendSubscriberAttributes = async (
+  adapter: PurchasesAdapter,
+  values: SubscriberAttributeValues
+) => {
+  const {
+    [EMAIL_ATTRIBUTE]: email,
+    [DISPLAY_NAME_ATTRIBUTE]: displayName,
+    ...custom
+  } = values;
+
+  if (email !== undefined) await adapter.setEmail(email);
+  if (displayName !== undefined) await adapter.setDisplayName(displayName);
+  if (Object.keys(custom).length > 0) {
+    await adapter.setAttributes(custom as Record<string, string | null>);
+  }
+};
+
+/**
+ * Create a syncer that batches attribute changes and retries failed syncs
+ *
+ * @param getAdapter Returns the adapter in use (it changes in demo mode)
+ * @param onChange Called with the new state after every change
+ */
+export const createAttributeSyncer = (
+  getAdapter: () => PurchasesAdapter,
+  onChange: (state: SubscriberAttributesState | null) => void
+): AttributeSyncer => {
+  let state: SubscriberAttributesState | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> | null = null;
+  let failedAttempts = 0;
+  let disposed = false;
+
+  const update = (next: SubscriberAttributesState) => {
+    state = next;
+    onChange(next);
+    writeJSON(STORAGE_KEY, next);
+  };
+
+  const schedule = (delayMs: number) => {
+    if (disposed || !state?.pendingKeys.length) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      flush().catch(() => {
+        // Already logged and rescheduled
+      });
+    }, delayMs);
+  };
+
+  const sync = async () => {
+    const sentState = state;
+    if (!sentState || sentState.pendingKeys.length === 0) return;
+
+    const batch: SubscriberAttributeValues = {};
+    sentState.pendingKeys.forEach((key) => {
+      batch[key] = sentState.values[key] ?? null;
+    });
+
+    await sendSubscriberAttributes(getAdapter(), batch);
+
+    // Keys changed while the batch was in flight stay pending
+    if (state?.appUserID !== sentState.appUserID) return;
+    const current = state;
+    const values = { ...current.values };
+    const pendingKeys = current.pendingKeys.filter(
+      (key) => !(key in batch) || batch[key] !== (current.values[key] ?? null)
+    );
+    // Removed attributes don't need to be shown once RevenueCat has them
+    (Object.keys(batch) as SubscriberAttributeKey[]).forEach((key) => {
+      if (!pendingKeys.includes(key) && values[key] === null) delete values[key];
+    });
+    update({ ...current, values, pendingKeys, lastSyncedAt: Date.now() });
+  };
+
+  const flush = (): Promise<void> => {
+    if (inFlight) return inFlight;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    inFlight = sync()
+      .then(() => {
+        failedAttempts = 0;
+        // Changes queued during the sync
+        schedule(DEBOUNCE_MS);
+      })
+      .catch((err) => {
+        failedAttempts += 1;
+        const retryDelayMs = Math.min(
+          INITIAL_RETRY_DELAY_MS * 2 ** (failedAttempts - 1),
+          MAX_RETRY_DELAY_MS
+        );
+        console.warn(
+          `⚠️ Failed to sync subscriber attributes, retrying in ${Math.round(retryDelayMs / 1000)}s:`,
+          err
+        );
+        schedule(retryDelayMs);
+        throw err;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    return inFlight;
+  };
+
+  return {
+    setUser: (nextState) => {
+      disposed = false;
+      failedAttempts = 0;
+      update(nextState);
+      schedule(DEBOUNCE_MS);
+    },
+
+    set: (values) => {
+      if (!state) {
+        console.warn("⚠️ Subscriber attributes can't be set before RevenueCat knows the user");
+        return;
+      }
+
+      const nextValues = { ...state.values };
+      const pendingKeys = new Set(state.pendingKeys);
+      (Object.keys(values) as SubscriberAttributeKey[]).forEach((key) => {
+        if (key.length > MAX_KEY_LENGTH) {
+          console.warn(`⚠️ Subscriber attribute key "${key}" is longer than ${MAX_KEY_LENGTH} characters`);
+          return;
+        }
+        nextValues[key] = normalizeValue(values[key]);
+        pendingKeys.add(key);
+      });
+
+      update({ ...state, values: nextValues, pendingKeys: [...pendingKeys] });
+      // A failing sync keeps its backoff; new values go out with the retry
+      if (failedAttempts === 0) schedule(DEBOUNCE_MS);
+    },
+
+    flush,
+
+    dispose: () => {
+      disposed = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
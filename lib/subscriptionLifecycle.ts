@@ -0,0 +1,152 @@
+/**
+ * Subscription Lifecycle
+ *
+ * Turns a RevenueCat EntitlementInfo into the details a subscriber cares about:
+ * whether it renews or ends and when, trial and intro periods, billing issues,
+ * cancellations, the store it was bought on and how the customer got it.
+ *
+ * USAGE:
+ * const entitlement = getDisplayedEntitlements(customerInfo)[0];
+ * const lifecycle = getSubscriptionLifecycle(entitlement);
+ * if (lifecycle.state === "billingIssue") { ... }
+ *
+ * components/SubscriptionDetailsCard.tsx shows the result, localized.
+ */
+
+import {
+  CustomerInfo,
+  OwnershipType,
+  PeriodType,
+  PurchasesEntitlementInfo,
+  PurchasesOfferings,
+  PurchasesPackage,
+  PurchasesStoreProduct,
+  Store,
+} from "react-native-purchases";
+
+/**
+ * Where an entitlement is in its lifecycle, most urgent first:
+ * - "billingIssue": active, but the store couldn't charge the renewal (grace period)
+ * - "cancelled": active until the period ends, won't renew
+ * - "trial" / "intro": renewing, in a free trial or at an intro price
+ * - "active": renewing at the regular price
+ * - "lifetime": active and never expires
+ * - "expired": no longer active
+ */
+export type SubscriptionState =
+  | "billingIssue"
+  | "cancelled"
+  | "trial"
+  | "intro"
+  | "active"
+  | "lifetime"
+  | "expired";
+
+export interface SubscriptionLifecycle {
+  entitlementId: string;
+  productIdentifier: string;
+  /** Google Play base plan, null elsewhere */
+  productPlanIdentifier: string | null;
+  store: Store;
+  state: SubscriptionState;
+  isActive: boolean;
+  willRenew: boolean;
+  periodType: PeriodType;
+  /**
+   * When the current period ends: the renewal date while it renews, otherwise the
+   * expiration date. Null for purchases that never expire.
+   */
+  periodEndsAt: Date | null;
+  billingIssueDetectedAt: Date | null;
+  /** When auto-renew was turned off */
+  unsubscribeDetectedAt: Date | null;
+  latestPurchaseAt: Date;
+  originalPurchaseAt: Date;
+  /** Bought in a sandbox or test environment */
+  isSandbox: boolean;
+  ownershipType: OwnershipType;
+}
+
+const toDate = (millis: number | null | undefined) => (millis == null ? null : new Date(millis));
+
+/**
+ * Work out where an entitlement is in its lifecycle
+ */
+export const getSubscriptionState = (entitlement: PurchasesEntitlementInfo): SubscriptionState => {
+  if (!entitlement.isActive) return "expired";
+  if (entitlement.billingIssueDetectedAtMillis != null) return "billingIssue";
+  if (entitlement.expirationDateMillis == null) return "lifetime";
+  if (!entitlement.willRenew) return "cancelled";
+  if (entitlement.periodType === "TRIAL") return "trial";
+  if (entitlement.periodType === "INTRO") return "intro";
+  return "active";
+};
+
+/**
+ * Get the lifecycle details of an entitlement
+ */
+export const getSubscriptionLifecycle = (
+  entitlement: PurchasesEntitlementInfo
+): SubscriptionLifecycle => ({
+  entitlementId: entitlement.identifier,
+  productIdentifier: entitlement.productIdentifier,
+  productPlanIdentifier: entitlement.productPlanIdentifier ?? null,
+  store: entitlement.store,
+  state: getSubscriptionState(entitlement),
+  isActive: entitlement.isActive,
+  willRenew: entitlement.willRenew,
+  // Typed as a plain string by the SDK
+  periodType: entitlement.periodType as PeriodType,
+  periodEndsAt: toDate(entitlement.expirationDateMillis),
+  billingIssueDetectedAt: toDate(entitlement.billingIssueDetectedAtMillis),
+  unsubscribeDetectedAt: toDate(entitlement.unsubscribeDetectedAtMillis),
+  latestPurchaseAt: new Date(entitlement.latestPurchaseDateMillis),
+  originalPurchaseAt: new Date(entitlement.originalPurchaseDateMillis),
+  isSandbox: entitlement.isSandbox,
+  ownershipType: entitlement.ownershipType,
+});
+
+/**
+ * Entitlements worth showing to the customer
+ * All active entitlements, or the most recently expired one when nothing is active.
+ */
+export const getDisplayedEntitlements = (
+  customerInfo: CustomerInfo | null
+): PurchasesEntitlementInfo[] => {
+  if (!customerInfo) return [];
+
+  const active = Object.values(customerInfo.entitlements.active);
+  if (active.length > 0) return active;
+
+  const [latestExpired] = Object.values(customerInfo.entitlements.all).sort(
+    (a, b) => (b.expirationDateMillis ?? 0) - (a.expirationDateMillis ?? 0)
+  );
+  return latestExpired ? [latestExpired] : [];
+};
+
+/**
+ * Find the package behind an entitlement in the loaded offerings
+ * Google Play products are identified as "subscription:base-plan" in offerings.
+ */
+export const findEntitlementPackage = (
+  entitlement: PurchasesEntitlementInfo,
+  offerings: PurchasesOfferings | null
+): PurchasesPackage | null => {
+  const identifiers = [entitlement.productIdentifier];
+  if (entitlement.productPlanIdentifier) {
+    identifiers.push(`${entitlement.productIdentifier}:${entitlement.productPlanIdentifier}`);
+  }
+
+  const packages = Object.values(offerings?.all ?? {}).flatMap(
+    (offering) => offering.availablePackages
+  );
+  return packages.find((pkg) => identifiers.includes(pkg.product.identifier)) ?? null;
+};
+
+/**
+ * Find the store product behind an entitlement in the loaded offerings
+ */
+export const findEntitlementProduct = (
+  entitlement: PurchasesEntitlementInfo,
+  offerings: PurchasesOfferings | null
+): PurchasesStoreProduct | null => findEntitlementPackage(entitlement, offerings)?.product ?? null;
@@ -0,0 +1,77 @@
+/**
+ * Subscription Management
+ *
+ * Picks where "Manage Subscription" sends a subscriber:
+ * - "managementURL": the page RevenueCat reports in customerInfo.managementURL
+ *   (the App Store, Google Play or Web Billing, depending on the subscription)
+ * - "storePage": the device store's subscription list, when RevenueCat has no URL
+ * - "simulated": in-memory stores turn off auto-renew instead (demo mode)
+ * - "unavailable": nowhere to send the subscriber
+ *
+ * USAGE (via usePurchases):
+ * const { subscriptionManagementMethod, openSubscriptionManagement } = usePurchases();
+ *
+ * The exit survey asked before leaving is configured in EXIT_SURVEY_CONFIG
+ * (constants/RevenueCat.ts).
+ */
+
+import { Platform } from "react-native";
+import { CustomerInfo } from "react-native-purchases";
+
+import { EXIT_SURVEY_CONFIG, ExitSurveyReason, isPlaceholder } from "@/constants/RevenueCat";
+import { PurchasesAdapter } from "@/lib/purchasesAdapter";
+
+export type SubscriptionManagementMethod =
+  | "managementURL"
+  | "storePage"
+  | "simulated"
+  | "unavailable";
+
+// Subscription lists of the device stores
+const STORE_SUBSCRIPTIONS_URLS: Partial<Record<string, string>> = {
+  ios: "https://apps.apple.com/account/subscriptions",
+  android: "https://play.google.com/store/account/subscriptions",
+};
+
+/**
+ * Get the page that manages the customer's subscriptions
+ * Returns null when there's neither a management URL nor a store page for the platform.
+ */
+export const getManagementURL = (
+  customerInfo: CustomerInfo | null,
+  platform: string = Platform.OS
+): string | null => customerInfo?.managementURL ?? STORE_SUBSCRIPTIONS_URLS[platform] ?? null;
+
+/**
+ * Get how subscriptions are managed for an adapter and customer on the current platform
+ */
+export const getSubscriptionManagementMethod = (
+  adapter: PurchasesAdapter,
+  customerInfo: CustomerInfo | null,
+  platform: string = Platform.OS
+): SubscriptionManagementMethod => {
+  if (adapter.cancelSubscriptions) return "simulated";
+  if (customerInfo?.managementURL) return "managementURL";
+  return STORE_SUBSCRIPTIONS_URLS[platform] ? "storePage" : "unavailable";
+};
+
+/**
+ * Find a configured exit survey reason
+ */
+export const getExitSurveyReason = (
+  reasonId: string | null | undefined
+): ExitSurveyReason | null =>
+  EXIT_SURVEY_CONFIG.REASONS.find((reason) => reason.id === reasonId) ?? null;
+
+/**
+ * Retention offer to show for an exit survey reason
+ * Undefined when the reason has none, or its identifiers are still placeholders.
+ */
+export const getRetentionOffer = (reason: ExitSurveyReason | null) => {
+  const offer = reason?.retentionOffer;
+  if (!offer) return undefined;
+  if ([offer.offeringId, offer.discount].some((id) => id !== undefined && isPlaceholder(id))) {
+    return undefined;
+  }
+  return offer;
+};
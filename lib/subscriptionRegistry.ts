@@ -0,0 +1,45 @@
+/**
+ * Subscription Registry
+ *
+ * Keeps track of cleanup functions for listeners registered with the SDK so
+ * they can all be removed at once, e.g. when the provider unmounts or the SDK
+ * is configured again.
+ */
+
+export interface SubscriptionRegistry {
+  /** Register a cleanup function. Returns a function that runs and unregisters it. */
+  add: (unsubscribe: () => void) => () => void;
+  /** Run and unregister every cleanup function */
+  clear: () => void;
+  /** Number of active subscriptions */
+  size: () => number;
+}
+
+export function createSubscriptionRegistry(): SubscriptionRegistry {
+  const cleanups = new Set<() => void>();
+
+  return {
+    add: (unsubscribe) => {
+      cleanups.add(unsubscribe);
+      return () => {
+        if (cleanups.delete(unsubscribe)) {
+          unsubscribe();
+        }
+      };
+    },
+
+    clear: () => {
+      const pending = Array.from(cleanups);
+      cleanups.clear();
+      pending.forEach((unsubscribe) => {
+        try {
+          unsubscribe();
+        } catch (err) {
+          console.error("❌ Failed to remove listener:", err);
+        }
+      });
+    },
+
+    size: () => cleanups.size,
+  };
+}
@@ -0,0 +1,447 @@
+/**
+ * Testing Utilities
+ *
+ * Renders components and hooks inside a RevenueCatProvider backed by the fake
+ * store (lib/fakePurchasesAdapter.ts) with scripted purchase outcomes, so
+ * screens that call useRevenueCat() or usePurchases() can be unit tested
+ * without the native SDK.
+ *
+ * USAGE:
+ * const monthly = buildPackage({ packageType: PACKAGE_TYPE.MONTHLY });
+ * const { getByText, adapter } = await renderWithRevenueCat(<Paywall />, {
+ *   offerings: buildOfferings(buildOffering({ packages: [monthly] })),
+ *   purchaseOutcomes: ["cancel", "success"],
+ * });
+ *
+ * const { result } = await renderHookWithRevenueCat(() => usePurchases(), {
+ *   customer: { entitlements: ["premium"] },
+ * });
+ * expect(result.current.isPremium).toBe(true);
+ *
+ * FEATURES:
+ * - Fixture builders for store products, packages, offerings and customers
+ * - Scripted purchase outcomes (success, cancel or any SDK error code), consumed in order
+ * - Everything else (entitlements, listeners, restores, plan changes, offer codes)
+ *   is the fake store's behavior, so demo mode and tests can't drift apart
+ * - Resolves once the provider has loaded, with the analytics events it tracked
+ *
+ * Only import this module from tests: it depends on @testing-library/react-native.
+ * The jest mocks in __mocks__/ keep react-native-purchases and AsyncStorage off
+ * the native modules.
+ */
+
+import React from "react";
+import { render, waitFor } from "@testing-library/react-native";
+import {
+  CustomerInfo,
+  PACKAGE_TYPE,
+  PRODUCT_CATEGORY,
+  PRODUCT_TYPE,
+  PURCHASES_ERROR_CODE,
+  PurchasesOffering,
+  PurchasesOfferings,
+  PurchasesPackage,
+  PurchasesStoreProduct,
+  Store,
+} from "react-native-purchases";
+
+import { RevenueCatProvider, useRevenueCat } from "@/components/RevenueCatProvider";
+import { REVENUECAT_CONFIG } from "@/constants/RevenueCat";
+import {
+  FakePurchasesAdapter,
+  FakePurchasesAdapterOptions,
+  FakeTransactionSeed,
+  buildFakeCustomerInfo,
+  createFakePurchasesAdapter,
+} from "@/lib/fakePurchasesAdapter";
+import { createSdkError } from "@/lib/purchaseErrors";
+import { createAnalytics } from "@/lib/analytics";
+import { createMemorySink } from "@/lib/analyticsSinks";
+
+export const TEST_OFFERING_ID = "default";
+
+export const TEST_APP_USER_ID = "test_user";
+
+// Subscription period and default price of each package type
+const PACKAGE_TYPE_DEFAULTS: Partial<
+  Record<PACKAGE_TYPE, { period: string | null; price: number }>
+> = {
+  [PACKAGE_TYPE.WEEKLY]: { period: "P1W", price: 2.99 },
+  [PACKAGE_TYPE.MONTHLY]: { period: "P1M", price: 9.99 },
+  [PACKAGE_TYPE.TWO_MONTH]: { period: "P2M", price: 17.99 },
+  [PACKAGE_TYPE.THREE_MONTH]: { period: "P3M", price: 24.99 },
+  [PACKAGE_TYPE.SIX_MONTH]: { period: "P6M", price: 44.99 },
+  [PACKAGE_TYPE.ANNUAL]: { period: "P1Y", price: 59.99 },
+  [PACKAGE_TYPE.LIFETIME]: { period: null, price: 149.99 },
+};
+
+// ============================================================================
+// Fixture builders
+// ============================================================================
+
+/**
+ * Build a store product
+ * Defaults to a $9.99 monthly subscription; priceString follows price unless given.
+ */
+export const buildStoreProduct = (
+  overrides: Partial<PurchasesStoreProduct> = {}
+): PurchasesStoreProduct => {
+  const price = overrides.price ?? 9.99;
+  const subscriptionPeriod =
+    overrides.subscriptionPeriod === undefined ? "P1M" : overrides.subscriptionPeriod;
+  const identifier = overrides.identifier ?? "test_product";
+  const isSubscription = subscriptionPeriod != null;
+
+  return {
+    description: `${identifier} description`,
+    title: identifier,
+    priceString: `$${price.toFixed(2)}`,
+    pricePerWeek: null,
+    pricePerMonth: null,
+    pricePerYear: null,
+    pricePerWeekString: null,
+    pricePerMonthString: null,
+    pricePerYearString: null,
+    currencyCode: "USD",
+    introPrice: null,
+    discounts: null,
+    productCategory: isSubscription
+      ? PRODUCT_CATEGORY.SUBSCRIPTION
+      : PRODUCT_CATEGORY.NON_SUBSCRIPTION,
+    productType: isSubscription
+      ? PRODUCT_TYPE.AUTO_RENEWABLE_SUBSCRIPTION
+      : PRODUCT_TYPE.NON_CONSUMABLE,
+    defaultOption: null,
+    subscriptionOptions: null,
+    presentedOfferingIdentifier: null,
+    presentedOfferingContext: null,
+    ...overrides,
+    identifier,
+    price,
+    subscriptionPeriod,
+  };
+};
+
+export interface PackageFixture {
+  /** Defaults to MONTHLY */
+  packageType?: PACKAGE_TYPE;
+  /** Defaults to the RevenueCat identifier of the package type ($rc_monthly, ...) */
+  identifier?: string;
+  /** Overrides for the product; the period and price follow the package type */
+  product?: Partial<PurchasesStoreProduct>;
+  offeringIdentifier?: string;
+}
+
+/**
+ * Build a package of a given type
+ * buildPackage({ packageType: PACKAGE_TYPE.ANNUAL }) is a $59.99 yearly plan
+ * with the product identifier "test_annual".
+ */
+export const buildPackage = ({
+  packageType = PACKAGE_TYPE.MONTHLY,
+  identifier = `$rc_${packageType.toLowerCase()}`,
+  product = {},
+  offeringIdentifier = TEST_OFFERING_ID,
+}: PackageFixture = {}): PurchasesPackage => {
+  const defaults = PACKAGE_TYPE_DEFAULTS[packageType];
+  const presentedOfferingContext = {
+    offeringIdentifier,
+    placementIdentifier: null,
+    targetingContext: null,
+  };
+
+  return {
+    identifier,
+    packageType,
+    product: buildStoreProduct({
+      identifier: `test_${packageType.toLowerCase()}`,
+      price: defaults?.price,
+      subscriptionPeriod: defaults ? defaults.period : "P1M",
+      presentedOfferingIdentifier: offeringIdentifier,
+      presentedOfferingContext,
+      ...product,
+    }),
+    offeringIdentifier,
+    presentedOfferingContext,
+    webCheckoutUrl: null,
+  };
+};
+
+export interface OfferingFixture {
+  identifier?: string;
+  /** Defaults to a monthly and an annual package */
+  packages?: PurchasesPackage[];
+  metadata?: PurchasesOffering["metadata"];
+}
+
+/**
+ * Build an offering
+ * Packages are re-stamped with the offering's identifier, and the
+ * weekly/monthly/annual/... shortcuts are filled from their package types.
+ */
+export const buildOffering = ({
+  identifier = TEST_OFFERING_ID,
+  packages,
+  metadata = {},
+}: OfferingFixture = {}): PurchasesOffering => {
+  const presentedOfferingContext = {
+    offeringIdentifier: identifier,
+    placementIdentifier: null,
+    targetingContext: null,
+  };
+  const availablePackages = (
+    packages ?? [
+      buildPackage({ packageType: PACKAGE_TYPE.MONTHLY }),
+      buildPackage({ packageType: PACKAGE_TYPE.ANNUAL }),
+    ]
+  ).map((pkg) => ({
+    ...pkg,
+    offeringIdentifier: identifier,
+    presentedOfferingContext,
+    product: {
+      ...pkg.product,
+      presentedOfferingIdentifier: identifier,
+      presentedOfferingContext,
+    },
+  }));
+  const byType = (packageType: PACKAGE_TYPE) =>
+    availablePackages.find((pkg) => pkg.packageType === packageType) ?? null;
+
+  return {
+    identifier,
+    serverDescription: `${identifier} offering`,
+    metadata,
+    availablePackages,
+    lifetime: byType(PACKAGE_TYPE.LIFETIME),
+    annual: byType(PACKAGE_TYPE.ANNUAL),
+    sixMonth: byType(PACKAGE_TYPE.SIX_MONTH),
+    threeMonth: byType(PACKAGE_TYPE.THREE_MONTH),
+    twoMonth: byType(PACKAGE_TYPE.TWO_MONTH),
+    monthly: byType(PACKAGE_TYPE.MONTHLY),
+    weekly: byType(PACKAGE_TYPE.WEEKLY),
+    webCheckoutUrl: null,
+  };
+};
+
+/**
+ * Build offerings from a current offering and any others
+ * buildOfferings(null) has no current offering.
+ */
+export const buildOfferings = (
+  current: PurchasesOffering | null = buildOffering(),
+  ...others: PurchasesOffering[]
+): PurchasesOfferings => ({
+  current,
+  all: Object.fromEntries(
+    [...(current ? [current] : []), ...others].map((offering) => [offering.identifier, offering])
+  ),
+});
+
+export interface EntitlementFixture extends Partial<FakeTransactionSeed> {
+  /** Defaults to REVENUECAT_CONFIG.ENTITLEMENT_ID */
+  identifier?: string;
+}
+
+export interface CustomerFixture {
+  appUserID?: string;
+  /**
+   * Entitlements by identifier, or with the purchase behind them. Each is
+   * unlocked by a monthly subscription ("test_monthly") bought now unless given
+   * another productIdentifier, subscriptionPeriod (null for lifetime) or dates.
+   */
+  entitlements?: (string | EntitlementFixture)[];
+  /** Store the purchases were made on. Defaults to TEST_STORE. */
+  store?: Store;
+}
+
+/**
+ * Describe a customer as the purchase history the fake store starts from
+ */
+const toFakeStoreHistory = ({
+  appUserID = TEST_APP_USER_ID,
+  entitlements = [],
+  store,
+}: CustomerFixture) => {
+  const entitlementsByProduct: Record<string, string[]> = {};
+  const transactions = entitlements.map((entitlement): FakeTransactionSeed => {
+    const {
+      identifier = REVENUECAT_CONFIG.ENTITLEMENT_ID,
+      productIdentifier = `test_${PACKAGE_TYPE.MONTHLY.toLowerCase()}`,
+      subscriptionPeriod = "P1M",
+      ...dates
+    } = typeof entitlement === "string" ? { identifier: entitlement } : entitlement;
+
+    entitlementsByProduct[productIdentifier] = [
+      ...(entitlementsByProduct[productIdentifier] ?? []),
+      identifier,
+    ];
+    return { productIdentifier, subscriptionPeriod, ...dates };
+  });
+
+  return { appUserID, store, transactions, entitlementsByProduct };
+};
+
+/**
+ * Build the customer info the fake store reports for a customer
+ * buildCustomerInfo() is a customer who hasn't bought anything.
+ */
+export const buildCustomerInfo = (
+  customer: CustomerFixture = {},
+  now: number = Date.now()
+): CustomerInfo => buildFakeCustomerInfo({ ...toFakeStoreHistory(customer), now: () => now });
+
+// ============================================================================
+// Scripted store
+// ============================================================================
+
+/**
+ * What the next purchase does
+ * - "success": the fake store completes it and grants the product's entitlements
+ * - "cancel": fails like a user closing the store sheet
+ * - { error }: fails with that SDK error code
+ */
+export type PurchaseOutcome =
+  | "success"
+  | "cancel"
+  | { error: PURCHASES_ERROR_CODE; message?: string };
+
+export interface TestPurchasesAdapterOptions
+  extends Omit<FakePurchasesAdapterOptions, "appUserID" | "store" | "transactions"> {
+  /** Customer before any purchase. Defaults to one who hasn't bought anything. */
+  customer?: CustomerFixture;
+  /** Defaults to buildOfferings() */
+  offerings?: PurchasesOfferings;
+  /** Outcomes of the next purchases, in order. Purchases succeed once they run out. */
+  purchaseOutcomes?: PurchaseOutcome[];
+}
+
+/**
+ * The fake store, with purchases that follow a script
+ */
+export interface TestPurchasesAdapter extends FakePurchasesAdapter {
+  /** Append outcomes for the next purchases */
+  queuePurchaseOutcomes: (...outcomes: PurchaseOutcome[]) => void;
+  /** Every package a purchase was attempted for, in order, whatever the outcome */
+  purchaseAttempts: PurchasesPackage[];
+}
+
+/**
+ * Create a fake store seeded with fixtures whose purchases follow scripted outcomes
+ */
+export function createTestPurchasesAdapter({
+  customer = {},
+  offerings = buildOfferings(),
+  purchaseOutcomes = [],
+  ...options
+}: TestPurchasesAdapterOptions = {}): TestPurchasesAdapter {
+  const history = toFakeStoreHistory(customer);
+  const store = createFakePurchasesAdapter({
+    ...options,
+    ...history,
+    offerings,
+    entitlementsByProduct: { ...history.entitlementsByProduct, ...options.entitlementsByProduct },
+  });
+  const outcomes = [...purchaseOutcomes];
+  const purchaseAttempts: PurchasesPackage[] = [];
+
+  /**
+   * Run the next scripted outcome before a purchase reaches the fake store
+   */
+  const scripted =
+    <Args extends [PurchasesPackage, ...unknown[]], Result>(
+      purchase: (...args: Args) => Promise<Result>
+    ) =>
+    async (...args: Args) => {
+      purchaseAttempts.push(args[0]);
+      const outcome = outcomes.shift() ?? "success";
+
+      if (outcome === "cancel") {
+        throw createSdkError(PURCHASES_ERROR_CODE.PURCHASE_CANCELLED_ERROR, "Purchase was cancelled");
+      }
+      if (outcome !== "success") {
+        throw createSdkError(outcome.error, outcome.message ?? `Purchase failed (${outcome.error})`);
+      }
+      return purchase(...args);
+    };
+
+  return {
+    ...store,
+    purchasePackage: scripted(store.purchasePackage),
+    purchaseDiscountedPackage: scripted(store.purchaseDiscountedPackage),
+    queuePurchaseOutcomes: (...nextOutcomes) => {
+      outcomes.push(...nextOutcomes);
+    },
+    purchaseAttempts,
+  };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+export interface RenderWithRevenueCatOptions extends TestPurchasesAdapterOptions {
+  /** Use this store instead of creating one from the other options (to share it between renders) */
+  adapter?: TestPurchasesAdapter;
+}
+
+type RevenueCatContextValue = ReturnType<typeof useRevenueCat>;
+
+/**
+ * Render a component inside a RevenueCatProvider backed by a scripted store
+ * Resolves once the provider has loaded customer info and offerings.
+ *
+ * @returns The testing-library queries, plus the store, the analytics events
+ * tracked so far and a getter for the latest provider context
+ */
+export async function renderWithRevenueCat(
+  ui: React.ReactElement,
+  { adapter, ...adapterOptions }: RenderWithRevenueCatOptions = {}
+) {
+  const store = adapter ?? createTestPurchasesAdapter(adapterOptions);
+  const events = createMemorySink();
+  const latestContext: { current: RevenueCatContextValue | null } = { current: null };
+
+  function ContextProbe() {
+    latestContext.current = useRevenueCat();
+    return null;
+  }
+
+  const rendered = render(
+    <RevenueCatProvider adapter={store} analytics={createAnalytics([events])}>
+      <ContextProbe />
+      {ui}
+    </RevenueCatProvider>
+  );
+
+  await waitFor(() => {
+    if (latestContext.current?.isLoading !== false) {
+      throw new Error("RevenueCatProvider is still loading");
+    }
+  });
+
+  return {
+    ...rendered,
+    adapter: store,
+    analyticsEvents: events.events,
+    getRevenueCat: () => latestContext.current!,
+  };
+}
+
+/**
+ * Render a hook inside a RevenueCatProvider backed by a scripted store
+ * result.current holds the hook's value from the latest render.
+ */
+export async function renderHookWithRevenueCat<Result>(
+  hook: () => Result,
+  options: RenderWithRevenueCatOptions = {}
+) {
+  const result = { current: undefined as Result };
+
+  function HookProbe() {
+    result.current = hook();
+    return null;
+  }
+
+  const rendered = await renderWithRevenueCat(<HookProbe />, options);
+  return { ...rendered, result };
+}
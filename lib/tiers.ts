@@ -0,0 +1,67 @@
+/**
+ * Entitlement Tiers
+ *
+ * Resolves a customer's tier from the ordered ENTITLEMENT_TIERS configuration
+ * in constants/RevenueCat.ts and compares tiers by level.
+ *
+ * Levels: "free" is 0, the first configured tier is 1, the next is 2, and so on.
+ */
+
+import { CustomerInfo } from "react-native-purchases";
+
+import {
+  ENTITLEMENT_TIERS,
+  EntitlementTierConfig,
+  FREE_TIER,
+  REVENUECAT_CONFIG,
+  TierId,
+} from "@/constants/RevenueCat";
+
+const tiers: readonly EntitlementTierConfig[] = ENTITLEMENT_TIERS;
+
+/**
+ * Get the level of a tier (0 for free, higher is better)
+ * Unknown tier identifiers are treated as free
+ */
+export const getTierLevel = (tier: TierId): number => {
+  const index = tiers.findIndex((config) => config.id === tier);
+  return index + 1;
+};
+
+/**
+ * Get the display name of a tier
+ */
+export const getTierName = (tier: TierId): string => {
+  if (tier === FREE_TIER) return "Free";
+  return tiers.find((config) => config.id === tier)?.name ?? tier;
+};
+
+/**
+ * Resolve the highest tier unlocked by the customer's active entitlements
+ * Pass an environment's entitlement to have it stand in for ENTITLEMENT_ID.
+ */
+export const resolveTier = (
+  customerInfo: CustomerInfo | null,
+  defaultEntitlementId: string = REVENUECAT_CONFIG.ENTITLEMENT_ID
+): TierId => {
+  const active = customerInfo?.entitlements?.active;
+  if (!active) return FREE_TIER;
+
+  const isActive = (entitlementId: string) =>
+    active[entitlementId === REVENUECAT_CONFIG.ENTITLEMENT_ID ? defaultEntitlementId : entitlementId] != null;
+
+  for (let index = tiers.length - 1; index >= 0; index--) {
+    const config = tiers[index];
+    if (config.entitlementIds.some(isActive)) {
+      return config.id as TierId;
+    }
+  }
+
+  return FREE_TIER;
+};
+
+/**
+ * Check whether a tier is the same as or above a required tier
+ */
+export const isTierAtLeast = (tier: TierId, requiredTier: TierId): boolean =>
+  getTierLevel(tier) >= getTierLevel(requiredTier);
@@ -0,0 +1,243 @@
+/**
+ * Arabic messages (right-to-left)
+ *
+ * Arabic has six plural forms, which Intl.PluralRules selects for us.
+ */
+
+import type { Messages } from "@/lib/i18n";
+
+export const ar: Messages = {
+  "common.ok": "حسنًا",
+
+  // Subscription periods
+  "period.day": "{count, plural, zero {# يوم} one {يوم واحد} two {يومان} few {# أيام} many {# يومًا} other {# يوم}}",
+  "period.week": "{count, plural, zero {# أسبوع} one {أسبوع واحد} two {أسبوعان} few {# أسابيع} many {# أسبوعًا} other {# أسبوع}}",
+  "period.month": "{count, plural, zero {# شهر} one {شهر واحد} two {شهران} few {# أشهر} many {# شهرًا} other {# شهر}}",
+  "period.year": "{count, plural, zero {# سنة} one {سنة واحدة} two {سنتان} few {# سنوات} many {# سنة} other {# سنة}}",
+
+  // Prices and trials
+  "price.unavailable": "السعر غير متاح",
+  "price.freeTrialThen": "تجربة مجانية، ثم {price}",
+  "price.freeForThen": "{duration} مجانًا، ثم {price}",
+  "price.introForThen": "{introPrice} لمدة {duration}، ثم {price}",
+  "price.introThen": "{introPrice} سعر تمهيدي، ثم {price}",
+  "price.discountForThen": "لمدة {duration}، ثم {price}",
+  "price.discountThen": "لفترة محدودة، ثم {price}",
+  "trial.free": "{duration} مجانًا",
+  "trial.freePeriods": "{count, plural, one {فترة واحدة مجانًا} two {فترتان مجانًا} few {# فترات مجانًا} other {# فترة مجانًا}}",
+  "trial.generic": "تجربة مجانية",
+
+  // Packages
+  "package.fallbackTitle": "باقة {type}",
+  "button.startFree": "ابدأ مجانًا",
+  "button.subscribe": "اشترك الآن",
+  "button.purchase": "شراء",
+  "button.claimOffer": "احصل على العرض",
+
+  // Purchase flow alerts
+  "purchase.demoSuccess.title": "🎮 اكتمل الشراء التجريبي",
+  "purchase.demoSuccess.message": "كانت هذه عملية شراء محاكاة. لم تتم معالجة أي دفعة.",
+  "purchase.success.title": "🎉 تم الشراء بنجاح!",
+  "purchase.success.message": "شكرًا لشرائك. يمكنك الآن الوصول إلى الميزات المميزة!",
+  "restore.demoSuccess.title": "🎮 اكتملت الاستعادة التجريبية",
+  "restore.demoSuccess.message": "تمت استعادة اشتراك محاكى. لم يتم الاتصال بأي متجر.",
+  "restore.success.title": "✅ تمت الاستعادة بنجاح",
+  "restore.success.message": "تمت استعادة مشترياتك بنجاح.",
+  "restore.failed.title": "فشلت الاستعادة",
+  "restore.failed.message": "تعذرت استعادة المشتريات. حاول مرة أخرى أو تواصل مع الدعم إذا استمرت المشكلة.",
+  "login.failed.title": "فشل تسجيل الدخول",
+  "login.failed.message": "تعذر تسجيل الدخول. تحقق من معرّف المستخدم وحاول مرة أخرى.",
+  "login.emptyUserId": "يرجى إدخال معرّف المستخدم.",
+  "logout.failed.title": "فشل تسجيل الخروج",
+  "logout.failed.message": "تعذر تسجيل الخروج. حاول مرة أخرى.",
+
+  // Offer codes
+  "offerCode.invalid": "يرجى إدخال رمز عرض صالح.",
+  "offerCode.success.title": "🎉 تم استرداد الرمز",
+  "offerCode.success.message": "عرضك مفعّل الآن. استمتع بالميزات المميزة!",
+  "offerCode.failed.title": "لم يتم قبول الرمز",
+  "offerCode.failed.message": "هذا الرمز غير صالح أو تم استخدامه من قبل.",
+  "redeem.title": "استرداد رمز العرض",
+  "redeem.message": "أدخل الرمز الذي تلقيته لفتح عرضك.",
+  "redeem.placeholder": "رمز العرض",
+  "redeem.submit": "استرداد",
+  "redeem.playStore": "ستؤكد الرمز في Google Play.",
+  "redeem.openedStore": "أكمل الاسترداد في Google Play. سيتم فتح الميزات المميزة فور قبول رمزك.",
+  "redeem.sheet": "يتم استرداد رموز العروض في App Store.",
+  "redeem.openSheet": "فتح App Store",
+  "redeem.unsupported": "لا يمكن استرداد رموز العروض هنا. استخدم رابط الاسترداد الذي تلقيته بدلاً من ذلك.",
+  "redeem.demoHint": "وضع العرض التوضيحي: جرّب الرمز {code}.",
+  "redeem.close": "إغلاق",
+
+  // Subscription management
+  "manage.title": "إدارة الاشتراك",
+  "manage.survey.title": "قبل أن تغادر",
+  "manage.survey.message": "لماذا تفكر في المغادرة؟ تساعدنا إجابتك على التحسين.",
+  "manage.survey.continue": "متابعة",
+  "manage.survey.skip": "تخطٍّ",
+  "manage.retention.title": "🎁 عرض خاص لك",
+  "manage.retention.message": "ابقَ معنا واحصل على اشتراكك بسعر مخفّض.",
+  "manage.retention.accept": "عرض العرض",
+  "manage.retention.decline": "لا شكرًا، إدارة الاشتراك",
+  "manage.method.managementURL": "ستغيّر اشتراكك أو تلغيه من المكان الذي اشتريته منه.",
+  "manage.method.storePage": "ستغيّر اشتراكك أو تلغيه من حسابك في المتجر.",
+  "manage.method.simulated": "الوضع التجريبي: الإلغاء يوقف التجديد التلقائي في المتجر التجريبي.",
+  "manage.open": "إدارة الاشتراك",
+  "manage.openedStore": "أكمل في المتجر. سيتم تحديث حسابك بمجرد عودتك.",
+  "manage.unavailable": "لا يمكن إدارة الاشتراكات هنا. قم بإدارته من الجهاز أو الموقع الذي اشتركت منه.",
+  "manage.close": "إغلاق",
+  "manage.demoCancelled.title": "🎮 تم إلغاء الاشتراك التجريبي",
+  "manage.demoCancelled.message": "تم إيقاف التجديد التلقائي. يظل الاشتراك المميز نشطًا حتى نهاية الفترة الحالية.",
+  "manage.failed.title": "تعذّر فتح إعدادات الاشتراك",
+  "manage.failed.message": "لا يمكن إدارة الاشتراكات من هذا الجهاز. قم بإدارته من المكان الذي اشتركت منه.",
+
+  // Subscription details (see lib/subscriptionLifecycle.ts)
+  "subscription.title": "اشتراكك",
+  "subscription.state.billingIssue": "مشكلة في الدفع",
+  "subscription.state.cancelled": "ملغى",
+  "subscription.state.trial": "تجربة مجانية",
+  "subscription.state.intro": "سعر تمهيدي",
+  "subscription.state.active": "نشط",
+  "subscription.state.lifetime": "مدى الحياة",
+  "subscription.state.expired": "منتهي",
+  "subscription.notice.billingIssue": "تعذّر تحصيل المبلغ من وسيلة الدفع. حدّثها في حسابك بالمتجر للاحتفاظ بالاشتراك المميز.",
+  "subscription.notice.cancelled": "لن يتجدد اشتراكك. يظل الاشتراك المميز نشطًا حتى {date}.",
+  "subscription.row.entitlement": "الاستحقاق",
+  "subscription.row.product": "المنتج",
+  "subscription.row.store": "المتجر",
+  "subscription.row.renews": "يتجدد في",
+  "subscription.row.expires": "ينتهي في",
+  "subscription.row.expired": "انتهى في",
+  "subscription.row.autoRenew": "التجديد التلقائي",
+  "subscription.row.period": "الفترة",
+  "subscription.row.billingIssue": "مشكلة في الدفع منذ",
+  "subscription.row.unsubscribed": "أُلغي في",
+  "subscription.row.since": "عميل منذ",
+  "subscription.row.ownership": "الوصول",
+  "subscription.row.environment": "البيئة",
+  "subscription.never": "أبدًا",
+  "subscription.autoRenew.on": "مفعّل",
+  "subscription.autoRenew.off": "متوقف",
+  "subscription.period.NORMAL": "عادية",
+  "subscription.period.TRIAL": "تجربة مجانية",
+  "subscription.period.INTRO": "سعر تمهيدي",
+  "subscription.period.PREPAID": "مدفوعة مسبقًا",
+  "subscription.ownership.PURCHASED": "تم الشراء",
+  "subscription.ownership.FAMILY_SHARED": "المشاركة العائلية",
+  "subscription.ownership.UNKNOWN": "غير معروف",
+  "subscription.environment.sandbox": "بيئة الاختبار (شراء تجريبي)",
+  "subscription.environment.production": "الإنتاج",
+  "subscription.store.APP_STORE": "App Store",
+  "subscription.store.MAC_APP_STORE": "Mac App Store",
+  "subscription.store.PLAY_STORE": "Google Play",
+  "subscription.store.AMAZON": "Amazon Appstore",
+  "subscription.store.GALAXY": "Galaxy Store",
+  "subscription.store.STRIPE": "Stripe",
+  "subscription.store.PADDLE": "Paddle",
+  "subscription.store.RC_BILLING": "الدفع عبر الويب",
+  "subscription.store.PROMOTIONAL": "ترويجي",
+  "subscription.store.EXTERNAL": "شراء خارجي",
+  "subscription.store.TEST_STORE": "متجر الاختبار",
+  "subscription.store.UNKNOWN_STORE": "متجر غير معروف",
+
+  // Credits (see lib/credits.ts)
+  "credits.count": "{count, plural, zero {# نقطة} one {نقطة واحدة} two {نقطتان} few {# نقاط} many {# نقطة} other {# نقطة}}",
+  "credits.title": "النقاط",
+  "credits.empty": "لا توجد نقاط بعد. تُباع حزم النقاط في صفحة الاشتراك.",
+  "credits.entry.purchase": "حزمة نقاط",
+  "credits.entry.spend": "مُستخدمة",
+  "credits.spend": "{count, plural, zero {استخدام # نقطة} one {استخدام نقطة واحدة} two {استخدام نقطتين} few {استخدام # نقاط} many {استخدام # نقطة} other {استخدام # نقطة}}",
+  "credits.buy": "شراء نقاط",
+  "credits.purchased.title": "تمت إضافة النقاط",
+  "credits.purchased.message":
+    "{credits, plural, zero {لم تُضف أي نقاط} one {أُضيفت نقطة واحدة} two {أُضيفت نقطتان} few {أُضيفت # نقاط} many {أُضيفت # نقطة} other {أُضيفت # نقطة}} إلى رصيدك.",
+  "credits.insufficient.title": "النقاط غير كافية",
+  "credits.insufficient.message": "اشترِ حزمة نقاط لإعادة شحن رصيدك.",
+  "paywall.credits.title": "حزم النقاط",
+  "paywall.credits.balance": "رصيدك: {credits}",
+
+  // Plan changes (see lib/planChanges.ts)
+  "changePlan.title": "تغيير الخطة",
+  "changePlan.currentPlan": "الخطة الحالية",
+  "changePlan.renews": "تتجدد في {date}",
+  "changePlan.ends": "تنتهي في {date}",
+  "changePlan.choose": "اختر خطة جديدة",
+  "changePlan.type.upgrade": "ترقية",
+  "changePlan.type.downgrade": "تخفيض",
+  "changePlan.type.crossgrade": "تبديل",
+  "changePlan.effective.immediate": "تبدأ اليوم",
+  "changePlan.effective.nextRenewal": "تبدأ في {date}",
+  "changePlan.summary.immediate": "ستنتقل إلى {plan} فورًا.",
+  "changePlan.summary.nextRenewal": "ستحتفظ بخطتك الحالية حتى {date}، ثم تنتقل إلى {plan}.",
+  "changePlan.confirm": "تغيير الخطة",
+  "changePlan.close": "إغلاق",
+  "changePlan.success.title": "تم تغيير الخطة",
+  "changePlan.success.immediate": "أنت الآن على {plan}.",
+  "changePlan.success.nextRenewal": "تبدأ {plan} في {date}. ستحتفظ بخطتك الحالية حتى ذلك الحين.",
+  "changePlan.failed.title": "تعذر تغيير الخطة",
+  "changePlan.unavailable.noSubscription": "ليس لديك اشتراك نشط لتغييره.",
+  "changePlan.unavailable.samePlan": "هذه خطتك بالفعل.",
+  "changePlan.unavailable.notSubscription": "يمكن لخطط الاشتراك فقط أن تحل محل اشتراكك.",
+  "changePlan.unavailable.otherStore": "تم شراء اشتراكك من متجر أو جهاز آخر. غيّره هناك.",
+  "changePlan.unavailable.differentGroup": "لا يمكن لهذه الخطة أن تحل محل اشتراكك الحالي.",
+
+  // Purchase errors (see lib/purchaseErrors.ts)
+  "purchaseError.cancelled.title": "تم إلغاء الشراء",
+  "purchaseError.cancelled.message": "تم إلغاء عملية الشراء. لم يتم خصم أي مبلغ.",
+  "purchaseError.network.title": "مشكلة في الاتصال",
+  "purchaseError.network.message": "يرجى التحقق من اتصالك بالإنترنت والمحاولة مرة أخرى.",
+  "purchaseError.storeProblem.title": "المتجر غير متاح",
+  "purchaseError.storeProblem.message": "تعذر على المتجر إكمال الطلب. حاول مرة أخرى بعد قليل.",
+  "purchaseError.notAllowed.title": "الشراء غير مسموح",
+  "purchaseError.notAllowed.message": "الشراء غير مسموح لهذا الحساب أو الجهاز. تحقق من إعدادات الدفع والقيود.",
+  "purchaseError.alreadyOwned.title": "تم الشراء مسبقًا",
+  "purchaseError.alreadyOwned.message": "أنت تملك هذا بالفعل. استخدم استعادة المشتريات لاستعادة الوصول.",
+  "purchaseError.pending.title": "الدفع قيد المعالجة",
+  "purchaseError.pending.message": "تتم معالجة دفعتك. ستُفعَّل الميزات المميزة فور الموافقة عليها.",
+  "purchaseError.configuration.title": "خطأ في الإعداد",
+  "purchaseError.configuration.message":
+    "لم يتم إعداد RevenueCat بشكل صحيح. يرجى التحقق من مفاتيح API في constants/RevenueCat.ts",
+  "purchaseError.unknown.title": "حدث خطأ ما",
+  "purchaseError.unknown.message": "يرجى المحاولة لاحقًا.",
+
+  // Paywall
+  "paywall.headerTitle": "✨ مميز",
+  "paywall.title": "الترقية إلى الاشتراك المميز",
+  "paywall.loading": "جارٍ تحميل الخيارات المميزة...",
+  "paywall.error.configTitle": "الإعداد مطلوب",
+  "paywall.error.configMessage": "يرجى إعداد مفاتيح API الخاصة بـ RevenueCat في constants/RevenueCat.ts",
+  "paywall.error.title": "حدث خطأ ما",
+  "paywall.error.fallbackMessage": "حدثت مشكلة أثناء معالجة طلبك. يرجى المحاولة لاحقًا.",
+  "paywall.goBack": "رجوع",
+  "paywall.noPackages.title": "⚠️ لا توجد خيارات مميزة متاحة",
+  "paywall.noPackages.message": "يرجى إعداد المنتجات والعروض في لوحة تحكم RevenueCat.",
+  "paywall.features.title": "الميزات المميزة",
+  "paywall.features.advanced": "وظائف وأدوات متقدمة",
+  "paywall.features.support": "دعم وتحديثات ذات أولوية",
+  "paywall.features.platforms": "يعمل على جميع المنصات",
+  "paywall.features.sync": "مزامنة عبر جميع أجهزتك",
+  "paywall.choosePlan": "اختر خطتك",
+  "paywall.badge.weekly": "⚡ جرّبه",
+  "paywall.badge.monthly": "📱 الأكثر شيوعًا",
+  "paywall.badge.bestValue": "🎯 أفضل قيمة",
+  "paywall.badge.lifetime": "💎 مميز",
+  "paywall.badge.specialOffer": "🏷️ عرض خاص",
+  "paywall.savings": "وفّر {percent}٪",
+  "paywall.perMonth": "{price} شهريًا",
+  "paywall.description.weekly": "مثالي لتجربة الميزات المميزة",
+  "paywall.description.monthly": "رائع للمستخدمين الدائمين",
+  "paywall.description.annual": "أفضل قيمة للمستخدمين الملتزمين",
+  "paywall.description.lifetime": "دفعة واحدة ووصول مدى الحياة",
+  "paywall.description.default": "الوصول إلى الاشتراك المميز",
+  "paywall.demo.title": "🎮 الوضع التجريبي",
+  "paywall.demo.message": "هذا كتالوج تجريبي. عمليات الشراء محاكاة ولا تتم معالجة أي دفعة.",
+  "paywall.webBilling.title": "💳 الدفع عبر الويب",
+  "paywall.webBilling.message": "مدفوعات آمنة من خلال RevenueCat.",
+  "paywall.processing": "جارٍ المعالجة...",
+  "paywall.terms": "تتجدد الاشتراكات تلقائيًا ما لم يتم إلغاؤها. يمكنك إدارة اشتراكك من إعدادات حسابك.",
+  "paywall.terms.ios": "تتم إدارة الاشتراكات من خلال Apple ID الخاص بك.",
+  "paywall.terms.android": "تتم إدارة الاشتراكات من خلال Google Play.",
+  "paywall.terms.web": "تتم إدارة الاشتراكات من خلال نظام الدفع عبر الويب الخاص بنا.",
+  "paywall.later": "ربما لاحقًا",
+  "paywall.redeemCode": "هل لديك رمز عرض؟",
+};
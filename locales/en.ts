@@ -0,0 +1,248 @@
+/**
+ * English messages (default locale)
+ *
+ * Every other catalog must provide the same keys. See lib/i18n.ts for the
+ * message syntax.
+ */
+
+export const en = {
+  "common.ok": "OK",
+
+  // Subscription periods
+  "period.day": "{count, plural, one {# day} other {# days}}",
+  "period.week": "{count, plural, one {# week} other {# weeks}}",
+  "period.month": "{count, plural, one {# month} other {# months}}",
+  "period.year": "{count, plural, one {# year} other {# years}}",
+
+  // Prices and trials
+  "price.unavailable": "Price unavailable",
+  "price.freeTrialThen": "Free trial, then {price}",
+  "price.freeForThen": "{duration} free, then {price}",
+  "price.introForThen": "{introPrice} for {duration}, then {price}",
+  "price.introThen": "{introPrice} intro, then {price}",
+  "price.discountForThen": "for {duration}, then {price}",
+  "price.discountThen": "for a limited time, then {price}",
+  "trial.free": "{duration} free",
+  "trial.freePeriods": "{count, plural, one {# period free} other {# periods free}}",
+  "trial.generic": "Free trial",
+
+  // Packages
+  "package.fallbackTitle": "{type} Package",
+  "button.startFree": "Start for free",
+  "button.subscribe": "Subscribe now",
+  "button.purchase": "Purchase",
+  "button.claimOffer": "Claim offer",
+
+  // Purchase flow alerts
+  "purchase.demoSuccess.title": "🎮 Demo Purchase Complete",
+  "purchase.demoSuccess.message": "This was a simulated purchase. No payment was processed.",
+  "purchase.success.title": "🎉 Purchase Successful!",
+  "purchase.success.message": "Thank you for your purchase. You now have access to premium features!",
+  "restore.demoSuccess.title": "🎮 Demo Restore Complete",
+  "restore.demoSuccess.message": "A simulated subscription was restored. No store was contacted.",
+  "restore.success.title": "✅ Restore Successful",
+  "restore.success.message": "Your purchases have been restored successfully.",
+  "restore.failed.title": "Restore Failed",
+  "restore.failed.message":
+    "Unable to restore purchases. Please try again or contact support if the issue persists.",
+  "login.failed.title": "Login Failed",
+  "login.failed.message": "Unable to log in. Please check the user ID and try again.",
+  "login.emptyUserId": "Please enter a user ID.",
+  "logout.failed.title": "Logout Failed",
+  "logout.failed.message": "Unable to log out. Please try again.",
+
+  // Offer codes
+  "offerCode.invalid": "Please enter a valid offer code.",
+  "offerCode.success.title": "🎉 Code Redeemed",
+  "offerCode.success.message": "Your offer is active. Enjoy your premium features!",
+  "offerCode.failed.title": "Code Not Accepted",
+  "offerCode.failed.message": "This code isn't valid or has already been used.",
+  "redeem.title": "Redeem Offer Code",
+  "redeem.message": "Enter the code you received to unlock your offer.",
+  "redeem.placeholder": "Offer code",
+  "redeem.submit": "Redeem",
+  "redeem.playStore": "You'll confirm the code in Google Play.",
+  "redeem.openedStore": "Finish redeeming in Google Play. Premium unlocks as soon as your code is accepted.",
+  "redeem.sheet": "Offer codes are redeemed in the App Store.",
+  "redeem.openSheet": "Open App Store",
+  "redeem.unsupported": "Offer codes can't be redeemed here. Use the redemption link you received instead.",
+  "redeem.demoHint": "Demo mode: try the code {code}.",
+  "redeem.close": "Close",
+
+  // Subscription management
+  "manage.title": "Manage Subscription",
+  "manage.survey.title": "Before you go",
+  "manage.survey.message": "Why are you thinking about leaving? Your answer helps us improve.",
+  "manage.survey.continue": "Continue",
+  "manage.survey.skip": "Skip",
+  "manage.retention.title": "🎁 A special offer for you",
+  "manage.retention.message": "Stay with us and get your subscription at a reduced price.",
+  "manage.retention.accept": "See offer",
+  "manage.retention.decline": "No thanks, manage subscription",
+  "manage.method.managementURL": "You'll change or cancel your subscription where you bought it.",
+  "manage.method.storePage": "You'll change or cancel your subscription in your store account.",
+  "manage.method.simulated": "Demo mode: cancelling turns off auto-renew in the demo store.",
+  "manage.open": "Manage subscription",
+  "manage.openedStore": "Finish in the store. Your account updates as soon as you come back.",
+  "manage.unavailable": "Subscriptions can't be managed here. Manage it on the device or website you subscribed on.",
+  "manage.close": "Close",
+  "manage.demoCancelled.title": "🎮 Demo Subscription Cancelled",
+  "manage.demoCancelled.message": "Auto-renew is off. Premium stays active until the end of the current period.",
+  "manage.failed.title": "Unable to Open Subscription Settings",
+  "manage.failed.message": "Subscriptions can't be managed from this device. Manage it where you subscribed.",
+
+  // Subscription details (see lib/subscriptionLifecycle.ts)
+  "subscription.title": "Your Subscription",
+  "subscription.state.billingIssue": "Billing issue",
+  "subscription.state.cancelled": "Cancelled",
+  "subscription.state.trial": "Free trial",
+  "subscription.state.intro": "Intro price",
+  "subscription.state.active": "Active",
+  "subscription.state.lifetime": "Lifetime",
+  "subscription.state.expired": "Expired",
+  "subscription.notice.billingIssue": "We couldn't charge your payment method. Update it in your store account to keep premium.",
+  "subscription.notice.cancelled": "Your subscription won't renew. Premium stays active until {date}.",
+  "subscription.row.entitlement": "Entitlement",
+  "subscription.row.product": "Product",
+  "subscription.row.store": "Store",
+  "subscription.row.renews": "Renews on",
+  "subscription.row.expires": "Expires on",
+  "subscription.row.expired": "Expired on",
+  "subscription.row.autoRenew": "Auto-renew",
+  "subscription.row.period": "Period",
+  "subscription.row.billingIssue": "Billing issue since",
+  "subscription.row.unsubscribed": "Cancelled on",
+  "subscription.row.since": "Customer since",
+  "subscription.row.ownership": "Access",
+  "subscription.row.environment": "Environment",
+  "subscription.never": "Never",
+  "subscription.autoRenew.on": "On",
+  "subscription.autoRenew.off": "Off",
+  "subscription.period.NORMAL": "Regular",
+  "subscription.period.TRIAL": "Free trial",
+  "subscription.period.INTRO": "Intro price",
+  "subscription.period.PREPAID": "Prepaid",
+  "subscription.ownership.PURCHASED": "Purchased",
+  "subscription.ownership.FAMILY_SHARED": "Family Sharing",
+  "subscription.ownership.UNKNOWN": "Unknown",
+  "subscription.environment.sandbox": "Sandbox (test purchase)",
+  "subscription.environment.production": "Production",
+  "subscription.store.APP_STORE": "App Store",
+  "subscription.store.MAC_APP_STORE": "Mac App Store",
+  "subscription.store.PLAY_STORE": "Google Play",
+  "subscription.store.AMAZON": "Amazon Appstore",
+  "subscription.store.GALAXY": "Galaxy Store",
+  "subscription.store.STRIPE": "Stripe",
+  "subscription.store.PADDLE": "Paddle",
+  "subscription.store.RC_BILLING": "Web Billing",
+  "subscription.store.PROMOTIONAL": "Promotional",
+  "subscription.store.EXTERNAL": "External purchase",
+  "subscription.store.TEST_STORE": "Test Store",
+  "subscription.store.UNKNOWN_STORE": "Unknown store",
+
+  // Credits (see lib/credits.ts)
+  "credits.count": "{count, plural, one {# credit} other {# credits}}",
+  "credits.title": "Credits",
+  "credits.empty": "No credits yet. Credit packs are sold on the paywall.",
+  "credits.entry.purchase": "Credit pack",
+  "credits.entry.spend": "Spent",
+  "credits.spend": "{count, plural, one {Use # credit} other {Use # credits}}",
+  "credits.buy": "Buy Credits",
+  "credits.purchased.title": "Credits Added",
+  "credits.purchased.message":
+    "{credits, plural, one {# credit was} other {# credits were}} added to your balance.",
+  "credits.insufficient.title": "Not Enough Credits",
+  "credits.insufficient.message": "Buy a credit pack to top up your balance.",
+  "paywall.credits.title": "Credit Packs",
+  "paywall.credits.balance": "Your balance: {credits}",
+
+  // Plan changes (see lib/planChanges.ts)
+  "changePlan.title": "Change Plan",
+  "changePlan.currentPlan": "Current plan",
+  "changePlan.renews": "Renews on {date}",
+  "changePlan.ends": "Ends on {date}",
+  "changePlan.choose": "Choose a new plan",
+  "changePlan.type.upgrade": "Upgrade",
+  "changePlan.type.downgrade": "Downgrade",
+  "changePlan.type.crossgrade": "Switch",
+  "changePlan.effective.immediate": "Starts today",
+  "changePlan.effective.nextRenewal": "Starts on {date}",
+  "changePlan.summary.immediate": "You'll switch to {plan} right away.",
+  "changePlan.summary.nextRenewal": "You'll keep your current plan until {date}, then switch to {plan}.",
+  "changePlan.confirm": "Switch Plan",
+  "changePlan.close": "Close",
+  "changePlan.success.title": "Plan Changed",
+  "changePlan.success.immediate": "You're now on {plan}.",
+  "changePlan.success.nextRenewal": "{plan} starts on {date}. You keep your current plan until then.",
+  "changePlan.failed.title": "Can't Change Plan",
+  "changePlan.unavailable.noSubscription": "You don't have an active subscription to change.",
+  "changePlan.unavailable.samePlan": "This is already your plan.",
+  "changePlan.unavailable.notSubscription": "Only subscription plans can replace your subscription.",
+  "changePlan.unavailable.otherStore":
+    "Your subscription was bought on another store or device. Change it there.",
+  "changePlan.unavailable.differentGroup": "This plan can't replace your current subscription.",
+
+  // Purchase errors (see lib/purchaseErrors.ts)
+  "purchaseError.cancelled.title": "Purchase Cancelled",
+  "purchaseError.cancelled.message": "The purchase was cancelled. You have not been charged.",
+  "purchaseError.network.title": "Connection Problem",
+  "purchaseError.network.message": "Please check your internet connection and try again.",
+  "purchaseError.storeProblem.title": "Store Unavailable",
+  "purchaseError.storeProblem.message":
+    "The app store could not complete the request. Please try again in a moment.",
+  "purchaseError.notAllowed.title": "Purchase Not Allowed",
+  "purchaseError.notAllowed.message":
+    "Purchases are not allowed for this account or device. Check your payment settings and restrictions.",
+  "purchaseError.alreadyOwned.title": "Already Purchased",
+  "purchaseError.alreadyOwned.message": "You already own this. Use Restore Purchases to regain access.",
+  "purchaseError.pending.title": "Payment Pending",
+  "purchaseError.pending.message":
+    "Your payment is being processed. Premium features unlock as soon as it is approved.",
+  "purchaseError.configuration.title": "Configuration Error",
+  "purchaseError.configuration.message":
+    "RevenueCat is not properly configured. Please check your API keys in constants/RevenueCat.ts",
+  "purchaseError.unknown.title": "Something Went Wrong",
+  "purchaseError.unknown.message": "Please try again later.",
+
+  // Paywall
+  "paywall.headerTitle": "✨ Premium",
+  "paywall.title": "Upgrade to Premium",
+  "paywall.loading": "Loading premium options...",
+  "paywall.error.configTitle": "Configuration Required",
+  "paywall.error.configMessage": "Please configure your RevenueCat API keys in constants/RevenueCat.ts",
+  "paywall.error.title": "Something went wrong",
+  "paywall.error.fallbackMessage": "There was an issue processing your request. Please try again later.",
+  "paywall.goBack": "Go Back",
+  "paywall.noPackages.title": "⚠️ No premium options available",
+  "paywall.noPackages.message": "Please configure your products and offerings in the RevenueCat dashboard.",
+  "paywall.features.title": "Premium Features",
+  "paywall.features.advanced": "Advanced functionality and tools",
+  "paywall.features.support": "Priority support and updates",
+  "paywall.features.platforms": "Works across all platforms",
+  "paywall.features.sync": "Sync across all your devices",
+  "paywall.choosePlan": "Choose Your Plan",
+  "paywall.badge.weekly": "⚡ Try It",
+  "paywall.badge.monthly": "📱 Popular",
+  "paywall.badge.bestValue": "🎯 Best Value",
+  "paywall.badge.lifetime": "💎 Premium",
+  "paywall.badge.specialOffer": "🏷️ Special Offer",
+  "paywall.savings": "Save {percent}%",
+  "paywall.perMonth": "{price}/month",
+  "paywall.description.weekly": "Perfect for trying premium features",
+  "paywall.description.monthly": "Great for regular users",
+  "paywall.description.annual": "Best value for committed users",
+  "paywall.description.lifetime": "One-time purchase, lifetime access",
+  "paywall.description.default": "Premium subscription access",
+  "paywall.demo.title": "🎮 Demo Mode",
+  "paywall.demo.message": "This is a sample catalog. Purchases are simulated and no payment is processed.",
+  "paywall.webBilling.title": "💳 Web Billing",
+  "paywall.webBilling.message": "Secure payments powered by RevenueCat.",
+  "paywall.processing": "Processing...",
+  "paywall.terms":
+    "Subscriptions automatically renew unless cancelled. You can manage your subscription in your account settings.",
+  "paywall.terms.ios": "Subscriptions are managed through your Apple ID.",
+  "paywall.terms.android": "Subscriptions are managed through Google Play.",
+  "paywall.terms.web": "Subscriptions are managed through our web billing system.",
+  "paywall.later": "Maybe Later",
+  "paywall.redeemCode": "Have an offer code?",
+};
@@ -0,0 +1,247 @@
+/**
+ * Spanish messages
+ */
+
+import type { Messages } from "@/lib/i18n";
+
+export const es: Messages = {
+  "common.ok": "Aceptar",
+
+  // Subscription periods
+  "period.day": "{count, plural, one {# día} other {# días}}",
+  "period.week": "{count, plural, one {# semana} other {# semanas}}",
+  "period.month": "{count, plural, one {# mes} other {# meses}}",
+  "period.year": "{count, plural, one {# año} other {# años}}",
+
+  // Prices and trials
+  "price.unavailable": "Precio no disponible",
+  "price.freeTrialThen": "Prueba gratis, después {price}",
+  "price.freeForThen": "{duration} gratis, después {price}",
+  "price.introForThen": "{introPrice} durante {duration}, después {price}",
+  "price.introThen": "{introPrice} de introducción, después {price}",
+  "price.discountForThen": "durante {duration}, después {price}",
+  "price.discountThen": "por tiempo limitado, después {price}",
+  "trial.free": "{duration} gratis",
+  "trial.freePeriods": "{count, plural, one {# periodo gratis} other {# periodos gratis}}",
+  "trial.generic": "Prueba gratis",
+
+  // Packages
+  "package.fallbackTitle": "Paquete {type}",
+  "button.startFree": "Empieza gratis",
+  "button.subscribe": "Suscríbete ahora",
+  "button.purchase": "Comprar",
+  "button.claimOffer": "Aprovechar la oferta",
+
+  // Purchase flow alerts
+  "purchase.demoSuccess.title": "🎮 Compra de demostración completada",
+  "purchase.demoSuccess.message": "Esta compra fue simulada. No se procesó ningún pago.",
+  "purchase.success.title": "🎉 ¡Compra realizada!",
+  "purchase.success.message": "Gracias por tu compra. ¡Ya tienes acceso a las funciones premium!",
+  "restore.demoSuccess.title": "🎮 Restauración de demostración completada",
+  "restore.demoSuccess.message": "Se restauró una suscripción simulada. No se contactó con ninguna tienda.",
+  "restore.success.title": "✅ Restauración completada",
+  "restore.success.message": "Tus compras se han restaurado correctamente.",
+  "restore.failed.title": "Error al restaurar",
+  "restore.failed.message":
+    "No se pudieron restaurar las compras. Inténtalo de nuevo o contacta con soporte si el problema continúa.",
+  "login.failed.title": "Error al iniciar sesión",
+  "login.failed.message": "No se pudo iniciar sesión. Revisa el ID de usuario e inténtalo de nuevo.",
+  "login.emptyUserId": "Introduce un ID de usuario.",
+  "logout.failed.title": "Error al cerrar sesión",
+  "logout.failed.message": "No se pudo cerrar sesión. Inténtalo de nuevo.",
+
+  // Offer codes
+  "offerCode.invalid": "Introduce un código de oferta válido.",
+  "offerCode.success.title": "🎉 Código canjeado",
+  "offerCode.success.message": "Tu oferta está activa. ¡Disfruta de las funciones premium!",
+  "offerCode.failed.title": "Código no aceptado",
+  "offerCode.failed.message": "Este código no es válido o ya se ha usado.",
+  "redeem.title": "Canjear código de oferta",
+  "redeem.message": "Introduce el código que recibiste para desbloquear tu oferta.",
+  "redeem.placeholder": "Código de oferta",
+  "redeem.submit": "Canjear",
+  "redeem.playStore": "Confirmarás el código en Google Play.",
+  "redeem.openedStore": "Termina el canje en Google Play. Premium se desbloquea en cuanto se acepte tu código.",
+  "redeem.sheet": "Los códigos de oferta se canjean en el App Store.",
+  "redeem.openSheet": "Abrir App Store",
+  "redeem.unsupported": "Los códigos de oferta no se pueden canjear aquí. Usa el enlace de canje que recibiste.",
+  "redeem.demoHint": "Modo demo: prueba el código {code}.",
+  "redeem.close": "Cerrar",
+
+  // Subscription management
+  "manage.title": "Gestionar suscripción",
+  "manage.survey.title": "Antes de irte",
+  "manage.survey.message": "¿Por qué estás pensando en irte? Tu respuesta nos ayuda a mejorar.",
+  "manage.survey.continue": "Continuar",
+  "manage.survey.skip": "Omitir",
+  "manage.retention.title": "🎁 Una oferta especial para ti",
+  "manage.retention.message": "Quédate con nosotros y obtén tu suscripción a un precio reducido.",
+  "manage.retention.accept": "Ver oferta",
+  "manage.retention.decline": "No, gracias, gestionar suscripción",
+  "manage.method.managementURL": "Cambiarás o cancelarás tu suscripción donde la compraste.",
+  "manage.method.storePage": "Cambiarás o cancelarás tu suscripción en tu cuenta de la tienda.",
+  "manage.method.simulated": "Modo demo: cancelar desactiva la renovación automática en la tienda de demostración.",
+  "manage.open": "Gestionar suscripción",
+  "manage.openedStore": "Termina en la tienda. Tu cuenta se actualizará en cuanto vuelvas.",
+  "manage.unavailable": "Las suscripciones no se pueden gestionar aquí. Gestiónala en el dispositivo o sitio web donde te suscribiste.",
+  "manage.close": "Cerrar",
+  "manage.demoCancelled.title": "🎮 Suscripción demo cancelada",
+  "manage.demoCancelled.message": "La renovación automática está desactivada. Premium sigue activo hasta el final del periodo actual.",
+  "manage.failed.title": "No se pudieron abrir los ajustes de suscripción",
+  "manage.failed.message": "Las suscripciones no se pueden gestionar desde este dispositivo. Gestiónala donde te suscribiste.",
+
+  // Subscription details (see lib/subscriptionLifecycle.ts)
+  "subscription.title": "Tu suscripción",
+  "subscription.state.billingIssue": "Problema de pago",
+  "subscription.state.cancelled": "Cancelada",
+  "subscription.state.trial": "Prueba gratuita",
+  "subscription.state.intro": "Precio introductorio",
+  "subscription.state.active": "Activa",
+  "subscription.state.lifetime": "De por vida",
+  "subscription.state.expired": "Caducada",
+  "subscription.notice.billingIssue": "No pudimos cobrar tu método de pago. Actualízalo en tu cuenta de la tienda para mantener premium.",
+  "subscription.notice.cancelled": "Tu suscripción no se renovará. Premium sigue activo hasta el {date}.",
+  "subscription.row.entitlement": "Derecho",
+  "subscription.row.product": "Producto",
+  "subscription.row.store": "Tienda",
+  "subscription.row.renews": "Se renueva el",
+  "subscription.row.expires": "Caduca el",
+  "subscription.row.expired": "Caducó el",
+  "subscription.row.autoRenew": "Renovación automática",
+  "subscription.row.period": "Periodo",
+  "subscription.row.billingIssue": "Problema de pago desde",
+  "subscription.row.unsubscribed": "Cancelada el",
+  "subscription.row.since": "Cliente desde",
+  "subscription.row.ownership": "Acceso",
+  "subscription.row.environment": "Entorno",
+  "subscription.never": "Nunca",
+  "subscription.autoRenew.on": "Activada",
+  "subscription.autoRenew.off": "Desactivada",
+  "subscription.period.NORMAL": "Normal",
+  "subscription.period.TRIAL": "Prueba gratuita",
+  "subscription.period.INTRO": "Precio introductorio",
+  "subscription.period.PREPAID": "Prepago",
+  "subscription.ownership.PURCHASED": "Comprada",
+  "subscription.ownership.FAMILY_SHARED": "En familia",
+  "subscription.ownership.UNKNOWN": "Desconocido",
+  "subscription.environment.sandbox": "Sandbox (compra de prueba)",
+  "subscription.environment.production": "Producción",
+  "subscription.store.APP_STORE": "App Store",
+  "subscription.store.MAC_APP_STORE": "Mac App Store",
+  "subscription.store.PLAY_STORE": "Google Play",
+  "subscription.store.AMAZON": "Amazon Appstore",
+  "subscription.store.GALAXY": "Galaxy Store",
+  "subscription.store.STRIPE": "Stripe",
+  "subscription.store.PADDLE": "Paddle",
+  "subscription.store.RC_BILLING": "Facturación web",
+  "subscription.store.PROMOTIONAL": "Promocional",
+  "subscription.store.EXTERNAL": "Compra externa",
+  "subscription.store.TEST_STORE": "Tienda de prueba",
+  "subscription.store.UNKNOWN_STORE": "Tienda desconocida",
+
+  // Credits (see lib/credits.ts)
+  "credits.count": "{count, plural, one {# crédito} other {# créditos}}",
+  "credits.title": "Créditos",
+  "credits.empty": "Aún no tienes créditos. Los paquetes de créditos se venden en el muro de pago.",
+  "credits.entry.purchase": "Paquete de créditos",
+  "credits.entry.spend": "Gastado",
+  "credits.spend": "{count, plural, one {Usar # crédito} other {Usar # créditos}}",
+  "credits.buy": "Comprar créditos",
+  "credits.purchased.title": "Créditos añadidos",
+  "credits.purchased.message":
+    "{credits, plural, one {Se añadió # crédito} other {Se añadieron # créditos}} a tu saldo.",
+  "credits.insufficient.title": "Créditos insuficientes",
+  "credits.insufficient.message": "Compra un paquete de créditos para recargar tu saldo.",
+  "paywall.credits.title": "Paquetes de créditos",
+  "paywall.credits.balance": "Tu saldo: {credits}",
+
+  // Plan changes (see lib/planChanges.ts)
+  "changePlan.title": "Cambiar de plan",
+  "changePlan.currentPlan": "Plan actual",
+  "changePlan.renews": "Se renueva el {date}",
+  "changePlan.ends": "Termina el {date}",
+  "changePlan.choose": "Elige un nuevo plan",
+  "changePlan.type.upgrade": "Mejorar",
+  "changePlan.type.downgrade": "Bajar de plan",
+  "changePlan.type.crossgrade": "Cambiar",
+  "changePlan.effective.immediate": "Empieza hoy",
+  "changePlan.effective.nextRenewal": "Empieza el {date}",
+  "changePlan.summary.immediate": "Cambiarás a {plan} de inmediato.",
+  "changePlan.summary.nextRenewal": "Mantendrás tu plan actual hasta el {date} y luego cambiarás a {plan}.",
+  "changePlan.confirm": "Cambiar de plan",
+  "changePlan.close": "Cerrar",
+  "changePlan.success.title": "Plan cambiado",
+  "changePlan.success.immediate": "Ahora tienes {plan}.",
+  "changePlan.success.nextRenewal": "{plan} empieza el {date}. Mantienes tu plan actual hasta entonces.",
+  "changePlan.failed.title": "No se puede cambiar de plan",
+  "changePlan.unavailable.noSubscription": "No tienes una suscripción activa que cambiar.",
+  "changePlan.unavailable.samePlan": "Este ya es tu plan.",
+  "changePlan.unavailable.notSubscription": "Solo un plan de suscripción puede reemplazar tu suscripción.",
+  "changePlan.unavailable.otherStore":
+    "Tu suscripción se compró en otra tienda o dispositivo. Cámbiala allí.",
+  "changePlan.unavailable.differentGroup": "Este plan no puede reemplazar tu suscripción actual.",
+
+  // Purchase errors (see lib/purchaseErrors.ts)
+  "purchaseError.cancelled.title": "Compra cancelada",
+  "purchaseError.cancelled.message": "La compra se canceló. No se te ha cobrado nada.",
+  "purchaseError.network.title": "Problema de conexión",
+  "purchaseError.network.message": "Comprueba tu conexión a internet e inténtalo de nuevo.",
+  "purchaseError.storeProblem.title": "Tienda no disponible",
+  "purchaseError.storeProblem.message":
+    "La tienda no pudo completar la solicitud. Inténtalo de nuevo en un momento.",
+  "purchaseError.notAllowed.title": "Compra no permitida",
+  "purchaseError.notAllowed.message":
+    "Las compras no están permitidas en esta cuenta o dispositivo. Revisa tus ajustes de pago y restricciones.",
+  "purchaseError.alreadyOwned.title": "Ya comprado",
+  "purchaseError.alreadyOwned.message": "Ya tienes esta compra. Usa Restaurar compras para recuperar el acceso.",
+  "purchaseError.pending.title": "Pago pendiente",
+  "purchaseError.pending.message":
+    "Tu pago se está procesando. Las funciones premium se activarán en cuanto se apruebe.",
+  "purchaseError.configuration.title": "Error de configuración",
+  "purchaseError.configuration.message":
+    "RevenueCat no está configurado correctamente. Revisa tus claves de API en constants/RevenueCat.ts",
+  "purchaseError.unknown.title": "Algo salió mal",
+  "purchaseError.unknown.message": "Inténtalo de nuevo más tarde.",
+
+  // Paywall
+  "paywall.headerTitle": "✨ Premium",
+  "paywall.title": "Hazte Premium",
+  "paywall.loading": "Cargando opciones premium...",
+  "paywall.error.configTitle": "Configuración necesaria",
+  "paywall.error.configMessage": "Configura tus claves de API de RevenueCat en constants/RevenueCat.ts",
+  "paywall.error.title": "Algo salió mal",
+  "paywall.error.fallbackMessage": "Hubo un problema al procesar tu solicitud. Inténtalo de nuevo más tarde.",
+  "paywall.goBack": "Volver",
+  "paywall.noPackages.title": "⚠️ No hay opciones premium disponibles",
+  "paywall.noPackages.message": "Configura tus productos y ofertas en el panel de RevenueCat.",
+  "paywall.features.title": "Funciones Premium",
+  "paywall.features.advanced": "Funciones y herramientas avanzadas",
+  "paywall.features.support": "Soporte y actualizaciones prioritarios",
+  "paywall.features.platforms": "Funciona en todas las plataformas",
+  "paywall.features.sync": "Sincroniza todos tus dispositivos",
+  "paywall.choosePlan": "Elige tu plan",
+  "paywall.badge.weekly": "⚡ Pruébalo",
+  "paywall.badge.monthly": "📱 Popular",
+  "paywall.badge.bestValue": "🎯 Mejor precio",
+  "paywall.badge.lifetime": "💎 Premium",
+  "paywall.badge.specialOffer": "🏷️ Oferta especial",
+  "paywall.savings": "Ahorra un {percent} %",
+  "paywall.perMonth": "{price}/mes",
+  "paywall.description.weekly": "Ideal para probar las funciones premium",
+  "paywall.description.monthly": "Perfecto para uso habitual",
+  "paywall.description.annual": "El mejor precio para usuarios comprometidos",
+  "paywall.description.lifetime": "Pago único, acceso de por vida",
+  "paywall.description.default": "Acceso a la suscripción premium",
+  "paywall.demo.title": "🎮 Modo demostración",
+  "paywall.demo.message": "Este es un catálogo de ejemplo. Las compras son simuladas y no se procesa ningún pago.",
+  "paywall.webBilling.title": "💳 Pago web",
+  "paywall.webBilling.message": "Pagos seguros con RevenueCat.",
+  "paywall.processing": "Procesando...",
+  "paywall.terms":
+    "Las suscripciones se renuevan automáticamente salvo que se cancelen. Puedes gestionar tu suscripción en los ajustes de tu cuenta.",
+  "paywall.terms.ios": "Las suscripciones se gestionan con tu ID de Apple.",
+  "paywall.terms.android": "Las suscripciones se gestionan a través de Google Play.",
+  "paywall.terms.web": "Las suscripciones se gestionan a través de nuestro sistema de pago web.",
+  "paywall.later": "Quizás más tarde",
+  "paywall.redeemCode": "¿Tienes un código de oferta?",
+};